@@ -19,8 +19,13 @@ const EnvSchema = z.object({
   DOCWALLET_MASTER_KEY: z.string().min(1),
   HTTP_PORT: z.string().optional().default("8787").pipe(NumberString),
   PUBLIC_BASE_URL: z.string().optional().transform((v) => (v?.trim() ? v.trim().replace(/\/+$/g, "") : undefined)),
+  APPROVAL_SECRET: z.string().optional().transform((v) => (v?.trim() ? v.trim() : undefined)),
+  APPROVAL_LINK_TTL_MS: z.string().optional().default("259200000").pipe(NumberString),
+  APPROVAL_TTL_HOURS: z.string().optional().default("24").pipe(NumberString),
   POLL_INTERVAL_MS: z.string().optional().default("15000").pipe(NumberString),
   DISCOVERY_INTERVAL_MS: z.string().optional().default("60000").pipe(NumberString),
+  CONFIRMATION_INTERVAL_MS: z.string().optional().default("30000").pipe(NumberString),
+  TX_DROP_TIMEOUT_MS: z.string().optional().default("3600000").pipe(NumberString),
   DOCWALLET_DOC_ID: z.string().optional().transform((v) => (v?.trim() ? v.trim() : undefined)),
   DOCWALLET_DISCOVER_ALL: z.string().optional().default("1").pipe(BoolString),
   DOCWALLET_NAME_PREFIX: z
@@ -37,6 +42,21 @@ const EnvSchema = z.object({
   SBTC_ENABLED: z.string().optional().default("1").pipe(BoolString),
   USDCX_ENABLED: z.string().optional().default("1").pipe(BoolString),
   X402_ENABLED: z.string().optional().default("1").pipe(BoolString),
+  // "" disables swaps (and conditional orders), "mock" uses the in-process mock router, otherwise a router contract id.
+  SWAP_ROUTER: z.string().optional().default("").transform((v) => v.trim()),
+  SWAP_STX_TOKEN: z.string().optional().transform((v) => (v?.trim() ? v.trim() : undefined)),
+  // Price oracle: CoinGecko and the optional on-chain oracle below; a doc's PRICE_<PAIR> Config override prices only that doc.
+  PRICE_ORACLE_CONTRACT: z.string().optional().transform((v) => (v?.trim() ? v.trim() : undefined)),
+  PRICE_MAX_AGE_SECONDS: z.string().optional().default("300").pipe(NumberString),
+  PRICE_MAX_DEVIATION_PCT: z.string().optional().default("5").pipe(NumberString),
+  PRICE_MIN_SOURCES: z.string().optional().default("1").pipe(NumberString),
+  PRICE_HISTORY_DAYS: z.string().optional().default("30").pipe(NumberString),
+  // Minimum time between auto-rebalance proposals for a doc.
+  REBALANCE_INTERVAL_MS: z.string().optional().default("3600000").pipe(NumberString),
+  // STX auto-rebalance never sells, kept back for transaction fees (micro-STX).
+  REBALANCE_STX_FEE_RESERVE: z.string().optional().default("1000000").pipe(NumberString),
+  PAYMENT_POLL_INTERVAL_MS: z.string().optional().default("60000").pipe(NumberString),
+  INBOUND_POLL_INTERVAL_MS: z.string().optional().default("60000").pipe(NumberString),
   BALANCE_POLL_INTERVAL_MS: z.string().optional().default("60000").pipe(NumberString),
   SCHEDULER_INTERVAL_MS: z.string().optional().default("30000").pipe(NumberString),
   DEMO_MODE: z.string().optional().default("0").pipe(BoolString),
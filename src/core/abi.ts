@@ -0,0 +1,153 @@
+import { getTypeString } from "@stacks/transactions";
+import type { ClarityAbi, ClarityAbiType } from "@stacks/transactions";
+import type { ClarityLiteral } from "./clarity.js";
+
+export type AbiCheckResult = { ok: true; args: ClarityLiteral[] } | { ok: false; error: string };
+
+const INT_MAX = (1n << 127n) - 1n;
+
+class AbiMismatch extends Error {}
+
+/**
+ * Check a CONTRACT_CALL / CONTRACT_READ against the contract interface and coerce each
+ * literal to the declared type (e.g. 100 → u100 for a uint128 parameter).
+ */
+export function validateContractArgs(params: {
+  abi: ClarityAbi;
+  functionName: string;
+  mode: "CONTRACT_CALL" | "CONTRACT_READ";
+  args: ClarityLiteral[];
+}): AbiCheckResult {
+  const fn = params.abi.functions.find((f) => f.name === params.functionName);
+  if (!fn) {
+    const callable = params.abi.functions.filter((f) => f.access !== "private").map((f) => f.name);
+    return { ok: false, error: `Unknown function '${params.functionName}'. Available: ${callable.join(", ") || "(none)"}` };
+  }
+  if (fn.access === "private") return { ok: false, error: `'${fn.name}' is private and cannot be called` };
+  if (params.mode === "CONTRACT_CALL" && fn.access !== "public") {
+    return { ok: false, error: `'${fn.name}' is read-only — use CONTRACT_READ` };
+  }
+  if (params.mode === "CONTRACT_READ" && fn.access !== "read_only") {
+    return { ok: false, error: `'${fn.name}' is a public function — use CONTRACT_CALL` };
+  }
+  if (fn.args.length !== params.args.length) {
+    const sig = fn.args.map((a) => `${a.name}: ${getTypeString(a.type)}`).join(", ");
+    return { ok: false, error: `'${fn.name}' expects ${fn.args.length} argument(s) (${sig}), got ${params.args.length}` };
+  }
+
+  try {
+    return { ok: true, args: fn.args.map((a, i) => coerce(params.args[i]!, a.type, a.name)) };
+  } catch (e) {
+    if (e instanceof AbiMismatch) return { ok: false, error: e.message };
+    throw e;
+  }
+}
+
+/** Human-readable summary of a contract interface for the RESULT cell. */
+export function describeContractAbi(contractId: string, abi: ClarityAbi): string {
+  const lines = [`CONTRACT_INFO ${contractId}`];
+  const fnLine = (access: string) =>
+    abi.functions
+      .filter((f) => f.access === access)
+      .map((f) => `  ${f.name}(${f.args.map((a) => `${a.name}: ${getTypeString(a.type)}`).join(", ")}) -> ${getTypeString(f.outputs.type)}`);
+  const publicFns = fnLine("public");
+  const readOnly = fnLine("read_only");
+  if (publicFns.length) lines.push("Public:", ...publicFns);
+  if (readOnly.length) lines.push("Read-only:", ...readOnly);
+  if (abi.maps.length) {
+    lines.push("Maps:", ...abi.maps.map((m) => `  ${m.name}: ${getTypeString(m.key)} => ${getTypeString(m.value)}`));
+  }
+  if (abi.variables.length) {
+    lines.push("Variables:", ...abi.variables.map((v) => `  ${v.name} (${v.access}): ${getTypeString(v.type)}`));
+  }
+  const tokens = [
+    ...abi.fungible_tokens.map((t) => `  ${t.name} (fungible)`),
+    ...abi.non_fungible_tokens.map((t) => `  ${t.name} (nft: ${getTypeString(t.type)})`)
+  ];
+  if (tokens.length) lines.push("Tokens:", ...tokens);
+  return lines.join("\n");
+}
+
+function coerce(lit: ClarityLiteral, type: ClarityAbiType, path: string): ClarityLiteral {
+  const fail = (): never => {
+    throw new AbiMismatch(`Argument '${path}': expected ${getTypeString(type)}, got ${lit.type}`);
+  };
+
+  if (typeof type === "string") {
+    switch (type) {
+      case "uint128":
+        if (lit.type === "uint") return lit;
+        if (lit.type === "int" && BigInt(lit.value) >= 0n) return { type: "uint", value: lit.value };
+        return fail();
+      case "int128":
+        if (lit.type === "int") return lit;
+        if (lit.type === "uint" && BigInt(lit.value) <= INT_MAX) return { type: "int", value: lit.value };
+        return fail();
+      case "bool":
+        return lit.type === "bool" ? lit : fail();
+      case "principal":
+        return lit.type === "principal" ? lit : fail();
+      case "trait_reference":
+        if (lit.type === "principal" && lit.value.includes(".")) return lit;
+        throw new AbiMismatch(`Argument '${path}': expected a contract principal for trait_reference`);
+      case "none":
+        return lit.type === "none" ? lit : fail();
+    }
+  }
+
+  if ("buffer" in type) {
+    if (lit.type !== "buffer") return fail();
+    if (lit.hex.length / 2 > type.buffer.length) {
+      throw new AbiMismatch(`Argument '${path}': buffer is ${lit.hex.length / 2} bytes, max ${type.buffer.length}`);
+    }
+    return lit;
+  }
+  if ("string-ascii" in type) {
+    const max = type["string-ascii"].length;
+    let value: string;
+    if (lit.type === "string-ascii") value = lit.value;
+    else if (lit.type === "string-utf8" && /^[\x20-\x7e\n\t\r]*$/.test(lit.value)) value = lit.value;
+    else return fail();
+    if (value.length > max) throw new AbiMismatch(`Argument '${path}': string is ${value.length} chars, max ${max}`);
+    return { type: "string-ascii", value };
+  }
+  if ("string-utf8" in type) {
+    const max = type["string-utf8"].length;
+    if (lit.type !== "string-utf8" && lit.type !== "string-ascii") return fail();
+    const len = [...lit.value].length;
+    if (len > max) throw new AbiMismatch(`Argument '${path}': string is ${len} chars, max ${max}`);
+    return { type: "string-utf8", value: lit.value };
+  }
+  if ("optional" in type) {
+    if (lit.type === "none") return lit;
+    if (lit.type === "some") return { type: "some", value: coerce(lit.value, type.optional, path) };
+    return { type: "some", value: coerce(lit, type.optional, path) };
+  }
+  if ("response" in type) {
+    if (lit.type === "ok") return { type: "ok", value: coerce(lit.value, type.response.ok, path) };
+    if (lit.type === "err") return { type: "err", value: coerce(lit.value, type.response.error, path) };
+    return fail();
+  }
+  if ("list" in type) {
+    if (lit.type !== "list") return fail();
+    if (lit.items.length > type.list.length) {
+      throw new AbiMismatch(`Argument '${path}': list has ${lit.items.length} items, max ${type.list.length}`);
+    }
+    return { type: "list", items: lit.items.map((item, i) => coerce(item, type.list.type, `${path}[${i}]`)) };
+  }
+  if ("tuple" in type) {
+    if (lit.type !== "tuple") return fail();
+    const expected = type.tuple.map((f) => f.name);
+    const given = Object.keys(lit.fields);
+    const missing = expected.filter((k) => !given.includes(k));
+    const extra = given.filter((k) => !expected.includes(k));
+    if (missing.length || extra.length) {
+      const parts = [missing.length ? `missing ${missing.join(", ")}` : "", extra.length ? `unexpected ${extra.join(", ")}` : ""];
+      throw new AbiMismatch(`Argument '${path}': tuple fields ${parts.filter(Boolean).join("; ")}`);
+    }
+    const fields: Record<string, ClarityLiteral> = Object.create(null);
+    for (const f of type.tuple) fields[f.name] = coerce(lit.fields[f.name]!, f.type, `${path}.${f.name}`);
+    return { type: "tuple", fields };
+  }
+  return fail();
+}
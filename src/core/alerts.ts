@@ -0,0 +1,35 @@
+import type { AmountAsset } from "./amounts.js";
+
+/** A threshold is in token units or in USD at the cached price. */
+export type AlertUnit = "TOKEN" | "USD";
+
+export type AlertThreshold = { asset: AmountAsset; unit: AlertUnit; below: number };
+
+export const ALERT_ASSETS: Record<string, AmountAsset> = { STX: "STX", SBTC: "SBTC", BTC: "SBTC", USDCX: "USDCX", USDC: "USDCX" };
+
+/** doc_config key of a balance threshold, e.g. `alert_threshold_stx` or `alert_threshold_sbtc_usd`. */
+export function alertThresholdKey(asset: AmountAsset, unit: AlertUnit): string {
+  return `alert_threshold_${asset.toLowerCase()}${unit === "USD" ? "_usd" : ""}`;
+}
+
+/** Thresholds configured in a doc's doc_config rows; a threshold of 0 is disabled. */
+export function readAlertThresholds(rows: Array<{ key: string; value: string }>): AlertThreshold[] {
+  const out: AlertThreshold[] = [];
+  for (const row of rows) {
+    const m = row.key.match(/^alert_threshold_([a-z]+)(_usd)?$/);
+    const asset = m ? ALERT_ASSETS[m[1]!.toUpperCase()] : undefined;
+    const below = Number(row.value);
+    if (!asset || !(below > 0)) continue;
+    out.push({ asset, unit: m![2] ? "USD" : "TOKEN", below });
+  }
+  return out;
+}
+
+/**
+ * Debounce for one threshold: FIRE when the value drops below it while armed, REARM once the
+ * value is back at or above it, so each crossing alerts exactly once.
+ */
+export function alertTransition(value: number, below: number, tripped: boolean): "FIRE" | "REARM" | null {
+  if (value < below) return tripped ? null : "FIRE";
+  return tripped ? "REARM" : null;
+}
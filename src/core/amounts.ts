@@ -0,0 +1,73 @@
+/**
+ * Exact unit-suffixed amounts for DW commands ("1.5STX", "2500uSTX", "0.01BTC", "1000sats", "25.50USDCx").
+ * Decimal strings are converted digit-by-digit to base-unit bigints — never through floating point.
+ */
+
+export type AmountAsset = "STX" | "SBTC" | "USDCX";
+
+export type AmountParseResult = { ok: true; value: bigint } | { ok: false; error: string };
+
+type AssetSpec = {
+  decimals: number;
+  display: string;
+  baseUnit: string;
+  units: Record<string, number>; // lower-case suffix → decimal places it is expressed in
+};
+
+export const AMOUNT_ASSETS: Record<AmountAsset, AssetSpec> = {
+  STX: { decimals: 6, display: "STX", baseUnit: "uSTX", units: { stx: 6, ustx: 0, microstx: 0 } },
+  SBTC: { decimals: 8, display: "sBTC", baseUnit: "sats", units: { btc: 8, sbtc: 8, sats: 0, sat: 0 } },
+  USDCX: { decimals: 6, display: "USDCx", baseUnit: "base units", units: { usdcx: 6, usdc: 6 } }
+};
+
+/**
+ * Parse an amount for the given asset. A bare integer keeps the legacy meaning (base units);
+ * a suffixed decimal is scaled exactly, and extra precision is an error rather than rounded.
+ */
+export function parseAmount(input: string, asset: AmountAsset): AmountParseResult {
+  const spec = AMOUNT_ASSETS[asset];
+  const m = input.trim().match(/^(\d+)(?:\.(\d+))?\s*([A-Za-z]+)?$/);
+  if (!m) return { ok: false, error: `Invalid amount '${input}'` };
+  const [, whole, frac = "", suffix] = m;
+
+  let places = 0;
+  if (suffix) {
+    const p = spec.units[suffix.toLowerCase()];
+    if (p === undefined) {
+      return { ok: false, error: `Unit '${suffix}' is not valid for ${spec.display} (use ${Object.keys(spec.units).join(", ")})` };
+    }
+    places = p;
+  } else if (frac) {
+    return { ok: false, error: `Decimal amounts need a unit, e.g. ${input}${spec.display}` };
+  }
+  if (frac.length > places) {
+    return { ok: false, error: `Too many decimal places in '${input}' (max ${places} for ${suffix})` };
+  }
+
+  const value = BigInt(whole! + frac.padEnd(places, "0"));
+  if (value <= 0n) return { ok: false, error: "Amount must be positive" };
+  return { ok: true, value };
+}
+
+/** Exact decimal rendering of a base-unit amount, trailing zeros trimmed. */
+export function formatUnits(value: bigint, decimals: number): string {
+  const neg = value < 0n;
+  const digits = (neg ? -value : value).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const frac = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${neg ? "-" : ""}${whole}${frac ? `.${frac}` : ""}`;
+}
+
+/** Inverse of formatUnits for a plain decimal ("12.5"); null when malformed or too precise. */
+export function parseUnits(text: string, decimals: number): bigint | null {
+  const m = text.trim().match(/^(\d+)(?:\.(\d+))?$/);
+  if (!m || (m[2] ?? "").length > decimals) return null;
+  return BigInt(m[1]! + (m[2] ?? "").padEnd(decimals, "0"));
+}
+
+/** Both units, e.g. "1.5 STX (1500000 uSTX)". */
+export function describeAmount(value: bigint | string, asset: AmountAsset): string {
+  const spec = AMOUNT_ASSETS[asset];
+  const base = BigInt(value);
+  return `${formatUnits(base, spec.decimals)} ${spec.display} (${base.toString()} ${spec.baseUnit})`;
+}
@@ -0,0 +1,102 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+export type ApprovalTokenPayload = {
+  docId: string;
+  cmdId: string;
+  signer?: string;
+  nonce: string;
+  expiresAt: number;
+};
+
+export type ApprovalTokenResult =
+  | { ok: true; payload: ApprovalTokenPayload }
+  | { ok: false; error: string };
+
+export const DEFAULT_APPROVAL_TTL_MS = 72 * 60 * 60 * 1000;
+
+/** Derive the HMAC key for approval links; an explicit secret wins over the master key. */
+export function deriveApprovalSecret(masterKey: string, override?: string): Buffer {
+  if (override) return Buffer.from(override, "utf8");
+  return createHmac("sha256", masterKey.trim()).update("docwallet:approval-token:v1").digest();
+}
+
+/** Token format: v1.<b64url(json payload)>.<b64url(hmac-sha256)> */
+export function createApprovalToken(params: {
+  secret: Buffer;
+  docId: string;
+  cmdId: string;
+  signer?: string;
+  ttlMs?: number;
+  now?: number;
+}): string {
+  const payload: ApprovalTokenPayload = {
+    docId: params.docId,
+    cmdId: params.cmdId,
+    ...(params.signer ? { signer: params.signer } : {}),
+    nonce: randomBytes(12).toString("base64url"),
+    expiresAt: (params.now ?? Date.now()) + (params.ttlMs ?? DEFAULT_APPROVAL_TTL_MS)
+  };
+  const body = Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+  return `v1.${body}.${sign(params.secret, body)}`;
+}
+
+export function verifyApprovalToken(params: {
+  secret: Buffer;
+  token: string;
+  docId: string;
+  cmdId: string;
+  now?: number;
+}): ApprovalTokenResult {
+  const parts = params.token.split(".");
+  if (parts.length !== 3 || parts[0] !== "v1") return { ok: false, error: "Malformed approval token" };
+  const [, body, mac] = parts as [string, string, string];
+
+  const expected = Buffer.from(sign(params.secret, body), "utf8");
+  const given = Buffer.from(mac, "utf8");
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { ok: false, error: "Invalid approval token signature" };
+  }
+
+  let payload: ApprovalTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+  } catch {
+    return { ok: false, error: "Malformed approval token" };
+  }
+  if (payload.docId !== params.docId || payload.cmdId !== params.cmdId) {
+    return { ok: false, error: "Approval token does not match this command" };
+  }
+  if (typeof payload.expiresAt !== "number" || payload.expiresAt <= (params.now ?? Date.now())) {
+    return { ok: false, error: "Approval token expired" };
+  }
+  if (typeof payload.nonce !== "string" || !payload.nonce) return { ok: false, error: "Malformed approval token" };
+  return { ok: true, payload };
+}
+
+export function buildApprovalUrl(params: {
+  publicBaseUrl: string;
+  secret: Buffer;
+  docId: string;
+  cmdId: string;
+  signer?: string;
+  ttlMs?: number;
+}): string {
+  const token = createApprovalToken(params);
+  return `${params.publicBaseUrl}/cmd/${encodeURIComponent(params.docId)}/${encodeURIComponent(params.cmdId)}?token=${encodeURIComponent(token)}`;
+}
+
+export function createCsrfToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/** Double-submit check: the header value must equal the cookie set when the page was rendered. */
+export function verifyCsrf(cookieValue: string | undefined, headerValue: string | undefined): boolean {
+  if (!cookieValue || !headerValue) return false;
+  const a = Buffer.from(cookieValue, "utf8");
+  const b = Buffer.from(headerValue, "utf8");
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function sign(secret: Buffer, body: string): string {
+  return createHmac("sha256", secret).update(`v1.${body}`).digest("base64url");
+}
@@ -0,0 +1,243 @@
+import { Cl, validateStacksAddress } from "@stacks/transactions";
+import type { ClarityValue } from "@stacks/transactions";
+
+/**
+ * JSON-safe Clarity literal, stored in parsed_json and converted to a ClarityValue at execution.
+ * Integers are kept as decimal strings so they survive JSON round-trips.
+ */
+export type ClarityLiteral =
+  | { type: "uint"; value: string }
+  | { type: "int"; value: string }
+  | { type: "bool"; value: boolean }
+  | { type: "buffer"; hex: string }
+  | { type: "string-ascii"; value: string }
+  | { type: "string-utf8"; value: string }
+  | { type: "principal"; value: string }
+  | { type: "none" }
+  | { type: "some"; value: ClarityLiteral }
+  | { type: "ok"; value: ClarityLiteral }
+  | { type: "err"; value: ClarityLiteral }
+  | { type: "list"; items: ClarityLiteral[] }
+  | { type: "tuple"; fields: Record<string, ClarityLiteral> };
+
+export type ClarityParseResult = { ok: true; value: ClarityLiteral[] } | { ok: false; error: string };
+
+const UINT_MAX = (1n << 128n) - 1n;
+const INT_MIN = -(1n << 127n);
+const INT_MAX = (1n << 127n) - 1n;
+const CONTRACT_NAME_RE = /^[a-zA-Z]([a-zA-Z0-9]|[-_])*$/;
+const TUPLE_KEY_RE = /^[a-zA-Z][a-zA-Z0-9_!?+<>=/*-]*$/;
+
+class ClaritySyntaxError extends Error {}
+
+type Cursor = { src: string; pos: number };
+
+/**
+ * Parse a whitespace-separated sequence of Clarity literals:
+ * u100, -5, true, 0xdead, "ascii", u"utf8", 'SP..[.contract], none, (some x), (ok x), (err x),
+ * (list a b), {key: value, ...}. As in Clarity, a bare integer is an int and a uint needs the u
+ * prefix (the ABI check still accepts 100 for a uint parameter). Bare SP/ST addresses are
+ * accepted as principals.
+ */
+export function parseClarityArgs(input: string): ClarityParseResult {
+  const cur: Cursor = { src: input, pos: 0 };
+  const out: ClarityLiteral[] = [];
+  try {
+    skipWs(cur);
+    while (cur.pos < cur.src.length) {
+      out.push(parseValue(cur));
+      const before = cur.pos;
+      skipWs(cur);
+      if (cur.pos < cur.src.length && cur.pos === before) {
+        throw new ClaritySyntaxError(`Expected whitespace between arguments at position ${cur.pos}`);
+      }
+    }
+  } catch (e) {
+    if (e instanceof ClaritySyntaxError) return { ok: false, error: `Clarity argument: ${e.message}` };
+    throw e;
+  }
+  return { ok: true, value: out };
+}
+
+export function toClarityValue(lit: ClarityLiteral): ClarityValue {
+  switch (lit.type) {
+    case "uint": return Cl.uint(BigInt(lit.value));
+    case "int": return Cl.int(BigInt(lit.value));
+    case "bool": return Cl.bool(lit.value);
+    case "buffer": return Cl.bufferFromHex(lit.hex);
+    case "string-ascii": return Cl.stringAscii(lit.value);
+    case "string-utf8": return Cl.stringUtf8(lit.value);
+    case "principal": return Cl.principal(lit.value);
+    case "none": return Cl.none();
+    case "some": return Cl.some(toClarityValue(lit.value));
+    case "ok": return Cl.ok(toClarityValue(lit.value));
+    case "err": return Cl.error(toClarityValue(lit.value));
+    case "list": return Cl.list(lit.items.map(toClarityValue));
+    case "tuple":
+      return Cl.tuple(Object.fromEntries(Object.entries(lit.fields).map(([k, v]) => [k, toClarityValue(v)])));
+  }
+}
+
+/** Render a literal back to command-cell syntax (inverse of parseClarityArgs). */
+export function formatClarityLiteral(lit: ClarityLiteral): string {
+  switch (lit.type) {
+    case "uint": return `u${lit.value}`;
+    case "int": return lit.value;
+    case "bool": return lit.value ? "true" : "false";
+    case "buffer": return `0x${lit.hex}`;
+    case "string-ascii": return JSON.stringify(lit.value);
+    case "string-utf8": return `u${JSON.stringify(lit.value)}`;
+    case "principal": return `'${lit.value}`;
+    case "none": return "none";
+    case "some":
+    case "ok":
+    case "err":
+      return `(${lit.type} ${formatClarityLiteral(lit.value)})`;
+    case "list": return `(list${lit.items.map((i) => ` ${formatClarityLiteral(i)}`).join("")})`;
+    case "tuple":
+      return `{${Object.entries(lit.fields).map(([k, v]) => `${k}: ${formatClarityLiteral(v)}`).join(", ")}}`;
+  }
+}
+
+function parseValue(cur: Cursor): ClarityLiteral {
+  const c = cur.src[cur.pos];
+  if (c === undefined) throw new ClaritySyntaxError("Unexpected end of input");
+  if (c === '"') return { type: "string-ascii", value: parseString(cur, true) };
+  if (c === "u" && cur.src[cur.pos + 1] === '"') {
+    cur.pos++;
+    return { type: "string-utf8", value: parseString(cur, false) };
+  }
+  if (c === "(") return parseParenForm(cur);
+  if (c === "{") return parseTuple(cur);
+  if (c === "'") {
+    cur.pos++;
+    return { type: "principal", value: parsePrincipal(readAtom(cur)) };
+  }
+
+  const start = cur.pos;
+  const atom = readAtom(cur);
+  if (!atom) throw new ClaritySyntaxError(`Unexpected '${c}' at position ${start}`);
+  if (atom === "true" || atom === "false") return { type: "bool", value: atom === "true" };
+  if (atom === "none") return { type: "none" };
+  if (/^u\d+$/.test(atom)) {
+    const v = BigInt(atom.slice(1));
+    if (v > UINT_MAX) throw new ClaritySyntaxError(`uint out of range: ${atom}`);
+    return { type: "uint", value: v.toString() };
+  }
+  if (/^-?\d+$/.test(atom)) {
+    const v = BigInt(atom);
+    if (v < INT_MIN || v > INT_MAX) throw new ClaritySyntaxError(`int out of range: ${atom}`);
+    return { type: "int", value: v.toString() };
+  }
+  if (/^0x[0-9a-fA-F]*$/.test(atom)) {
+    const hex = atom.slice(2).toLowerCase();
+    if (hex.length % 2 !== 0) throw new ClaritySyntaxError(`Buffer must have an even number of hex digits: ${atom}`);
+    return { type: "buffer", hex };
+  }
+  if (/^S[PMTN]/.test(atom)) return { type: "principal", value: parsePrincipal(atom) };
+  throw new ClaritySyntaxError(`Unrecognised literal '${atom}' (quote strings, prefix uints with u)`);
+}
+
+function parseParenForm(cur: Cursor): ClarityLiteral {
+  cur.pos++; // (
+  skipWs(cur);
+  const head = readAtom(cur);
+  const items: ClarityLiteral[] = [];
+  for (;;) {
+    skipWs(cur);
+    if (cur.pos >= cur.src.length) throw new ClaritySyntaxError(`Unclosed '(${head}'`);
+    if (cur.src[cur.pos] === ")") {
+      cur.pos++;
+      break;
+    }
+    items.push(parseValue(cur));
+  }
+
+  if (head === "list") return { type: "list", items };
+  if (head === "some" || head === "ok" || head === "err") {
+    if (items.length !== 1) throw new ClaritySyntaxError(`(${head} ...) takes exactly one value`);
+    const value = items[0]!;
+    return head === "some" ? { type: "some", value } : head === "ok" ? { type: "ok", value } : { type: "err", value };
+  }
+  throw new ClaritySyntaxError(`Unknown form '(${head}' — expected list, some, ok or err`);
+}
+
+function parseTuple(cur: Cursor): ClarityLiteral {
+  cur.pos++; // {
+  const fields: Record<string, ClarityLiteral> = Object.create(null);
+  for (;;) {
+    skipWs(cur);
+    if (cur.src[cur.pos] === "}") {
+      cur.pos++;
+      break;
+    }
+    const key = readAtom(cur, ":");
+    if (!TUPLE_KEY_RE.test(key)) throw new ClaritySyntaxError(`Invalid tuple key '${key}'`);
+    if (Object.hasOwn(fields, key)) throw new ClaritySyntaxError(`Duplicate tuple key '${key}'`);
+    skipWs(cur);
+    if (cur.src[cur.pos] !== ":") throw new ClaritySyntaxError(`Expected ':' after tuple key '${key}'`);
+    cur.pos++;
+    skipWs(cur);
+    fields[key] = parseValue(cur);
+    skipWs(cur);
+    if (cur.src[cur.pos] === ",") {
+      cur.pos++;
+      continue;
+    }
+    if (cur.src[cur.pos] === "}") {
+      cur.pos++;
+      break;
+    }
+    throw new ClaritySyntaxError(cur.pos >= cur.src.length ? "Unclosed tuple" : `Expected ',' or '}' at position ${cur.pos}`);
+  }
+  if (Object.keys(fields).length === 0) throw new ClaritySyntaxError("Tuples need at least one field");
+  return { type: "tuple", fields };
+}
+
+function parseString(cur: Cursor, asciiOnly: boolean): string {
+  cur.pos++; // opening quote
+  let out = "";
+  for (;;) {
+    const c = cur.src[cur.pos];
+    if (c === undefined) throw new ClaritySyntaxError("Unterminated string");
+    cur.pos++;
+    if (c === '"') break;
+    if (c === "\\") {
+      const e = cur.src[cur.pos++];
+      if (e === '"' || e === "\\") out += e;
+      else if (e === "n") out += "\n";
+      else if (e === "t") out += "\t";
+      else if (e === "r") out += "\r";
+      else throw new ClaritySyntaxError(`Unsupported escape '\\${e ?? ""}'`);
+      continue;
+    }
+    out += c;
+  }
+  if (asciiOnly && /[^\x20-\x7e\n\t\r]/.test(out)) {
+    throw new ClaritySyntaxError(`Non-ASCII characters in string-ascii; use u"..." for UTF-8`);
+  }
+  return out;
+}
+
+function parsePrincipal(atom: string): string {
+  const [address, contractName, ...rest] = atom.split(".");
+  if (!address || !validateStacksAddress(address) || rest.length > 0) {
+    throw new ClaritySyntaxError(`Invalid principal '${atom}'`);
+  }
+  if (contractName !== undefined && (!CONTRACT_NAME_RE.test(contractName) || contractName.length > 40)) {
+    throw new ClaritySyntaxError(`Invalid contract name in principal '${atom}'`);
+  }
+  return atom;
+}
+
+function readAtom(cur: Cursor, extraStop = ""): string {
+  const start = cur.pos;
+  while (cur.pos < cur.src.length && !/[\s(){},"]/.test(cur.src[cur.pos]!) && !extraStop.includes(cur.src[cur.pos]!)) {
+    cur.pos++;
+  }
+  return cur.src.slice(start, cur.pos);
+}
+
+function skipWs(cur: Cursor) {
+  while (cur.pos < cur.src.length && /\s/.test(cur.src[cur.pos]!)) cur.pos++;
+}
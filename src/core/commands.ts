@@ -1,4 +1,20 @@
 import { z } from "zod";
+import { parseAmount } from "./amounts.js";
+import type { AmountAsset } from "./amounts.js";
+import { parseFeeTier } from "./fees.js";
+import type { FeeTier } from "./fees.js";
+import { parseClarityArgs } from "./clarity.js";
+import { parsePostConditions } from "./postconditions.js";
+import { PAYMENT_FILTERS, parsePaymentExpiry } from "./payments.js";
+import type { PaymentStatus } from "./payments.js";
+import { PRICE_PAIRS, parsePriceRange } from "./prices.js";
+import { isStacksSigner } from "./sip018.js";
+import type { PricePair } from "./prices.js";
+import type { PostConditionSpec } from "./postconditions.js";
+import type { ClarityLiteral } from "./clarity.js";
+
+/** Assets that conditional orders can trade against USDCx. */
+export type OrderAsset = "STX" | "SBTC";
 
 export type ParsedCommand =
   | { type: "SETUP" }
@@ -6,35 +22,67 @@ export type ParsedCommand =
   | { type: "TREASURY" }
   | { type: "SCHEDULE"; intervalHours: number; innerCommand: string }
   | { type: "CANCEL_SCHEDULE"; scheduleId: string }
-  | { type: "ALERT_THRESHOLD"; coinType: string; below: number }
+  | { type: "ALERT_THRESHOLD"; coinType: string; below: number; usd?: boolean }
+  | { type: "ALERTS"; clear: boolean }
   | { type: "AUTO_REBALANCE"; enabled: boolean }
   | { type: "CANCEL_ORDER"; orderId: string }
+  | { type: "SIMULATE"; command: ParsedCommand }
+  // ── Signers / Quorum ──
+  | { type: "SIGNER_ADD"; signerId: string; weight: number }
+  | { type: "SIGNER_REMOVE"; signerId: string }
+  | { type: "QUORUM"; quorum: number }
+  | { type: "SIGNERS" }
   // ── STX Commands ──
-  | { type: "STX_SEND"; to: string; amountMicroStx: bigint }
+  | { type: "STX_SEND"; to: string; amountMicroStx: bigint; feeTier?: FeeTier }
   | { type: "STX_BALANCE" }
   | { type: "STX_PRICE" }
+  | { type: "PRICE"; pair: PricePair; rangeMs: number }
   | { type: "STX_HISTORY"; limit: number }
   | { type: "STX_STOP_LOSS"; qty: number; triggerPrice: number }
   | { type: "STX_TAKE_PROFIT"; qty: number; triggerPrice: number }
+  | { type: "TRAILING_STOP"; asset: OrderAsset; qty: number; trailPct?: number; trailAbs?: number }
+  | { type: "OCO"; asset: OrderAsset; qty: number; stopPrice: number; takeProfitPrice: number }
+  | { type: "LIMIT_BUY"; asset: OrderAsset; qty: number; limitPrice: number }
+  | { type: "SWAP"; amountIn: bigint; fromAsset: AmountAsset; toAsset: AmountAsset; maxSlippageBps: number; feeTier?: FeeTier }
+  | { type: "SPEED_UP"; txid: string; feeTier?: FeeTier }
+  | { type: "CANCEL_TX"; txid: string; feeTier?: FeeTier }
   // ── sBTC Commands ──
   | { type: "SBTC_BALANCE" }
-  | { type: "SBTC_SEND"; to: string; amountSats: bigint }
+  | { type: "SBTC_SEND"; to: string; amountSats: bigint; feeTier?: FeeTier }
   | { type: "SBTC_INFO" }
   // ── USDCx Commands ──
   | { type: "USDCX_BALANCE" }
-  | { type: "USDCX_SEND"; to: string; amount: bigint }
-  | { type: "USDCX_APPROVE"; spender: string; amount: bigint }
+  | { type: "USDCX_SEND"; to: string; amount: bigint; feeTier?: FeeTier }
+  | { type: "USDCX_APPROVE"; spender: string; amount: bigint; feeTier?: FeeTier }
   | { type: "USDCX_PAYMENT"; amount: number; description: string }
+  /** `token` is STX, SBTC, USDCX or a SIP-010 contract id; `amount` is a decimal in whole tokens. */
+  | { type: "PAYMENT_REQUEST"; amount: string; token: string; description: string; expiresInMs?: number }
+  | { type: "PAYMENT_CHECK"; requestId: string }
+  | { type: "PAYMENTS"; status?: PaymentStatus }
   // ── x402 Commands ──
   | { type: "X402_CALL"; url: string; method: string }
   | { type: "X402_STATUS"; txid: string }
   // ── Clarity Contract Commands ──
-  | { type: "CONTRACT_CALL"; contractAddress: string; contractName: string; functionName: string; args: string[] }
-  | { type: "CONTRACT_READ"; contractAddress: string; contractName: string; functionName: string; args: string[] }
+  | { type: "CONTRACT_CALL"; contractAddress: string; contractName: string; functionName: string; args: ClarityLiteral[]; postConditions?: PostConditionSpec[]; feeTier?: FeeTier }
+  | { type: "CONTRACT_READ"; contractAddress: string; contractName: string; functionName: string; args: ClarityLiteral[] }
+  | { type: "CONTRACT_INFO"; contractAddress: string; contractName: string }
   // ── Stacking (PoX) ──
   | { type: "STACK_STX"; amountStx: number; cycles: number }
   | { type: "STACK_STATUS" };
 
+/** Commands that broadcast a transaction and so accept a trailing FEE=<tier>. */
+const FEE_TIER_COMMANDS = new Set<ParsedCommand["type"]>([
+  "STX_SEND", "SBTC_SEND", "USDCX_SEND", "USDCX_APPROVE", "CONTRACT_CALL", "SPEED_UP", "CANCEL_TX", "SWAP"
+]);
+
+const SWAP_ASSETS: Record<string, AmountAsset> = { STX: "STX", SBTC: "SBTC", BTC: "SBTC", USDCX: "USDCX", USDC: "USDCX" };
+const ORDER_ASSETS: Record<string, OrderAsset> = { STX: "STX", SBTC: "SBTC", BTC: "SBTC" };
+
+/** Money-moving commands that can be dry-run with a DRYRUN suffix or `DW SIMULATE <command>`. */
+export const SIMULATABLE_COMMANDS = new Set<ParsedCommand["type"]>([
+  "STX_SEND", "SBTC_SEND", "USDCX_SEND", "USDCX_APPROVE", "CONTRACT_CALL", "SWAP"
+]);
+
 export type ParseResult =
   | { ok: true; value: ParsedCommand }
   | { ok: false; error: string };
@@ -51,13 +99,39 @@ function parseIntSafe(v: string): number | null {
   return n;
 }
 
+/**
+ * Position of the first whitespace-delimited POST keyword in Clarity argument text, skipping
+ * string literals so `"a POST b"` stays an argument; -1 when there is none.
+ */
+function findPostKeyword(src: string): number {
+  let inString = false;
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i]!;
+    if (inString) {
+      if (c === "\\") i++;
+      else if (c === '"') inString = false;
+      continue;
+    }
+    if (c === '"') {
+      inString = true;
+      continue;
+    }
+    if ((i === 0 || /\s/.test(src[i - 1]!)) && /^POST(?:\s|$)/i.test(src.slice(i, i + 5))) return i;
+  }
+  return -1;
+}
+
 /** Validate Stacks address format (SP... or ST...) */
 const STX_ADDR_RE = /^(SP|ST)[A-Z0-9]{38,}$/i;
 
+/** SIP-010 token contract, e.g. SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.token-alex */
+const CONTRACT_ID_RE = /^(SP|ST)[A-Z0-9]{38,}\.[a-zA-Z][a-zA-Z0-9-]*$/;
+
 function isValidStxAddress(addr: string): boolean {
   return STX_ADDR_RE.test(addr.trim());
 }
 
+
 /**
  * Try to auto-detect common command patterns without the DW prefix.
  * Returns a ParseResult if detected, null otherwise.
@@ -107,28 +181,19 @@ export function tryAutoDetect(raw: string): ParseResult | null {
   // Send STX: "send 10 STX to ST..."
   const stxSendMatch = trimmed.match(/^(?:send|pay)\s+([\d.]+)\s*STX\s+to\s+((?:ST|SP)[A-Z0-9]+)$/i);
   if (stxSendMatch) {
-    const amountStx = parseNumber(stxSendMatch[1]!);
-    if (amountStx === null || amountStx <= 0) return { ok: false, error: "Invalid STX amount" };
-    const microStx = Math.round(amountStx * 1_000_000);
-    return parseCommand(`DW STX_SEND ${stxSendMatch[2]} ${microStx}`);
+    return parseCommand(`DW STX_SEND ${stxSendMatch[2]} ${stxSendMatch[1]}STX`);
   }
 
   // Send sBTC: "send 0.001 sBTC to ST..."
   const sbtcSendMatch = trimmed.match(/^(?:send|pay)\s+([\d.]+)\s*sBTC\s+to\s+((?:ST|SP)[A-Z0-9]+)$/i);
   if (sbtcSendMatch) {
-    const amountBtc = parseNumber(sbtcSendMatch[1]!);
-    if (amountBtc === null || amountBtc <= 0) return { ok: false, error: "Invalid sBTC amount" };
-    const sats = Math.round(amountBtc * 1e8);
-    return parseCommand(`DW SBTC_SEND ${sbtcSendMatch[2]} ${sats}`);
+    return parseCommand(`DW SBTC_SEND ${sbtcSendMatch[2]} ${sbtcSendMatch[1]}BTC`);
   }
 
   // Send USDCx: "send 50 USDCx to ST..."
   const usdcxSendMatch = trimmed.match(/^(?:send|pay)\s+([\d.]+)\s*(?:USDCx|USDC)\s+to\s+((?:ST|SP)[A-Z0-9]+)$/i);
   if (usdcxSendMatch) {
-    const amountUsdc = parseNumber(usdcxSendMatch[1]!);
-    if (amountUsdc === null || amountUsdc <= 0) return { ok: false, error: "Invalid USDCx amount" };
-    const raw = Math.round(amountUsdc * 1_000_000);
-    return parseCommand(`DW USDCX_SEND ${usdcxSendMatch[2]} ${raw}`);
+    return parseCommand(`DW USDCX_SEND ${usdcxSendMatch[2]} ${usdcxSendMatch[1]}USDCx`);
   }
 
   // Stop loss / take profit
@@ -142,7 +207,7 @@ export function tryAutoDetect(raw: string): ParseResult | null {
     return parseCommand(`DW STX_TAKE_PROFIT ${takeProfitMatch[1]} @ ${takeProfitMatch[2]}`);
   }
 
-  const cancelOrderMatch = trimmed.match(/^cancel\s+(?:order\s+)?((?:ord|stx_sl|stx_tp)_[\w-]+)$/i);
+  const cancelOrderMatch = trimmed.match(/^cancel\s+(?:order\s+)?((?:ord|(?:stx|sbtc)_(?:sl|tp|ts|oco|lb))_[\w-]+)$/i);
   if (cancelOrderMatch) {
     return parseCommand(`DW CANCEL_ORDER ${cancelOrderMatch[1]}`);
   }
@@ -186,6 +251,33 @@ export function parseCommand(raw: string): ParseResult {
 
   const op = (parts[1] ?? "").toUpperCase();
 
+  // DRYRUN may come before or after a trailing FEE=; either way it wraps the whole command.
+  const dryRunMatch = op === "SCHEDULE" || op === "SIMULATE" ? null : trimmed.match(/\s+DRYRUN(?=(?:\s+FEE=\S*)?$)/i);
+  if (dryRunMatch) {
+    const rest = trimmed.slice(0, dryRunMatch.index) + trimmed.slice(dryRunMatch.index! + dryRunMatch[0].length);
+    return parseCommand(`DW SIMULATE ${rest.replace(/^DW\s+/i, "")}`);
+  }
+
+  if (op === "SIMULATE") {
+    const innerRaw = trimmed.replace(/^DW\s+SIMULATE\s*/i, "");
+    if (!innerRaw) return { ok: false, error: "SIMULATE expects a command, e.g. DW SIMULATE STX_SEND <addr> 1STX" };
+    const inner = parseCommand(innerRaw.toUpperCase().startsWith("DW ") ? innerRaw : `DW ${innerRaw}`);
+    if (!inner.ok) return inner;
+    if (!SIMULATABLE_COMMANDS.has(inner.value.type)) return { ok: false, error: `${inner.value.type} cannot be simulated` };
+    return { ok: true, value: { type: "SIMULATE", command: inner.value } };
+  }
+
+  // SCHEDULE keeps its inner command verbatim, so a trailing FEE= there belongs to the inner command.
+  const feeMatch = op === "SCHEDULE" ? null : trimmed.match(/\s+FEE=(\S*)$/i);
+  if (feeMatch) {
+    const feeTier = parseFeeTier(feeMatch[1]!);
+    if (!feeTier) return { ok: false, error: `Invalid fee tier '${feeMatch[1]}' (use low, medium or high)` };
+    const inner = parseCommand(trimmed.slice(0, feeMatch.index));
+    if (!inner.ok) return inner;
+    if (!FEE_TIER_COMMANDS.has(inner.value.type)) return { ok: false, error: `FEE= does not apply to ${inner.value.type}` };
+    return { ok: true, value: { ...inner.value, feeTier } as ParsedCommand };
+  }
+
   if (op === "/SETUP" || op === "SETUP") return { ok: true, value: { type: "SETUP" } };
   if (op === "STATUS") return { ok: true, value: { type: "STATUS" } };
   if (op === "TREASURY") return { ok: true, value: { type: "TREASURY" } };
@@ -227,9 +319,17 @@ export function parseCommand(raw: string): ParseResult {
     } else {
       belowStr = parts[3] ?? "";
     }
-    const below = parseNumber(belowStr);
+    // "$50" or "50USD" sets the threshold in USD rather than token units.
+    const usd = /^\$|USD$/i.test(belowStr);
+    const below = parseNumber(belowStr.replace(/^\$/, "").replace(/USD$/i, ""));
     if (below === null || below < 0) return { ok: false, error: "Invalid threshold amount" };
-    return { ok: true, value: { type: "ALERT_THRESHOLD", coinType, below } };
+    return { ok: true, value: { type: "ALERT_THRESHOLD", coinType, below, ...(usd ? { usd } : {}) } };
+  }
+
+  if (op === "ALERTS") {
+    const arg = (parts[2] ?? "").toUpperCase();
+    if (parts.length > 3 || (arg && arg !== "CLEAR")) return { ok: false, error: "ALERTS expects nothing or CLEAR" };
+    return { ok: true, value: { type: "ALERTS", clear: arg === "CLEAR" } };
   }
 
   if (op === "AUTO_REBALANCE") {
@@ -244,19 +344,62 @@ export function parseCommand(raw: string): ParseResult {
     return { ok: true, value: { type: "CANCEL_ORDER", orderId } };
   }
 
+  // ── Signers / Quorum ──
+
+  if (op === "SIGNER_ADD") {
+    const signerId = parts[2] ?? "";
+    const weightStr = parts[3] ?? "1";
+    if (!signerId) return { ok: false, error: "SIGNER_ADD expects <signerId> [weight]" };
+    // Signers approve with SIP-018 signatures, so a signer has to be a Stacks address.
+    if (!isStacksSigner(signerId)) return { ok: false, error: "Signer must be a Stacks address (SP... or ST...)" };
+    const weight = parseIntSafe(weightStr);
+    if (weight === null || weight < 1) return { ok: false, error: "Signer weight must be a positive integer" };
+    return { ok: true, value: { type: "SIGNER_ADD", signerId, weight } };
+  }
+
+  if (op === "SIGNER_REMOVE") {
+    const signerId = parts[2] ?? "";
+    if (!signerId) return { ok: false, error: "SIGNER_REMOVE expects <signerId>" };
+    return { ok: true, value: { type: "SIGNER_REMOVE", signerId } };
+  }
+
+  if (op === "QUORUM") {
+    const quorum = parseIntSafe(parts[2] ?? "");
+    if (quorum === null || quorum < 1) return { ok: false, error: "QUORUM expects a positive integer weight" };
+    return { ok: true, value: { type: "QUORUM", quorum } };
+  }
+
+  if (op === "SIGNERS") return { ok: true, value: { type: "SIGNERS" } };
+
   // ── STX Commands ──
 
   if (op === "STX_PRICE") return { ok: true, value: { type: "STX_PRICE" } };
   if (op === "STX_BALANCE") return { ok: true, value: { type: "STX_BALANCE" } };
 
+  if (op === "PRICE") {
+    const usage = "PRICE expects <STX|BTC|SBTC> [range], e.g. PRICE STX 24h (range in m, h or d; default 24h)";
+    const pair = PRICE_PAIRS[(parts[2] ?? "").toUpperCase()];
+    if (!pair || parts.length > 4) return { ok: false, error: usage };
+    const rangeMs = parts[3] ? parsePriceRange(parts[3]) : 86_400_000;
+    if (rangeMs === null) return { ok: false, error: usage };
+    return { ok: true, value: { type: "PRICE", pair, rangeMs } };
+  }
+
   if (op === "STX_SEND") {
     const to = parts[2] ?? "";
-    const amountStr = parts[3] ?? "";
-    if (!to) return { ok: false, error: "STX_SEND expects <address> <amountMicroStx>" };
+    const amountStr = parts.slice(3).join(" ");
+    if (!to || !amountStr) return { ok: false, error: "STX_SEND expects <address> <amount> (e.g. 1.5STX, 2500uSTX; bare integer = micro-STX)" };
     if (!isValidStxAddress(to)) return { ok: false, error: "Invalid Stacks address (must start with SP or ST)" };
-    const amount = parseIntSafe(amountStr);
-    if (amount === null || amount <= 0) return { ok: false, error: "Invalid amount (micro-STX)" };
-    return { ok: true, value: { type: "STX_SEND", to, amountMicroStx: BigInt(amount) } };
+    const amount = parseAmount(amountStr, "STX");
+    if (!amount.ok) return amount;
+    return { ok: true, value: { type: "STX_SEND", to, amountMicroStx: amount.value } };
+  }
+
+  if (op === "SPEED_UP" || op === "CANCEL_TX") {
+    const txid = parts[2] ?? "";
+    if (!/^(0x)?[0-9a-fA-F]{64}$/.test(txid)) return { ok: false, error: `${op} expects <txid>` };
+    const normalized = `0x${txid.replace(/^0x/, "").toLowerCase()}`;
+    return { ok: true, value: op === "SPEED_UP" ? { type: "SPEED_UP", txid: normalized } : { type: "CANCEL_TX", txid: normalized } };
   }
 
   if (op === "STX_HISTORY") {
@@ -289,18 +432,83 @@ export function parseCommand(raw: string): ParseResult {
     return { ok: true, value: { type: "STX_TAKE_PROFIT", qty, triggerPrice } };
   }
 
+  if (op === "TRAILING_STOP") {
+    const usage = "TRAILING_STOP expects <qty> <STX|SBTC> <trail>, e.g. TRAILING_STOP 100 STX 5% or TRAILING_STOP 0.01 SBTC $1500";
+    const qty = parseNumber(parts[2] ?? "");
+    const asset = ORDER_ASSETS[(parts[3] ?? "").toUpperCase()];
+    const trail = parts[4] ?? "";
+    if (parts.length !== 5 || !asset) return { ok: false, error: usage };
+    if (qty === null || qty <= 0) return { ok: false, error: "Invalid qty" };
+    if (trail.endsWith("%")) {
+      const trailPct = parseNumber(trail.slice(0, -1));
+      if (trailPct === null || trailPct <= 0 || trailPct >= 100) return { ok: false, error: "Trail percentage must be between 0% and 100%" };
+      return { ok: true, value: { type: "TRAILING_STOP", asset, qty, trailPct } };
+    }
+    const trailAbs = parseNumber(trail.replace(/^\$/, ""));
+    if (trailAbs === null || trailAbs <= 0) return { ok: false, error: usage };
+    return { ok: true, value: { type: "TRAILING_STOP", asset, qty, trailAbs } };
+  }
+
+  if (op === "OCO") {
+    const usage = "OCO expects <qty> <STX|SBTC> SL <stop_price> TP <take_profit_price>";
+    const qty = parseNumber(parts[2] ?? "");
+    const asset = ORDER_ASSETS[(parts[3] ?? "").toUpperCase()];
+    if (parts.length !== 8 || !asset || parts[4]!.toUpperCase() !== "SL" || parts[6]!.toUpperCase() !== "TP") {
+      return { ok: false, error: usage };
+    }
+    const stopPrice = parseNumber(parts[5]!);
+    const takeProfitPrice = parseNumber(parts[7]!);
+    if (qty === null || qty <= 0) return { ok: false, error: "Invalid qty" };
+    if (stopPrice === null || stopPrice <= 0 || takeProfitPrice === null || takeProfitPrice <= 0) {
+      return { ok: false, error: "Invalid trigger price" };
+    }
+    if (stopPrice >= takeProfitPrice) return { ok: false, error: "OCO stop-loss price must be below the take-profit price" };
+    return { ok: true, value: { type: "OCO", asset, qty, stopPrice, takeProfitPrice } };
+  }
+
+  if (op === "LIMIT_BUY") {
+    const usage = "LIMIT_BUY expects <qty> <STX|SBTC> @ <limit_price>";
+    const qty = parseNumber(parts[2] ?? "");
+    const asset = ORDER_ASSETS[(parts[3] ?? "").toUpperCase()];
+    const limitPrice = parseNumber(parts[5] ?? "");
+    if (parts.length !== 6 || !asset || parts[4] !== "@") return { ok: false, error: usage };
+    if (qty === null || qty <= 0) return { ok: false, error: "Invalid qty" };
+    if (limitPrice === null || limitPrice <= 0) return { ok: false, error: "Invalid limit price" };
+    return { ok: true, value: { type: "LIMIT_BUY", asset, qty, limitPrice } };
+  }
+
+  if (op === "SWAP") {
+    const usage = "SWAP expects <qty> <fromAsset> <toAsset> [maxSlippage%], e.g. SWAP 100 STX USDCX 1%";
+    if (parts.length < 5 || parts.length > 6) return { ok: false, error: usage };
+    const fromAsset = SWAP_ASSETS[parts[3]!.toUpperCase()];
+    const toAsset = SWAP_ASSETS[parts[4]!.toUpperCase()];
+    if (!fromAsset || !toAsset) return { ok: false, error: `${usage} (assets: STX, SBTC, USDCX)` };
+    if (fromAsset === toAsset) return { ok: false, error: "SWAP needs two different assets" };
+    // <qty> is in whole units of <fromAsset>: SWAP 100 STX means 100 STX, not 100 uSTX.
+    const amount = parseAmount(`${parts[2]}${fromAsset}`, fromAsset);
+    if (!amount.ok) return { ok: false, error: `Invalid qty: ${amount.error}` };
+    let maxSlippageBps = 100; // 1% unless given
+    if (parts[5] !== undefined) {
+      const m = parts[5].match(/^(\d+(?:\.\d{1,2})?)%$/);
+      const pct = m ? Number(m[1]) : NaN;
+      if (!(pct > 0 && pct < 50)) return { ok: false, error: "maxSlippage must be a percentage above 0% and below 50%, e.g. 0.5%" };
+      maxSlippageBps = Math.round(pct * 100);
+    }
+    return { ok: true, value: { type: "SWAP", amountIn: amount.value, fromAsset, toAsset, maxSlippageBps } };
+  }
+
   // ── sBTC Commands ──
 
   if (op === "SBTC_BALANCE") return { ok: true, value: { type: "SBTC_BALANCE" } };
 
   if (op === "SBTC_SEND") {
     const to = parts[2] ?? "";
-    const amountStr = parts[3] ?? "";
-    if (!to) return { ok: false, error: "SBTC_SEND expects <address> <amountSats>" };
+    const amountStr = parts.slice(3).join(" ");
+    if (!to || !amountStr) return { ok: false, error: "SBTC_SEND expects <address> <amount> (e.g. 0.01BTC, 1000sats; bare integer = sats)" };
     if (!isValidStxAddress(to)) return { ok: false, error: "Invalid Stacks address" };
-    const amount = parseIntSafe(amountStr);
-    if (amount === null || amount <= 0) return { ok: false, error: "Invalid amount (sats)" };
-    return { ok: true, value: { type: "SBTC_SEND", to, amountSats: BigInt(amount) } };
+    const amount = parseAmount(amountStr, "SBTC");
+    if (!amount.ok) return amount;
+    return { ok: true, value: { type: "SBTC_SEND", to, amountSats: amount.value } };
   }
 
   if (op === "SBTC_INFO") return { ok: true, value: { type: "SBTC_INFO" } };
@@ -311,22 +519,22 @@ export function parseCommand(raw: string): ParseResult {
 
   if (op === "USDCX_SEND") {
     const to = parts[2] ?? "";
-    const amountStr = parts[3] ?? "";
-    if (!to) return { ok: false, error: "USDCX_SEND expects <address> <amount>" };
+    const amountStr = parts.slice(3).join(" ");
+    if (!to || !amountStr) return { ok: false, error: "USDCX_SEND expects <address> <amount> (e.g. 25.50USDCx; bare integer = base units)" };
     if (!isValidStxAddress(to)) return { ok: false, error: "Invalid Stacks address" };
-    const amount = parseIntSafe(amountStr);
-    if (amount === null || amount <= 0) return { ok: false, error: "Invalid amount" };
-    return { ok: true, value: { type: "USDCX_SEND", to, amount: BigInt(amount) } };
+    const amount = parseAmount(amountStr, "USDCX");
+    if (!amount.ok) return amount;
+    return { ok: true, value: { type: "USDCX_SEND", to, amount: amount.value } };
   }
 
   if (op === "USDCX_APPROVE") {
     const spender = parts[2] ?? "";
-    const amountStr = parts[3] ?? "";
-    if (!spender) return { ok: false, error: "USDCX_APPROVE expects <spender> <amount>" };
+    const amountStr = parts.slice(3).join(" ");
+    if (!spender || !amountStr) return { ok: false, error: "USDCX_APPROVE expects <spender> <amount> (e.g. 100USDCx; bare integer = base units)" };
     if (!isValidStxAddress(spender)) return { ok: false, error: "Invalid Stacks address" };
-    const amount = parseIntSafe(amountStr);
-    if (amount === null || amount <= 0) return { ok: false, error: "Invalid amount" };
-    return { ok: true, value: { type: "USDCX_APPROVE", spender, amount: BigInt(amount) } };
+    const amount = parseAmount(amountStr, "USDCX");
+    if (!amount.ok) return amount;
+    return { ok: true, value: { type: "USDCX_APPROVE", spender, amount: amount.value } };
   }
 
   if (op === "USDCX_PAYMENT") {
@@ -338,6 +546,35 @@ export function parseCommand(raw: string): ParseResult {
     return { ok: true, value: { type: "USDCX_PAYMENT", amount, description } };
   }
 
+  if (op === "PAYMENT_REQUEST") {
+    const amount = parts[2] ?? "";
+    const tokenArg = parts[3] ?? "";
+    const usage = "PAYMENT_REQUEST expects <amount> <STX|sBTC|USDCx|contractId> <description> [expiry, e.g. 7d]";
+    if (!amount || !tokenArg) return { ok: false, error: usage };
+    if (!/^\d+(\.\d+)?$/.test(amount) || !/[1-9]/.test(amount)) return { ok: false, error: "Invalid amount" };
+    const token = SWAP_ASSETS[tokenArg.toUpperCase()] ?? (CONTRACT_ID_RE.test(tokenArg) ? tokenArg : undefined);
+    if (!token) return { ok: false, error: `Unknown token '${tokenArg}' (use STX, sBTC, USDCx or a SIP-010 contract id)` };
+    const rest = parts.slice(4);
+    const expiresInMs = rest.length > 0 ? parsePaymentExpiry(rest[rest.length - 1]!) : null;
+    if (expiresInMs === null && rest.length > 0 && /^\d+[mhd]$/i.test(rest[rest.length - 1]!)) {
+      return { ok: false, error: "Expiry must be between 1m and 30d" };
+    }
+    const description = (expiresInMs !== null ? rest.slice(0, -1) : rest).join(" ") || "Payment";
+    return { ok: true, value: { type: "PAYMENT_REQUEST", amount, token, description, ...(expiresInMs !== null ? { expiresInMs } : {}) } };
+  }
+
+  if (op === "PAYMENT_CHECK") {
+    const requestId = parts[2] ?? "";
+    if (!requestId || parts.length > 3) return { ok: false, error: "PAYMENT_CHECK expects <requestId>" };
+    return { ok: true, value: { type: "PAYMENT_CHECK", requestId } };
+  }
+
+  if (op === "PAYMENTS") {
+    const filter = (parts[2] ?? "").toUpperCase();
+    if (parts.length > 3 || (filter && !PAYMENT_FILTERS[filter])) return { ok: false, error: "PAYMENTS expects [open|paid|expired]" };
+    return { ok: true, value: filter ? { type: "PAYMENTS", status: PAYMENT_FILTERS[filter] } : { type: "PAYMENTS" } };
+  }
+
   // ── x402 Commands ──
 
   if (op === "X402_CALL") {
@@ -358,10 +595,18 @@ export function parseCommand(raw: string): ParseResult {
 
   // ── Clarity Contract Commands ──
 
+  if (op === "CONTRACT_INFO") {
+    const contractFull = parts[2] ?? "";
+    const dotIdx = contractFull.indexOf(".");
+    const contractAddress = dotIdx > 0 ? contractFull.slice(0, dotIdx) : "";
+    const contractName = dotIdx > 0 ? contractFull.slice(dotIdx + 1) : "";
+    if (!contractAddress || !contractName) return { ok: false, error: "CONTRACT_INFO expects <address>.<contractName>" };
+    return { ok: true, value: { type: "CONTRACT_INFO", contractAddress, contractName } };
+  }
+
   if (op === "CONTRACT_CALL" || op === "CONTRACT_READ") {
     const contractFull = parts[2] ?? "";
     const functionName = parts[3] ?? "";
-    const args = parts.slice(4);
     if (!contractFull || !functionName) {
       return { ok: false, error: `${op} expects <address>.<contractName> <functionName> [args...]` };
     }
@@ -372,9 +617,26 @@ export function parseCommand(raw: string): ParseResult {
     if (!contractAddress || !contractName) {
       return { ok: false, error: "Invalid contract format" };
     }
+    // Arguments are parsed from the untouched cell text so string literals keep their spacing
+    let argSource = trimmed.match(/^\S+\s+\S+\s+\S+\s+\S+\s*([\s\S]*)$/)?.[1] ?? "";
+    // CONTRACT_CALL may end with `POST <clause>; ...` bounding what the call can move
+    const postAt = op === "CONTRACT_CALL" ? findPostKeyword(argSource) : -1;
+    let postConditions: PostConditionSpec[] | undefined;
+    if (postAt >= 0) {
+      const parsedPost = parsePostConditions(argSource.slice(postAt + "POST".length));
+      if (!parsedPost.ok) return { ok: false, error: parsedPost.error };
+      postConditions = parsedPost.value;
+      argSource = argSource.slice(0, postAt);
+    }
+    const parsedArgs = parseClarityArgs(argSource);
+    if (!parsedArgs.ok) return { ok: false, error: parsedArgs.error };
+    const args = parsedArgs.value;
+    if (op === "CONTRACT_READ") {
+      return { ok: true, value: { type: "CONTRACT_READ", contractAddress, contractName, functionName, args } };
+    }
     return {
       ok: true,
-      value: { type: op === "CONTRACT_CALL" ? "CONTRACT_CALL" : "CONTRACT_READ", contractAddress, contractName, functionName, args }
+      value: { type: "CONTRACT_CALL", contractAddress, contractName, functionName, args, ...(postConditions ? { postConditions } : {}) }
     };
   }
 
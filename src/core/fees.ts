@@ -0,0 +1,46 @@
+/** Fee tier selectable per command with a trailing `FEE=low|medium|high`. */
+export type FeeTier = "low" | "medium" | "high";
+
+export const FEE_TIERS: readonly FeeTier[] = ["low", "medium", "high"];
+
+/** [low, medium, high] in micro-STX, as returned by /v2/fees/transaction. */
+export type FeeEstimates = [bigint, bigint, bigint];
+
+/** Used when the node has no estimate; the medium tier matches the old fixed fees. */
+export const FALLBACK_FEES: Record<"transfer" | "contract-call", FeeEstimates> = {
+  transfer: [1000n, 2000n, 4000n],
+  "contract-call": [2500n, 5000n, 10000n]
+};
+
+export function parseFeeTier(value: string): FeeTier | null {
+  const v = value.trim().toLowerCase();
+  return (FEE_TIERS as readonly string[]).includes(v) ? (v as FeeTier) : null;
+}
+
+/** Fee for a fresh transaction: the tier's estimate, clamped to the doc's cap. */
+export function chooseFee(estimates: FeeEstimates, tier: FeeTier = "medium", maxFee?: bigint): bigint {
+  const fee = estimates[FEE_TIERS.indexOf(tier)]!;
+  return maxFee !== undefined && fee > maxFee ? maxFee : fee;
+}
+
+/**
+ * Replacement fee for SPEED_UP / CANCEL_TX. Nodes only accept a same-nonce replacement that
+ * pays strictly more, so take the higher of the tier estimate and +50% over the original.
+ */
+export function bumpFee(
+  previousFee: bigint,
+  estimates: FeeEstimates,
+  tier: FeeTier = "high",
+  maxFee?: bigint
+): { ok: true; fee: bigint } | { ok: false; error: string } {
+  const minimum = previousFee + (previousFee + 1n) / 2n;
+  const estimate = estimates[FEE_TIERS.indexOf(tier)]!;
+  let fee = estimate > minimum ? estimate : minimum;
+  if (maxFee !== undefined && fee > maxFee) {
+    if (maxFee <= previousFee) {
+      return { ok: false, error: `Fee cap ${maxFee} uSTX does not allow a replacement above the current ${previousFee} uSTX` };
+    }
+    fee = maxFee;
+  }
+  return { ok: true, fee };
+}
@@ -0,0 +1,73 @@
+/** An incoming STX or token transfer; `asset` is "STX" or the token's contract id. */
+export type InboundTransfer = { txid: string; asset: string; amount: bigint; sender: string; memo?: string; timestamp: number };
+
+/**
+ * Transfers newer than the cursor (the last txid already posted), grouped by transaction and
+ * oldest first so the cursor can advance one transaction at a time. `transfers` is newest first,
+ * as the API returns it; a cursor missing from `transfers` yields all of them.
+ */
+export function transfersSinceCursor(
+  transfers: InboundTransfer[],
+  cursorTxid: string
+): Array<{ txid: string; transfers: InboundTransfer[] }> {
+  const cut = transfers.findIndex((t) => t.txid === cursorTxid);
+  const fresh = cut === -1 ? transfers : transfers.slice(0, cut);
+  const groups: Array<{ txid: string; transfers: InboundTransfer[] }> = [];
+  for (const t of [...fresh].reverse()) {
+    const last = groups[groups.length - 1];
+    if (last?.txid === t.txid) last.transfers.push(t);
+    else groups.push({ txid: t.txid, transfers: [t] });
+  }
+  return groups;
+}
+
+/** How many pages the inbound watcher reads back through an address's history looking for its cursor. */
+export const INBOUND_MAX_PAGES = 10;
+
+/**
+ * Read `fetchPage` from the newest page back until a page holds the cursor, so a burst larger than
+ * one page is still posted in full. An empty cursor is only reached at the end of the history.
+ * `found` is false when the cursor was not seen within `maxPages` or before the history ran out;
+ * `transfers` (newest first) then holds everything fetched, and older transfers are missed.
+ */
+export async function fetchSinceCursor(
+  fetchPage: (offset: number) => Promise<{ transfers: InboundTransfer[]; nextOffset?: number }>,
+  cursorTxid: string,
+  maxPages = INBOUND_MAX_PAGES
+): Promise<{ transfers: InboundTransfer[]; found: boolean }> {
+  const transfers: InboundTransfer[] = [];
+  let offset: number | undefined = 0;
+  for (let page = 0; page < maxPages && offset !== undefined; page++) {
+    const res = await fetchPage(offset);
+    transfers.push(...res.transfers);
+    if (cursorTxid && res.transfers.some((t) => t.txid === cursorTxid)) return { transfers, found: true };
+    offset = res.nextOffset;
+  }
+  return { transfers, found: !cursorTxid && offset === undefined };
+}
+
+/**
+ * The first cursor for an address: its newest incoming transfer, read back page by page past
+ * transactions that received nothing, so only later transfers are posted. Empty when the history
+ * ends without one (the address has never received anything); undefined when none turned up within
+ * `maxPages`, to try again later rather than replay the history.
+ */
+export async function newestTransferTxid(
+  fetchPage: (offset: number) => Promise<{ transfers: InboundTransfer[]; nextOffset?: number }>,
+  maxPages = INBOUND_MAX_PAGES
+): Promise<string | undefined> {
+  let offset: number | undefined = 0;
+  for (let page = 0; page < maxPages && offset !== undefined; page++) {
+    const res = await fetchPage(offset);
+    if (res.transfers[0]) return res.transfers[0].txid;
+    offset = res.nextOffset;
+  }
+  return offset === undefined ? "" : undefined;
+}
+
+/** Parse the INBOUND_CHAT_MIN_USD config value; null (chat disabled) when empty or invalid. */
+export function parseInboundChatMinUsd(text: string | undefined): number | null {
+  const m = (text ?? "").trim().match(/^\$?(\d+(?:\.\d+)?)$/);
+  const value = m ? Number(m[1]) : NaN;
+  return value > 0 ? value : null;
+}
@@ -0,0 +1,78 @@
+import { AMOUNT_ASSETS } from "./amounts.js";
+
+/** The persisted fields of a conditional order that decide when and how it fires. */
+export type OrderState = {
+  type: string;
+  base: string;
+  quote: string;
+  qty: number;
+  trigger_price: number;
+  trail_pct: number | null;
+  trail_abs: number | null;
+  peak_price: number | null;
+  oco_group: string | null;
+};
+
+/** `peakPrice` / `triggerPrice` are set when a trailing stop ratcheted and must be persisted. */
+export type OrderEvaluation = { triggered: boolean; peakPrice?: number; triggerPrice?: number };
+
+/** Trigger of a trailing stop: a percentage or absolute USD distance below the peak. */
+export function trailingTrigger(peak: number, trailPct: number | null | undefined, trailAbs: number | null | undefined): number {
+  return trailPct != null ? peak * (1 - trailPct / 100) : peak - (trailAbs ?? 0);
+}
+
+/**
+ * Decide whether an order fires at `price`. A trailing stop first ratchets: a new high moves
+ * its peak and trigger up, never down, then it fires like a stop-loss.
+ */
+export function evaluateOrder(order: OrderState, price: number): OrderEvaluation {
+  switch (order.type) {
+    case "STOP_LOSS":
+    case "LIMIT_BUY":
+      return { triggered: price <= order.trigger_price };
+    case "TAKE_PROFIT":
+      return { triggered: price >= order.trigger_price };
+    case "TRAILING_STOP": {
+      const peak = Math.max(order.peak_price ?? price, price);
+      const trigger = Math.max(order.trigger_price, trailingTrigger(peak, order.trail_pct, order.trail_abs));
+      const ratcheted = peak !== order.peak_price || trigger !== order.trigger_price;
+      return { triggered: price <= trigger, ...(ratcheted ? { peakPrice: peak, triggerPrice: trigger } : {}) };
+    }
+    default:
+      return { triggered: false };
+  }
+}
+
+/**
+ * The SWAP a triggered order executes. Sells go base → quote (orders from before swaps quote
+ * "USD", i.e. USDCx); a limit buy spends qty × limit price in USDCx, so it never pays more than
+ * the limit per unit.
+ */
+export function orderSwapCommand(order: OrderState): string {
+  const base = order.base.toUpperCase() === "SBTC" ? "SBTC" : "STX";
+  if (order.type === "LIMIT_BUY") {
+    return `DW SWAP ${decimalText(order.qty * order.trigger_price, AMOUNT_ASSETS.USDCX.decimals)} USDCX ${base}`;
+  }
+  const quote = order.quote.toUpperCase() === "SBTC" ? "SBTC" : "USDCX";
+  return `DW SWAP ${decimalText(order.qty, AMOUNT_ASSETS[base].decimals)} ${base} ${quote}`;
+}
+
+/** SIDE cell of the Open Orders table, e.g. "SELL (STOP_LOSS, OCO)" or "BUY (LIMIT)". */
+export function orderSideText(order: OrderState): string {
+  if (order.type === "LIMIT_BUY") return "BUY (LIMIT)";
+  return `SELL (${order.type}${order.oco_group ? ", OCO" : ""})`;
+}
+
+/** PRICE cell of the Open Orders table, e.g. "≤ $0.42 (trail 5%)". */
+export function orderPriceText(order: OrderState): string {
+  const op = order.type === "TAKE_PROFIT" ? "≥" : "≤";
+  const trail = order.type !== "TRAILING_STOP" ? ""
+    : order.trail_pct != null ? ` (trail ${order.trail_pct}%)`
+    : ` (trail $${order.trail_abs})`;
+  return `${op} $${Number(order.trigger_price.toFixed(6))}${trail}`;
+}
+
+function decimalText(value: number, decimals: number): string {
+  const fixed = value.toFixed(decimals);
+  return fixed.includes(".") ? fixed.replace(/0+$/, "").replace(/\.$/, "") : fixed;
+}
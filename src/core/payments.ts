@@ -0,0 +1,111 @@
+import { parsePriceRange } from "./prices.js";
+
+/** Lifecycle of a payment request; "open" in DW PAYMENTS means pending. */
+export type PaymentStatus = "pending" | "paid" | "expired";
+
+export const PAYMENT_FILTERS: Record<string, PaymentStatus> = { OPEN: "pending", PENDING: "pending", PAID: "paid", EXPIRED: "expired" };
+
+export const PAYMENT_DEFAULT_EXPIRY_MS = 24 * 60 * 60 * 1000;
+export const PAYMENT_MAX_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Parse a PAYMENT_REQUEST expiry such as `90m`, `24h` or `7d`; null when malformed or over 30 days. */
+export function parsePaymentExpiry(text: string): number | null {
+  const ms = parsePriceRange(text);
+  return ms !== null && ms <= PAYMENT_MAX_EXPIRY_MS ? ms : null;
+}
+
+/**
+ * The amount to invoice: the requested amount raised by the fewest base units (at least one) that
+ * no other open request to the same address and token uses. Lets a transfer sent without the memo
+ * still identify its request, while a round-number transfer of the requested amount does not.
+ */
+export function fingerprintAmount(amount: bigint, taken: Iterable<bigint>): bigint {
+  const used = new Set(taken);
+  let value = amount + 1n;
+  while (used.has(value)) value++;
+  return value;
+}
+
+/**
+ * `stacks:` payment URI for wallets and QR codes; `token` is the SIP-010 contract id, omitted for
+ * native STX. `amount` is in whole token units.
+ */
+export function paymentUri(params: { address: string; amount: string; token?: string; memo: string }): string {
+  const token = params.token ? `token=${params.token}&` : "";
+  return `stacks:${params.address}?${token}amount=${params.amount}&memo=${encodeURIComponent(params.memo)}`;
+}
+
+export type IncomingTransfer = { txid: string; amount: bigint; memo?: string; /** unix seconds */ timestamp: number };
+
+/** `fingerprinted` is 0 for requests created before every amount carried a fingerprint. */
+export type OpenPaymentRequest = { request_id: string; amount_raw: string; fingerprinted: number; description: string; created_at: number };
+
+/**
+ * A transfer's burn-block time can precede the Stacks block it landed in, so transfers are
+ * accepted from this long before the request was created.
+ */
+const BURN_TIME_SLACK_MS = 60 * 60 * 1000;
+
+/** How many pages settlement reads back through an address's history looking for payments. */
+export const PAYMENT_MAX_PAGES = 10;
+
+/** The earliest transfer time (unix ms) that can still pay one of `requests`. */
+export function paymentWindowStart(requests: Array<{ created_at: number }>): number {
+  return Math.min(...requests.map((r) => r.created_at)) - BURN_TIME_SLACK_MS;
+}
+
+/**
+ * Read `fetchPage` from the newest page back until a page reaches transfers from before `sinceMs`,
+ * so a payment pushed off the first page by later traffic is still seen. Stops after `maxPages` or
+ * at the end of the history; `transfers` is newest first, as the API returns it.
+ */
+export async function fetchTransfersSince<T extends { timestamp: number }>(
+  fetchPage: (offset: number) => Promise<{ transfers: T[]; nextOffset?: number }>,
+  sinceMs: number,
+  maxPages = PAYMENT_MAX_PAGES
+): Promise<T[]> {
+  const transfers: T[] = [];
+  let offset: number | undefined = 0;
+  for (let page = 0; page < maxPages && offset !== undefined; page++) {
+    const res = await fetchPage(offset);
+    transfers.push(...res.transfers);
+    if (res.transfers.some((t) => t.timestamp * 1000 < sinceMs)) break;
+    offset = res.nextOffset;
+  }
+  return transfers;
+}
+
+/**
+ * Pair incoming transfers with open requests for one address and token: the exact amount, received
+ * after the request was created, and a memo equal to the request id (or its description). A
+ * fingerprinted request whose amount no other open request shares also accepts a transfer without
+ * a memo, as long as the memo does not name another request. The oldest request wins, each transfer pays at
+ * most one request, and txids already recorded (`isClaimed`) are skipped.
+ */
+export function matchPayments(
+  requests: OpenPaymentRequest[],
+  transfers: IncomingTransfer[],
+  isClaimed: (txid: string) => boolean = () => false
+): Array<{ requestId: string; txid: string }> {
+  const matches: Array<{ requestId: string; txid: string }> = [];
+  const used = new Set<string>();
+  const amountCounts = new Map<bigint, number>();
+  for (const r of requests) amountCounts.set(BigInt(r.amount_raw), (amountCounts.get(BigInt(r.amount_raw)) ?? 0) + 1);
+  const named = new Set(requests.flatMap((r) => [r.request_id, r.description]));
+
+  for (const request of [...requests].sort((a, b) => a.created_at - b.created_at)) {
+    const amount = BigInt(request.amount_raw);
+    const candidates = transfers.filter((t) =>
+      !used.has(t.txid) &&
+      !isClaimed(t.txid) &&
+      t.amount === amount &&
+      t.timestamp * 1000 >= request.created_at - BURN_TIME_SLACK_MS
+    );
+    const transfer = candidates.find((t) => t.memo === request.request_id || t.memo === request.description) ??
+      (request.fingerprinted && amountCounts.get(amount) === 1 ? candidates.find((t) => t.memo === undefined || !named.has(t.memo)) : undefined);
+    if (!transfer) continue;
+    used.add(transfer.txid);
+    matches.push({ requestId: request.request_id, txid: transfer.txid });
+  }
+  return matches;
+}
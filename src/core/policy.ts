@@ -9,6 +9,7 @@ export const EnsPolicySchema = z
     maxScheduleIntervalHours: z.number().positive().optional(),
     maxSingleTxMicroStx: z.number().positive().optional(),
     dailyLimitMicroStx: z.number().positive().optional(),
+    maxFeeMicroStx: z.number().positive().optional(),
     allowedStxNetworks: z.array(z.enum(["mainnet", "testnet"])).optional()
   })
   .strict();
@@ -17,16 +18,86 @@ export type EnsPolicy = z.infer<typeof EnsPolicySchema>;
 
 export type PolicyDecision = { ok: true; autoApprove?: boolean } | { ok: false; reason: string };
 
+export type PolicyLoadResult =
+  | { ok: true; policy: EnsPolicy; source: string | null }
+  | { ok: false; error: string };
+
+/**
+ * Individual Config-table keys that map onto EnsPolicy fields.
+ * Used when the doc does not declare a POLICY_JSON key.
+ */
+const POLICY_CONFIG_KEYS: Record<string, { field: keyof EnsPolicy; kind: "bool" | "number" | "list" }> = {
+  POLICY_REQUIRE_APPROVAL: { field: "requireApproval", kind: "bool" },
+  POLICY_DENY_COMMANDS: { field: "denyCommands", kind: "list" },
+  POLICY_SCHEDULING_ALLOWED: { field: "schedulingAllowed", kind: "bool" },
+  POLICY_MAX_SCHEDULE_INTERVAL_HOURS: { field: "maxScheduleIntervalHours", kind: "number" },
+  POLICY_MAX_SINGLE_TX_MICROSTX: { field: "maxSingleTxMicroStx", kind: "number" },
+  POLICY_DAILY_LIMIT_MICROSTX: { field: "dailyLimitMicroStx", kind: "number" },
+  POLICY_MAX_FEE_MICROSTX: { field: "maxFeeMicroStx", kind: "number" },
+  POLICY_ALLOWED_STX_NETWORKS: { field: "allowedStxNetworks", kind: "list" }
+};
+
+/**
+ * Build the doc policy from the Config table.
+ * POLICY_JSON wins when present; otherwise the individual POLICY_* keys are used.
+ * Returns source=null when the doc declares no policy at all.
+ */
+export function loadPolicyFromConfig(config: Record<string, { value: string }>): PolicyLoadResult {
+  const json = config["POLICY_JSON"]?.value?.trim();
+  if (json) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      return { ok: false, error: "Invalid policy: POLICY_JSON is not valid JSON" };
+    }
+    const parsed = EnsPolicySchema.safeParse(raw);
+    if (!parsed.success) return { ok: false, error: `Invalid policy: ${formatIssues(parsed.error)}` };
+    return { ok: true, policy: parsed.data, source: "POLICY_JSON" };
+  }
+
+  const raw: Record<string, unknown> = {};
+  const used: string[] = [];
+  for (const [key, spec] of Object.entries(POLICY_CONFIG_KEYS)) {
+    const value = config[key]?.value?.trim();
+    if (!value) continue;
+    used.push(key);
+    if (spec.kind === "bool") {
+      const v = value.toLowerCase();
+      raw[spec.field] = v === "1" || v === "true" || v === "yes" ? true : v === "0" || v === "false" || v === "no" ? false : value;
+    } else if (spec.kind === "number") {
+      raw[spec.field] = Number(value.replace(/[_,]/g, ""));
+    } else {
+      raw[spec.field] = value.split(/[\s,]+/).filter(Boolean).map((s) => (spec.field === "allowedStxNetworks" ? s.toLowerCase() : s.toUpperCase()));
+    }
+  }
+  if (used.length === 0) return { ok: true, policy: {}, source: null };
+
+  const parsed = EnsPolicySchema.safeParse(raw);
+  if (!parsed.success) return { ok: false, error: `Invalid policy: ${formatIssues(parsed.error)}` };
+  return { ok: true, policy: parsed.data, source: `CONFIG:${used.join(",")}` };
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((i) => (i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message)).join("; ");
+}
+
 export function evaluatePolicy(
   policy: EnsPolicy,
   cmd: ParsedCommand,
-  context?: { dailySpendMicroStx?: number }
+  context?: { dailySpendMicroStx?: number; stxNetwork?: string }
 ): PolicyDecision {
   const deny = new Set((policy.denyCommands ?? []).map((s) => s.toUpperCase()));
   if (deny.has(cmd.type.toUpperCase())) return { ok: false, reason: `Blocked by policy (denyCommands: ${cmd.type})` };
 
   const autoApprove = policy.requireApproval === false ? true : undefined;
 
+  if (policy.allowedStxNetworks !== undefined && context?.stxNetwork !== undefined) {
+    if (!policy.allowedStxNetworks.includes(context.stxNetwork as "mainnet" | "testnet")) {
+      return { ok: false, reason: `Blocked by policy (allowedStxNetworks=${policy.allowedStxNetworks.join(",")})` };
+    }
+  }
+
   if (cmd.type === "SCHEDULE") {
     if (policy.schedulingAllowed === false) {
       return { ok: false, reason: "Blocked by policy (schedulingAllowed=false)" };
@@ -36,8 +107,9 @@ export function evaluatePolicy(
     }
   }
 
-  if (cmd.type === "STX_SEND") {
-    const amount = Number(cmd.amountMicroStx);
+  const stxOut = stxOutflowMicroStx(cmd);
+  if (stxOut !== null) {
+    const amount = Number(stxOut);
     if (policy.maxSingleTxMicroStx !== undefined && amount > policy.maxSingleTxMicroStx) {
       return { ok: false, reason: `Blocked by policy (maxSingleTxMicroStx=${policy.maxSingleTxMicroStx})` };
     }
@@ -53,3 +125,10 @@ export function evaluatePolicy(
 
   return { ok: true, autoApprove };
 }
+
+/** STX a command spends from the wallet: STX_SEND amounts and the input of STX-in swaps. */
+export function stxOutflowMicroStx(cmd: ParsedCommand): bigint | null {
+  if (cmd.type === "STX_SEND") return cmd.amountMicroStx;
+  if (cmd.type === "SWAP" && cmd.fromAsset === "STX") return cmd.amountIn;
+  return null;
+}
@@ -0,0 +1,109 @@
+import { Pc, validateStacksAddress } from "@stacks/transactions";
+import type { FungibleComparator, PostCondition } from "@stacks/transactions";
+import { parseAmount } from "./amounts.js";
+
+/**
+ * JSON-safe post-condition clause stored with CONTRACT_CALL.
+ * `principal: null` means the doc wallet (the transaction sender); `asset` is "STX" or
+ * a fungible token as `<address>.<contract>::<token>`.
+ */
+export type PostConditionSpec = {
+  principal: string | null;
+  asset: string;
+  condition: FungibleComparator;
+  amount: string;
+};
+
+export type PostConditionParseResult = { ok: true; value: PostConditionSpec[] } | { ok: false; error: string };
+
+const OPERATORS: Record<string, FungibleComparator> = { "=": "eq", "==": "eq", "<=": "lte", "<": "lt", ">=": "gte", ">": "gt" };
+const SYMBOLS: Record<FungibleComparator, string> = { eq: "=", lte: "<=", lt: "<", gte: ">=", gt: ">" };
+const FT_ASSET_RE = /^(S[PMTN][0-9A-Z]+)\.([a-zA-Z][a-zA-Z0-9_-]*)::([a-zA-Z][a-zA-Z0-9_-]*)$/;
+
+/**
+ * Parse `;`-separated clauses of the form `[principal] <STX | addr.contract::token> <op> <amount>`,
+ * e.g. `stx <= 1.5STX; SP...usdcx-token::usdcx <= 25000000`. Amounts are base units unless
+ * an STX unit suffix is given.
+ */
+export function parsePostConditions(input: string): PostConditionParseResult {
+  const specs: PostConditionSpec[] = [];
+  for (const clause of input.split(";").map((c) => c.trim()).filter(Boolean)) {
+    const tokens = clause.split(/\s+/);
+    if (tokens.length !== 3 && tokens.length !== 4) {
+      return { ok: false, error: `Post-condition '${clause}' must be [principal] <asset> <op> <amount>` };
+    }
+    const [principalTok, assetTok, opTok, amountTok] = tokens.length === 4 ? tokens : [null, ...tokens];
+
+    let principal: string | null = null;
+    if (principalTok !== null) {
+      const [address, contractName, ...rest] = principalTok!.replace(/^'/, "").split(".");
+      if (!address || !validateStacksAddress(address) || rest.length > 0 || contractName === "") {
+        return { ok: false, error: `Invalid post-condition principal '${principalTok}'` };
+      }
+      principal = principalTok!.replace(/^'/, "");
+    }
+
+    const condition = OPERATORS[opTok!];
+    if (!condition) return { ok: false, error: `Invalid post-condition operator '${opTok}' (use = <= < >= >)` };
+
+    let asset: string;
+    let amount: bigint;
+    if (assetTok!.toUpperCase() === "STX") {
+      asset = "STX";
+      if (/^\d+$/.test(amountTok!)) {
+        amount = BigInt(amountTok!);
+      } else {
+        const parsed = parseAmount(amountTok!, "STX");
+        if (!parsed.ok) return { ok: false, error: `Post-condition amount: ${parsed.error}` };
+        amount = parsed.value;
+      }
+    } else {
+      const m = assetTok!.match(FT_ASSET_RE);
+      if (!m || !validateStacksAddress(m[1]!)) {
+        return { ok: false, error: `Invalid post-condition asset '${assetTok}' (use STX or <address>.<contract>::<token>)` };
+      }
+      if (!/^\d+$/.test(amountTok!)) return { ok: false, error: `Post-condition amount for ${assetTok} must be an integer in base units` };
+      asset = assetTok!;
+      amount = BigInt(amountTok!);
+    }
+    specs.push({ principal, asset, condition, amount: amount.toString() });
+  }
+  if (specs.length === 0) return { ok: false, error: "POST needs at least one clause" };
+  return { ok: true, value: specs };
+}
+
+/** Resolve a stored clause against the signing wallet. */
+export function toPostCondition(spec: PostConditionSpec, sender: string): PostCondition {
+  const pc = Pc.principal(spec.principal ?? sender);
+  const amount = BigInt(spec.amount);
+  const withAmount =
+    spec.condition === "eq" ? pc.willSendEq(amount)
+    : spec.condition === "lte" ? pc.willSendLte(amount)
+    : spec.condition === "lt" ? pc.willSendLt(amount)
+    : spec.condition === "gte" ? pc.willSendGte(amount)
+    : pc.willSendGt(amount);
+  if (spec.asset === "STX") return withAmount.ustx();
+  const [contractId, tokenName] = spec.asset.split("::") as [`${string}.${string}`, string];
+  return withAmount.ft(contractId, tokenName);
+}
+
+/**
+ * Deny-mode guard for a SIP-010 transfer: the sender's outflow of the token must equal the
+ * approved amount. Any other asset movement (including STX) aborts the transaction; the fee
+ * itself is bounded by the doc's fee cap.
+ */
+export function exactTokenOutflow(sender: string, contractId: string, tokenName: string, amount: bigint): PostCondition {
+  return Pc.principal(sender).willSendEq(amount).ft(contractId as `${string}.${string}`, tokenName);
+}
+
+/** Render a clause back to command syntax (inverse of parsePostConditions). */
+export function formatPostCondition(spec: PostConditionSpec): string {
+  return `${spec.principal ? `${spec.principal} ` : ""}${spec.asset} ${SYMBOLS[spec.condition]} ${spec.amount}`;
+}
+
+/** Render a resolved post-condition (e.g. decoded from a signed transaction) for a RESULT cell. */
+export function describePostCondition(pc: PostCondition): string {
+  if (pc.type === "nft-postcondition") return `${pc.address} ${pc.asset} ${pc.condition}`;
+  const asset = pc.type === "stx-postcondition" ? "STX" : pc.asset;
+  return `${pc.address} ${asset} ${SYMBOLS[pc.condition]} ${pc.amount}`;
+}
@@ -0,0 +1,97 @@
+/** USD pairs the price oracle tracks; sBTC is priced as BTC (pegged 1:1). */
+export type PricePair = "STX/USD" | "BTC/USD";
+
+export const PRICE_PAIRS: Record<string, PricePair> = {
+  STX: "STX/USD",
+  "STX/USD": "STX/USD",
+  BTC: "BTC/USD",
+  "BTC/USD": "BTC/USD",
+  SBTC: "BTC/USD",
+  "SBTC/USD": "BTC/USD"
+};
+
+/** One source's price; `at` is when the source observed it (ms), used for staleness. */
+export type PriceQuote = { source: string; price: number; at: number };
+
+export type AggregatePolicy = {
+  /** Quotes older than this are ignored. */
+  maxAgeMs: number;
+  /** Quotes further than this from the median of all fresh quotes are rejected as outliers. */
+  maxDeviationPct: number;
+  /** Fewer agreeing fresh sources than this means no price. */
+  minSources: number;
+};
+
+export type AggregateResult =
+  | { ok: true; price: number; used: PriceQuote[]; rejected: Array<{ quote: PriceQuote; reason: string }> }
+  | { ok: false; error: string; rejected: Array<{ quote: PriceQuote; reason: string }> };
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+/**
+ * Median of the fresh quotes that agree with each other. Stale quotes are dropped first, then
+ * any quote too far from the median of the rest; the price is the median of what survives.
+ * With two quotes the median is their midpoint, so a disagreement rejects both rather than the
+ * odd one out: singling out a bad source takes at least three.
+ */
+export function aggregatePrices(quotes: PriceQuote[], policy: AggregatePolicy, now = Date.now()): AggregateResult {
+  const rejected: Array<{ quote: PriceQuote; reason: string }> = [];
+  const fresh: PriceQuote[] = [];
+  for (const quote of quotes) {
+    if (!(quote.price > 0)) rejected.push({ quote, reason: "invalid price" });
+    else if (now - quote.at > policy.maxAgeMs) rejected.push({ quote, reason: `stale (${Math.round((now - quote.at) / 1000)}s old)` });
+    else fresh.push(quote);
+  }
+  if (fresh.length === 0) return { ok: false, error: "No fresh price source", rejected };
+
+  const center = median(fresh.map((q) => q.price));
+  const used: PriceQuote[] = [];
+  for (const quote of fresh) {
+    const deviationPct = (Math.abs(quote.price - center) / center) * 100;
+    if (deviationPct > policy.maxDeviationPct) rejected.push({ quote, reason: `outlier (${deviationPct.toFixed(1)}% from median)` });
+    else used.push(quote);
+  }
+  if (used.length < Math.max(1, policy.minSources)) {
+    return { ok: false, error: `${used.length} agreeing source(s), ${policy.minSources} required`, rejected };
+  }
+  return { ok: true, price: median(used.map((q) => q.price)), used, rejected };
+}
+
+const RANGE_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/** Parse a history range such as `90m`, `24h` or `7d`; null when malformed. */
+export function parsePriceRange(text: string): number | null {
+  const m = text.trim().toLowerCase().match(/^(\d+)([mhd])$/);
+  if (!m || Number(m[1]) <= 0) return null;
+  return Number(m[1]) * RANGE_UNITS[m[2]!]!;
+}
+
+/** Inverse of parsePriceRange, in the largest unit that divides evenly. */
+export function formatPriceRange(ms: number): string {
+  for (const unit of ["d", "h", "m"]) {
+    if (ms % RANGE_UNITS[unit]! === 0) return `${ms / RANGE_UNITS[unit]!}${unit}`;
+  }
+  return `${Math.round(ms / 60_000)}m`;
+}
+
+export type PriceSummary = { first: number; last: number; low: number; high: number; changePct: number; samples: number };
+
+/** Summary of history points in chronological order; null when there are none. */
+export function summarizePriceHistory(points: Array<{ price: number }>): PriceSummary | null {
+  if (points.length === 0) return null;
+  const prices = points.map((p) => p.price);
+  const first = prices[0]!;
+  const last = prices[prices.length - 1]!;
+  return {
+    first,
+    last,
+    low: prices.reduce((a, b) => Math.min(a, b)),
+    high: prices.reduce((a, b) => Math.max(a, b)),
+    changePct: ((last - first) / first) * 100,
+    samples: prices.length
+  };
+}
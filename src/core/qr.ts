@@ -0,0 +1,341 @@
+/**
+ * Minimal QR code encoder (ISO/IEC 18004, byte mode, versions 1-40) so invoice pages can render
+ * payment URIs as SVG without calling an external service.
+ */
+
+export type QrEcLevel = "L" | "M" | "Q" | "H";
+
+const EC_ORDINAL: Record<QrEcLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const EC_FORMAT_BITS: Record<QrEcLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by [ecLevel][version]; index 0 is unused.
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+];
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+];
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+export type QrCode = {
+  version: number;
+  ecLevel: QrEcLevel;
+  mask: number;
+  /** modules[y][x], true = dark. */
+  modules: boolean[][];
+};
+
+/** Encode `text` (UTF-8) in the smallest version that fits, picking the lowest-penalty mask. */
+export function encodeQr(text: string, ecLevel: QrEcLevel = "M"): QrCode {
+  const bytes = [...Buffer.from(text, "utf8")];
+  let version = 1;
+  for (; version <= 40; version++) {
+    if (4 + (version < 10 ? 8 : 16) + bytes.length * 8 <= numDataCodewords(version, ecLevel) * 8) break;
+  }
+  if (version > 40) throw new Error(`Data too long for a QR code (${bytes.length} bytes)`);
+
+  const capacityBits = numDataCodewords(version, ecLevel) * 8;
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, version < 10 ? 8 : 16);
+  for (const b of bytes) push(b, 8);
+  push(0, Math.min(4, capacityBits - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) push(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  const codewords = addEccAndInterleave(data, version, ecLevel);
+
+  const grid = new QrGrid(version);
+  grid.drawFunctionPatterns(ecLevel);
+  grid.drawCodewords(codewords);
+
+  let best: { mask: number; modules: boolean[][]; penalty: number } | undefined;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const modules = grid.withMask(mask, ecLevel);
+    const penalty = penaltyScore(modules);
+    if (!best || penalty < best.penalty) best = { mask, modules, penalty };
+  }
+  return { version, ecLevel, mask: best!.mask, modules: best!.modules };
+}
+
+/** Render a QR code as a standalone SVG with a quiet zone of `border` modules. */
+export function qrSvg(text: string, opts: { ecLevel?: QrEcLevel; border?: number; sizePx?: number } = {}): string {
+  const { modules } = encodeQr(text, opts.ecLevel ?? "M");
+  const border = opts.border ?? 4;
+  const dim = modules.length + border * 2;
+  const path: string[] = [];
+  modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) path.push(`M${x + border},${y + border}h1v1h-1z`);
+  }));
+  const size = opts.sizePx ? ` width="${opts.sizePx}" height="${opts.sizePx}"` : "";
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dim} ${dim}"${size} shape-rendering="crispEdges">` +
+    `<rect width="${dim}" height="${dim}" fill="#fff"/><path d="${path.join("")}" fill="#000"/></svg>`;
+}
+
+/** 15-bit format information (EC level + mask, BCH-protected and XOR-masked). */
+export function qrFormatBits(ecLevel: QrEcLevel, mask: number): number {
+  const data = (EC_FORMAT_BITS[ecLevel] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return ((data << 10) | rem) ^ 0x5412;
+}
+
+/** 18-bit version information, present from version 7 up. */
+export function qrVersionBits(version: number): number {
+  let rem = version;
+  for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  return (version << 12) | rem;
+}
+
+/** Bytes of payload (before error correction) that fit in a version at an EC level. */
+export function numDataCodewords(version: number, ecLevel: QrEcLevel): number {
+  const e = EC_ORDINAL[ecLevel];
+  return Math.floor(numRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[e]![version]! * NUM_ERROR_CORRECTION_BLOCKS[e]![version]!;
+}
+
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = version * 4 + 17 - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+}
+
+/** Split data into blocks, append Reed-Solomon ECC to each and interleave the result. */
+function addEccAndInterleave(data: number[], version: number, ecLevel: QrEcLevel): number[] {
+  const e = EC_ORDINAL[ecLevel];
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[e]![version]!;
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[e]![version]!;
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = reedSolomonRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0]!.length; i++) {
+    blocks.forEach((block, j) => {
+      // Short blocks carry a placeholder byte at the end of their data section.
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]!);
+    });
+  }
+  return result;
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j]!, root);
+      if (j + 1 < result.length) result[j]! ^= result[j + 1]!;
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const b of data) {
+    const factor = b ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i]! ^= gfMultiply(coef, factor); });
+  }
+  return result;
+}
+
+class QrGrid {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  drawFunctionPatterns(ecLevel: QrEcLevel) {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const align = alignmentPositions(this.version);
+    const last = align.length - 1;
+    align.forEach((ay, i) => align.forEach((ax, j) => {
+      // The three corners already hold finder patterns.
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) this.setFunction(ax + dx, ay + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }));
+
+    this.drawFormat(qrFormatBits(ecLevel, 0));
+    if (this.version >= 7) {
+      const bits = qrVersionBits(this.version);
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) !== 0;
+        const a = this.size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunction(a, b, dark);
+        this.setFunction(b, a, dark);
+      }
+    }
+  }
+
+  drawFormat(bits: number) {
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, bit(i));
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  /** Place codeword bits in the two-column zigzag, right to left, skipping function modules. */
+  drawCodewords(codewords: number[]) {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y]![x] && i < codewords.length * 8) {
+            this.modules[y]![x] = ((codewords[i >>> 3]! >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /** A masked copy of the grid with the matching format information drawn in. */
+  withMask(mask: number, ecLevel: QrEcLevel): boolean[][] {
+    const copy = new QrGrid(this.version);
+    this.modules.forEach((row, y) => row.forEach((dark, x) => {
+      copy.modules[y]![x] = this.isFunction[y]![x] ? dark : dark !== MASKS[mask]!(x, y);
+      copy.isFunction[y]![x] = this.isFunction[y]![x]!;
+    }));
+    copy.drawFormat(qrFormatBits(ecLevel, mask));
+    return copy.modules;
+  }
+
+  private drawFinder(cx: number, cy: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= this.size || y < 0 || y >= this.size) continue;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        this.setFunction(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y]![x] = dark;
+    this.isFunction[y]![x] = true;
+  }
+}
+
+/** Mask penalty per the spec: long runs, 2x2 blocks, finder-like patterns and dark/light balance. */
+function penaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  const at = (x: number, y: number, vertical: boolean) => (vertical ? modules[x]![y]! : modules[y]![x]!);
+  const finderLike = [true, false, true, true, true, false, true];
+  let penalty = 0;
+
+  for (const vertical of [false, true]) {
+    for (let y = 0; y < size; y++) {
+      let run = 1;
+      for (let x = 1; x <= size; x++) {
+        if (x < size && at(x, y, vertical) === at(x - 1, y, vertical)) {
+          run++;
+          continue;
+        }
+        if (run >= 5) penalty += run - 2;
+        run = 1;
+      }
+      for (let x = 0; x + 7 <= size; x++) {
+        if (!finderLike.every((dark, k) => at(x + k, y, vertical) === dark)) continue;
+        const lightBefore = [1, 2, 3, 4].every((k) => x - k < 0 || !at(x - k, y, vertical));
+        const lightAfter = [7, 8, 9, 10].every((k) => x + k >= size || !at(x + k, y, vertical));
+        if (lightBefore || lightAfter) penalty += 40;
+      }
+    }
+  }
+
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y]![x]) dark++;
+      if (x + 1 < size && y + 1 < size) {
+        const c = modules[y]![x];
+        if (c === modules[y]![x + 1] && c === modules[y + 1]![x] && c === modules[y + 1]![x + 1]) penalty += 3;
+      }
+    }
+  }
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+}
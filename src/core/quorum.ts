@@ -0,0 +1,42 @@
+export type SignerWeight = { address: string; weight: number };
+/** `auth` is how the signer proved the decision; only "SIP-018" signatures count toward quorum. */
+export type SignerDecision = { signer_address: string; decision: string; auth?: string | null };
+
+export type QuorumOutcome = {
+  status: "APPROVED" | "REJECTED" | "PENDING";
+  approvedWeight: number;
+  rejectedWeight: number;
+  totalWeight: number;
+  quorum: number;
+};
+
+/**
+ * Tally weighted signer decisions for a command.
+ * APPROVED once approving weight reaches quorum; REJECTED once the weight that
+ * has not rejected can no longer reach it. Decisions from unknown signers, or without the
+ * signer's SIP-018 signature, are ignored: an approval link only proves its holder can read the doc.
+ */
+export function evaluateQuorum(params: {
+  signers: SignerWeight[];
+  approvals: SignerDecision[];
+  quorum: number;
+}): QuorumOutcome {
+  const weights = new Map(params.signers.map((s) => [s.address, Math.max(0, s.weight)]));
+  const totalWeight = [...weights.values()].reduce((a, b) => a + b, 0);
+  const quorum = Math.max(1, params.quorum);
+
+  let approvedWeight = 0;
+  let rejectedWeight = 0;
+  for (const a of params.approvals) {
+    const w = weights.get(a.signer_address);
+    if (w === undefined || a.auth !== "SIP-018") continue;
+    if (a.decision === "APPROVE") approvedWeight += w;
+    else if (a.decision === "REJECT") rejectedWeight += w;
+  }
+
+  let status: QuorumOutcome["status"] = "PENDING";
+  if (approvedWeight >= quorum) status = "APPROVED";
+  else if (totalWeight - rejectedWeight < quorum) status = "REJECTED";
+
+  return { status, approvedWeight, rejectedWeight, totalWeight, quorum };
+}
@@ -0,0 +1,90 @@
+import { AMOUNT_ASSETS } from "./amounts.js";
+import type { AmountAsset } from "./amounts.js";
+
+/** Target weight of each asset, in percent; the weights sum to 100. */
+export type RebalanceTargets = Record<AmountAsset, number>;
+
+export type RebalanceSwap = { fromAsset: AmountAsset; toAsset: AmountAsset; amountIn: bigint; usd: number };
+
+export type RebalancePlan = {
+  totalUsd: number;
+  weights: Array<{ asset: AmountAsset; currentPct: number; targetPct: number }>;
+  /** Largest gap between a current and a target weight, in percentage points. */
+  maxDriftPct: number;
+  swaps: RebalanceSwap[];
+};
+
+const REBALANCE_ASSETS: Record<string, AmountAsset> = { STX: "STX", SBTC: "SBTC", BTC: "SBTC", USDCX: "USDCX", USDC: "USDCX" };
+const ASSET_ORDER: AmountAsset[] = ["STX", "SBTC", "USDCX"];
+
+/**
+ * Parse the REBALANCE_TARGETS config value, e.g. "STX 40% / sBTC 40% / USDCx 20%". Entries may be
+ * separated by "/", "," or ";"; unlisted assets target 0%.
+ */
+export function parseRebalanceTargets(text: string): { ok: true; value: RebalanceTargets } | { ok: false; error: string } {
+  const targets: RebalanceTargets = { STX: 0, SBTC: 0, USDCX: 0 };
+  const entries = text.split(/[/,;]/).map((e) => e.trim()).filter(Boolean);
+  if (entries.length === 0) return { ok: false, error: "REBALANCE_TARGETS is empty" };
+  for (const entry of entries) {
+    const m = entry.match(/^([A-Za-z]+)\s*[:=]?\s*(\d+(?:\.\d+)?)\s*%?$/);
+    const asset = m ? REBALANCE_ASSETS[m[1]!.toUpperCase()] : undefined;
+    if (!asset) return { ok: false, error: `Invalid REBALANCE_TARGETS entry '${entry}' (expected e.g. STX 40%)` };
+    targets[asset] = Number(m![2]);
+  }
+  const sum = ASSET_ORDER.reduce((acc, a) => acc + targets[a], 0);
+  if (Math.abs(sum - 100) > 0.01) return { ok: false, error: `REBALANCE_TARGETS must sum to 100% (got ${sum}%)` };
+  return { ok: true, value: targets };
+}
+
+/** Parse the REBALANCE_BAND config value ("5" or "5%"), in percentage points; null when invalid. */
+export function parseDriftBand(text: string): number | null {
+  const m = text.trim().match(/^(\d+(?:\.\d+)?)\s*%?$/);
+  const band = m ? Number(m[1]) : NaN;
+  return band > 0 && band < 100 ? band : null;
+}
+
+/**
+ * Current weights and the swaps that restore the targets. Overweight assets are sold into
+ * underweight ones, largest gaps first; legs worth less than `minSwapUsd` are dropped as dust.
+ * Returns null when the wallet holds nothing priced.
+ */
+export function planRebalance(params: {
+  balances: Record<AmountAsset, bigint>;
+  prices: Record<AmountAsset, number>;
+  targets: RebalanceTargets;
+  minSwapUsd?: number;
+}): RebalancePlan | null {
+  const { balances, prices, targets, minSwapUsd = 1 } = params;
+  const usd = (asset: AmountAsset) => (Number(balances[asset]) / 10 ** AMOUNT_ASSETS[asset].decimals) * prices[asset];
+  const totalUsd = ASSET_ORDER.reduce((acc, a) => acc + usd(a), 0);
+  if (!(totalUsd > 0)) return null;
+
+  const weights = ASSET_ORDER.map((asset) => ({ asset, currentPct: (usd(asset) / totalUsd) * 100, targetPct: targets[asset] }));
+  const maxDriftPct = Math.max(...weights.map((w) => Math.abs(w.currentPct - w.targetPct)));
+
+  const gap = (asset: AmountAsset) => usd(asset) - (targets[asset] / 100) * totalUsd;
+  const surplus = ASSET_ORDER.filter((a) => gap(a) > 0).map((asset) => ({ asset, usd: gap(asset) })).sort((a, b) => b.usd - a.usd);
+  const deficit = ASSET_ORDER.filter((a) => gap(a) < 0).map((asset) => ({ asset, usd: -gap(asset) })).sort((a, b) => b.usd - a.usd);
+
+  const swaps: RebalanceSwap[] = [];
+  for (const from of surplus) {
+    for (const to of deficit) {
+      const amountUsd = Math.min(from.usd, to.usd);
+      if (amountUsd <= 0) continue;
+      from.usd -= amountUsd;
+      to.usd -= amountUsd;
+      if (amountUsd < minSwapUsd) continue;
+      const amountIn = BigInt(Math.floor((amountUsd / prices[from.asset]) * 10 ** AMOUNT_ASSETS[from.asset].decimals));
+      if (amountIn > 0n) swaps.push({ fromAsset: from.asset, toAsset: to.asset, amountIn, usd: amountUsd });
+    }
+  }
+  return { totalUsd, weights, maxDriftPct, swaps };
+}
+
+/** One-line reasoning for a proposal, e.g. "STX 55.0% (target 40%), … drift 15.0pp exceeds the 5pp band". */
+export function describeRebalance(plan: RebalancePlan, bandPct: number): string {
+  const weights = plan.weights
+    .map((w) => `${AMOUNT_ASSETS[w.asset].display} ${w.currentPct.toFixed(1)}% (target ${w.targetPct}%)`)
+    .join(", ");
+  return `${weights} of $${plan.totalUsd.toFixed(2)}; drift ${plan.maxDriftPct.toFixed(1)}pp exceeds the ${bandPct}pp band`;
+}
@@ -0,0 +1,88 @@
+import { createHash } from "node:crypto";
+import {
+  Cl,
+  encodeStructuredDataBytes,
+  getAddressFromPublicKey,
+  publicKeyFromSignatureRsv,
+  serializeCV,
+  validateStacksAddress
+} from "@stacks/transactions";
+import type { ClarityValue } from "@stacks/transactions";
+import { sha256Hex } from "../util/hash.js";
+
+export type ApprovalDecision = "APPROVE" | "REJECT";
+
+export type ApprovalMessage = {
+  docId: string;
+  cmdId: string;
+  commandHash: string; // hex sha256 of the stored parsed command
+  decision: ApprovalDecision;
+  expiresAt: number; // unix seconds
+};
+
+const DOMAIN_NAME = "FrankyDocs";
+const DOMAIN_VERSION = "1.0.0";
+const CHAIN_IDS = { mainnet: 1, testnet: 2147483648 } as const;
+
+export function isStacksSigner(signerId: string): boolean {
+  return /^S[PMTN]/.test(signerId) && validateStacksAddress(signerId);
+}
+
+/** Hash of the command the signer is approving; stored parsed JSON is canonical for a cmd row. */
+export function approvalCommandHash(parsedJson: string | null, rawCommand: string): string {
+  return sha256Hex(parsedJson ?? rawCommand);
+}
+
+export function approvalDomain(network: string): ClarityValue {
+  return Cl.tuple({
+    name: Cl.stringAscii(DOMAIN_NAME),
+    version: Cl.stringAscii(DOMAIN_VERSION),
+    "chain-id": Cl.uint(network === "mainnet" ? CHAIN_IDS.mainnet : CHAIN_IDS.testnet)
+  });
+}
+
+export function approvalMessage(msg: ApprovalMessage): ClarityValue {
+  return Cl.tuple({
+    "doc-id": Cl.stringAscii(msg.docId),
+    "cmd-id": Cl.stringAscii(msg.cmdId),
+    "command-hash": Cl.bufferFromHex(msg.commandHash),
+    decision: Cl.stringAscii(msg.decision),
+    "expires-at": Cl.uint(msg.expiresAt)
+  });
+}
+
+/** Hex-serialized domain and message, as wallets expect for stx_signStructuredMessage. */
+export function serializeApprovalPayload(network: string, msg: ApprovalMessage): { domain: string; message: string } {
+  return { domain: serializeCV(approvalDomain(network)), message: serializeCV(approvalMessage(msg)) };
+}
+
+export function verifyApprovalSignature(params: {
+  network: string;
+  message: ApprovalMessage;
+  signature: string;
+  signerAddress: string;
+  nowSeconds?: number;
+}): { ok: true } | { ok: false; error: string } {
+  const now = params.nowSeconds ?? Math.floor(Date.now() / 1000);
+  if (!Number.isInteger(params.message.expiresAt)) return { ok: false, error: "Missing signed approval expiry" };
+  if (params.message.expiresAt <= now) return { ok: false, error: "Signed approval expired" };
+
+  const signature = params.signature.trim().replace(/^0x/i, "");
+  if (!/^[0-9a-fA-F]{130}$/.test(signature)) return { ok: false, error: "Signature must be 65-byte RSV hex" };
+
+  const digest = createHash("sha256")
+    .update(encodeStructuredDataBytes({ message: approvalMessage(params.message), domain: approvalDomain(params.network) }))
+    .digest("hex");
+
+  let publicKey: string;
+  try {
+    publicKey = publicKeyFromSignatureRsv(digest, signature);
+  } catch {
+    return { ok: false, error: "Signature could not be recovered" };
+  }
+  const addressNetwork = /^S[PM]/.test(params.signerAddress) ? "mainnet" : "testnet";
+  if (getAddressFromPublicKey(publicKey, addressNetwork) !== params.signerAddress) {
+    return { ok: false, error: "Signature does not match signer address" };
+  }
+  return { ok: true };
+}
@@ -6,19 +6,36 @@ export type CommandStatus =
   | "REJECTED_POLICY"
   | "EXECUTING"
   | "EXECUTED"
-  | "FAILED";
+  | "CONFIRMED"
+  | "ABORTED"
+  | "FAILED"
+  | "EXPIRED";
+
+/** Where a status change originated; recorded in the transition history. */
+export type TransitionSource =
+  | "cell-edit"
+  | "web"
+  | "chat"
+  | "scheduler"
+  | "price-trigger"
+  | "agent"
+  | "executor"
+  | "system";
 
 export function canTransition(from: CommandStatus, to: CommandStatus): boolean {
   if (from === to) return true;
   const allowed: Record<CommandStatus, CommandStatus[]> = {
     INVALID: ["PENDING_APPROVAL", "REJECTED", "REJECTED_POLICY"],
-    PENDING_APPROVAL: ["APPROVED", "REJECTED", "REJECTED_POLICY"],
-    APPROVED: ["EXECUTING", "REJECTED"],
+    PENDING_APPROVAL: ["APPROVED", "REJECTED", "REJECTED_POLICY", "INVALID", "EXPIRED"],
+    APPROVED: ["EXECUTING", "REJECTED", "FAILED"],
     REJECTED: [],
     REJECTED_POLICY: [],
     EXECUTING: ["EXECUTED", "FAILED"],
-    EXECUTED: [],
-    FAILED: []
+    EXECUTED: ["CONFIRMED", "ABORTED"],
+    CONFIRMED: [],
+    ABORTED: [],
+    FAILED: [],
+    EXPIRED: []
   };
   return allowed[from].includes(to);
 }
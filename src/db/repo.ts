@@ -2,6 +2,8 @@ import fs from "node:fs";
 import path from "node:path";
 import Database from "better-sqlite3";
 import { SCHEMA_SQL } from "./schema.js";
+import { canTransition } from "../core/state.js";
+import type { CommandStatus, TransitionSource } from "../core/state.js";
 
 export type DocRow = {
   doc_id: string;
@@ -31,6 +33,61 @@ export type CommandRow = {
   error_text: string | null;
 };
 
+export type TxConfirmationRow = {
+  cmd_id: string;
+  doc_id: string;
+  tx_id: string;
+  tx_status: string;
+  block_height: number | null;
+  fee_micro_stx: string | null;
+  tx_result: string | null;
+  checked_at: number;
+  finalized_at: number | null;
+};
+
+export type CommandTransitionRow = {
+  id: number;
+  cmd_id: string;
+  doc_id: string;
+  from_status: string | null;
+  to_status: string;
+  actor: string;
+  source: string;
+  detail: string | null;
+  created_at: number;
+};
+
+/** Who moved a command and from where; required on every status write. */
+export type TransitionMeta = { source: TransitionSource; actor?: string; detail?: string | null };
+
+export type ContractAbiRow = {
+  contract_id: string;
+  abi_json: string;
+  fetched_at: number;
+};
+
+export type SignedTransactionRow = {
+  txid: string;
+  cmd_id: string;
+  doc_id: string;
+  sender: string;
+  nonce: number;
+  fee_micro_stx: string;
+  raw_hex: string;
+  status: "SIGNED" | "BROADCAST" | "REJECTED";
+  created_at: number;
+  updated_at: number;
+};
+
+export type NonceReservationRow = {
+  address: string;
+  nonce: number;
+  status: "RESERVED" | "BROADCAST";
+  txid: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
 export type DocSettingsRow = {
   doc_id: string;
   quorum: number;
@@ -51,6 +108,8 @@ export type CommandApprovalRow = {
   cmd_id: string;
   signer_address: string;
   decision: string;
+  /** How the signer was authenticated ("SIP-018" or "signer link"); null decisions do not count toward quorum. */
+  auth: string | null;
   created_at: number;
 };
 
@@ -163,6 +222,30 @@ export type PriceCacheRow = {
   updated_at: number;
 };
 
+export type BalanceAlertRow = {
+  alert_id: number;
+  doc_id: string;
+  asset: string;
+  unit: string;
+  threshold: number;
+  value: number;
+  message: string;
+  /** Set when the balance recovered above the threshold; until then the alert does not fire again. */
+  rearmed_at: number | null;
+  /** Set when acknowledged with DW ALERTS CLEAR. */
+  cleared_at: number | null;
+  created_at: number;
+};
+
+export type PriceHistoryRow = {
+  id: number;
+  pair: string;
+  price: number;
+  /** Comma-separated names of the sources that agreed on this price. */
+  sources: string;
+  created_at: number;
+};
+
 export type ConditionalOrderRow = {
   order_id: string;
   doc_id: string;
@@ -173,6 +256,12 @@ export type ConditionalOrderRow = {
   qty: number;
   status: string;
   triggered_cmd_id: string | null;
+  /** TRAILING_STOP: trail as a percentage or absolute USD distance below `peak_price`. */
+  trail_pct: number | null;
+  trail_abs: number | null;
+  peak_price: number | null;
+  /** Orders sharing an OCO group cancel each other when one triggers. */
+  oco_group: string | null;
   created_at: number;
   updated_at: number;
 };
@@ -181,12 +270,23 @@ export type StacksPaymentRequestRow = {
   request_id: string;
   doc_id: string;
   address: string;
-  amount_raw: number;
+  /** Base units as a decimal string; compare as bigint. */
+  amount_raw: string;
+  /** 1 when amount_raw carries a fingerprint, which lets a transfer without the memo settle it. */
+  fingerprinted: number;
+  /** Display symbol, e.g. STX, sBTC, USDCx or a SIP-010 token's symbol. */
   token: string;
+  /** SIP-010 contract id; null for native STX (and for USDCx requests created before it was stored). */
+  token_contract: string | null;
+  decimals: number;
   description: string;
   status: string;
   expires_at: number;
   paid_txid: string | null;
+  /** Command that created the request; its doc row is updated when the request settles. */
+  cmd_id: string | null;
+  /** `stacks:` URI encoded in the invoice page's QR code. */
+  payment_uri: string | null;
   created_at: number;
 };
 
@@ -227,6 +327,43 @@ export class Repo {
     try {
       this.db.exec(`ALTER TABLE yellow_sessions ADD COLUMN allocations_json TEXT DEFAULT '[]'`);
     } catch { /* column already exists */ }
+    try {
+      this.db.exec(`ALTER TABLE command_approvals ADD COLUMN auth TEXT`);
+    } catch { /* column already exists */ }
+    try {
+      this.db.exec(`ALTER TABLE stacks_payment_requests ADD COLUMN cmd_id TEXT`);
+    } catch { /* column already exists */ }
+    try {
+      this.db.exec(`ALTER TABLE stacks_payment_requests ADD COLUMN payment_uri TEXT`);
+    } catch { /* column already exists */ }
+    for (const column of ["token_contract TEXT", "decimals INTEGER NOT NULL DEFAULT 6", "fingerprinted INTEGER NOT NULL DEFAULT 0"]) {
+      try {
+        this.db.exec(`ALTER TABLE stacks_payment_requests ADD COLUMN ${column}`);
+      } catch { /* column already exists */ }
+    }
+    // amount_raw used to be INTEGER, which cannot hold 18-decimal SIP-010 amounts
+    const paymentTable = this.db
+      .prepare(`SELECT sql FROM sqlite_master WHERE type='table' AND name='stacks_payment_requests'`)
+      .get() as { sql: string } | undefined;
+    if (paymentTable && /\bamount_raw INTEGER\b/.test(paymentTable.sql)) {
+      this.db.transaction(() => {
+        this.db.exec(paymentTable.sql
+          .replace("stacks_payment_requests", "stacks_payment_requests_text")
+          .replace(/\bamount_raw INTEGER\b/, "amount_raw TEXT"));
+        this.db.exec(`INSERT INTO stacks_payment_requests_text SELECT * FROM stacks_payment_requests`);
+        this.db.exec(`DROP TABLE stacks_payment_requests`);
+        this.db.exec(`ALTER TABLE stacks_payment_requests_text RENAME TO stacks_payment_requests`);
+      })();
+      this.db.exec(SCHEMA_SQL);
+    }
+    for (const column of ["trail_pct REAL", "trail_abs REAL", "peak_price REAL", "oco_group TEXT"]) {
+      try {
+        this.db.exec(`ALTER TABLE conditional_orders ADD COLUMN ${column}`);
+      } catch { /* column already exists */ }
+    }
+    try {
+      this.db.exec(`ALTER TABLE inbound_cursors ADD COLUMN next_posted INTEGER NOT NULL DEFAULT 0`);
+    } catch { /* column already exists */ }
     // channel_events table (added for Yellow channel history)
     try {
       this.db.exec(`CREATE TABLE IF NOT EXISTS channel_events (
@@ -289,7 +426,7 @@ export class Repo {
       .run(params.evmAddress, params.secondaryAddress, now, docId);
   }
 
-  setDocPolicy(docId: string, params: { policySource: string; ensName?: string | null }) {
+  setDocPolicy(docId: string, params: { policySource: string | null; ensName?: string | null }) {
     const now = Date.now();
     this.db
       .prepare(`UPDATE docs SET policy_source=?, ens_name=?, updated_at=? WHERE doc_id=?`)
@@ -340,15 +477,25 @@ export class Repo {
     return this.db.prepare(`SELECT * FROM signers WHERE doc_id=? ORDER BY weight DESC, updated_at DESC`).all(docId) as SignerRow[];
   }
 
-  recordCommandApproval(params: { docId: string; cmdId: string; signerAddress: string; decision: "APPROVE" | "REJECT" }) {
+  recordCommandApproval(params: { docId: string; cmdId: string; signerAddress: string; decision: "APPROVE" | "REJECT"; auth?: string }) {
     const now = Date.now();
     this.db
       .prepare(
-        `INSERT INTO command_approvals(doc_id,cmd_id,signer_address,decision,created_at)
-         VALUES(?,?,?,?,?)
-         ON CONFLICT(doc_id,cmd_id,signer_address) DO UPDATE SET decision=excluded.decision, created_at=excluded.created_at`
+        `INSERT INTO command_approvals(doc_id,cmd_id,signer_address,decision,auth,created_at)
+         VALUES(?,?,?,?,?,?)
+         ON CONFLICT(doc_id,cmd_id,signer_address) DO UPDATE SET decision=excluded.decision, auth=excluded.auth, created_at=excluded.created_at`
+      )
+      .run(params.docId, params.cmdId, params.signerAddress, params.decision, params.auth ?? null, now);
+  }
+
+  /** Marks an approval-link nonce as spent for a signer; false when it was already used (replay). */
+  consumeApprovalNonce(params: { nonce: string; docId: string; cmdId: string; signerAddress?: string }): boolean {
+    const info = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO approval_token_uses(nonce,signer_address,doc_id,cmd_id,used_at) VALUES(?,?,?,?,?)`
       )
-      .run(params.docId, params.cmdId, params.signerAddress, params.decision, now);
+      .run(params.nonce, params.signerAddress ?? "", params.docId, params.cmdId, Date.now());
+    return info.changes === 1;
   }
 
   getCommandApprovalDecision(params: { docId: string; cmdId: string; signerAddress: string }): CommandApprovalRow | undefined {
@@ -676,57 +823,83 @@ export class Repo {
       );
   }
 
-  upsertCommand(cmd: Omit<CommandRow, "created_at" | "updated_at">) {
-    const now = Date.now();
-    this.db
-      .prepare(
-        `INSERT INTO commands(
-          cmd_id,doc_id,raw_command,parsed_json,status,created_at,updated_at,
-          yellow_intent_id,sui_tx_digest,arc_tx_hash,result_text,error_text
-        ) VALUES(?,?,?,?,?,?,?,?,?,?,?,?)
-        ON CONFLICT(cmd_id) DO UPDATE SET
-          raw_command=excluded.raw_command,
-          parsed_json=excluded.parsed_json,
-          status=excluded.status,
-          updated_at=excluded.updated_at,
-          yellow_intent_id=COALESCE(excluded.yellow_intent_id, commands.yellow_intent_id),
-          sui_tx_digest=COALESCE(excluded.sui_tx_digest, commands.sui_tx_digest),
-          arc_tx_hash=COALESCE(excluded.arc_tx_hash, commands.arc_tx_hash),
-          result_text=COALESCE(excluded.result_text, commands.result_text),
-          error_text=COALESCE(excluded.error_text, commands.error_text)`
-      )
-      .run(
-        cmd.cmd_id,
-        cmd.doc_id,
-        cmd.raw_command,
-        cmd.parsed_json,
-        cmd.status,
-        now,
-        now,
-        cmd.yellow_intent_id,
-        cmd.sui_tx_digest,
-        cmd.arc_tx_hash,
-        cmd.result_text,
-        cmd.error_text
-      );
+  /**
+   * Insert or update a command row. A status change on an existing row must be a legal
+   * transition (see canTransition) and is recorded in command_transitions, as is an edit of the
+   * command text, which re-enters its current status.
+   */
+  upsertCommand(cmd: Omit<CommandRow, "created_at" | "updated_at">, meta: TransitionMeta) {
+    this.db.transaction(() => {
+      const now = Date.now();
+      const existing = this.getCommand(cmd.cmd_id);
+      if (existing && !canTransition(existing.status as CommandStatus, cmd.status as CommandStatus)) {
+        throw new Error(`Illegal status transition ${existing.status} -> ${cmd.status} for ${cmd.cmd_id}`);
+      }
+      this.db
+        .prepare(
+          `INSERT INTO commands(
+            cmd_id,doc_id,raw_command,parsed_json,status,created_at,updated_at,
+            yellow_intent_id,sui_tx_digest,arc_tx_hash,result_text,error_text
+          ) VALUES(?,?,?,?,?,?,?,?,?,?,?,?)
+          ON CONFLICT(cmd_id) DO UPDATE SET
+            raw_command=excluded.raw_command,
+            parsed_json=excluded.parsed_json,
+            status=excluded.status,
+            updated_at=excluded.updated_at,
+            yellow_intent_id=COALESCE(excluded.yellow_intent_id, commands.yellow_intent_id),
+            sui_tx_digest=COALESCE(excluded.sui_tx_digest, commands.sui_tx_digest),
+            arc_tx_hash=COALESCE(excluded.arc_tx_hash, commands.arc_tx_hash),
+            result_text=COALESCE(excluded.result_text, commands.result_text),
+            error_text=COALESCE(excluded.error_text, commands.error_text)`
+        )
+        .run(
+          cmd.cmd_id,
+          cmd.doc_id,
+          cmd.raw_command,
+          cmd.parsed_json,
+          cmd.status,
+          now,
+          now,
+          cmd.yellow_intent_id,
+          cmd.sui_tx_digest,
+          cmd.arc_tx_hash,
+          cmd.result_text,
+          cmd.error_text
+        );
+      if (!existing || existing.status !== cmd.status || existing.raw_command !== cmd.raw_command) {
+        this.recordTransition(cmd.cmd_id, cmd.doc_id, existing?.status ?? null, cmd.status, meta);
+      }
+    })();
   }
 
   getCommand(cmdId: string): CommandRow | undefined {
     return this.db.prepare(`SELECT * FROM commands WHERE cmd_id=?`).get(cmdId) as CommandRow | undefined;
   }
 
+  /** The doc's command that broadcast txid (stored with or without the 0x prefix). */
+  getCommandByTxId(docId: string, txid: string): CommandRow | undefined {
+    const bare = txid.toLowerCase().replace(/^0x/, "");
+    return this.db
+      .prepare(`SELECT * FROM commands WHERE doc_id=? AND lower(arc_tx_hash) IN (?, ?) ORDER BY created_at ASC LIMIT 1`)
+      .get(docId, bare, `0x${bare}`) as CommandRow | undefined;
+  }
+
   getNextApprovedCommand(): CommandRow | undefined {
     return this.db
       .prepare(`SELECT * FROM commands WHERE status='APPROVED' ORDER BY created_at ASC LIMIT 1`)
       .get() as CommandRow | undefined;
   }
 
-  /** Auto-fail APPROVED/PENDING_APPROVAL commands whose created_at is older than the given threshold (epoch ms). Returns count. */
+  /** Auto-fail APPROVED commands whose created_at is older than the given threshold (epoch ms). Returns count. */
   failStaleApprovedCommands(thresholdMs: number): number {
-    const result = this.db
-      .prepare(`UPDATE commands SET status='FAILED', error_text='Auto-failed: stale command (>1h)', updated_at=? WHERE status IN ('APPROVED','PENDING_APPROVAL') AND created_at < ?`)
-      .run(Date.now(), thresholdMs);
-    return result.changes;
+    const stale = this.db
+      .prepare(`SELECT cmd_id FROM commands WHERE status='APPROVED' AND created_at < ?`)
+      .all(thresholdMs) as Array<{ cmd_id: string }>;
+    let changed = 0;
+    for (const row of stale) {
+      if (this.setCommandStatus(row.cmd_id, "FAILED", { source: "system", errorText: "Auto-failed: stale command (>1h)" })) changed++;
+    }
+    return changed;
   }
 
   listRecentCommands(docId: string, limit = 20): CommandRow[] {
@@ -735,11 +908,88 @@ export class Repo {
       .all(docId, limit) as CommandRow[];
   }
 
-  setCommandStatus(cmdId: string, status: string, extra?: { resultText?: string | null; errorText?: string | null }) {
+  /**
+   * Guarded status change. Returns false (and writes nothing) when the command is unknown
+   * or the move is not allowed by canTransition.
+   */
+  setCommandStatus(
+    cmdId: string,
+    status: CommandStatus,
+    extra: TransitionMeta & { resultText?: string | null; errorText?: string | null }
+  ): boolean {
+    return this.db.transaction(() => {
+      const current = this.getCommand(cmdId);
+      if (!current || !canTransition(current.status as CommandStatus, status)) return false;
+      const now = Date.now();
+      this.db
+        .prepare(`UPDATE commands SET status=?, result_text=COALESCE(?, result_text), error_text=COALESCE(?, error_text), updated_at=? WHERE cmd_id=?`)
+        .run(status, extra.resultText ?? null, extra.errorText ?? null, now, cmdId);
+      if (current.status !== status) this.recordTransition(cmdId, current.doc_id, current.status, status, extra);
+      return true;
+    })();
+  }
+
+  listCommandTransitions(cmdId: string): CommandTransitionRow[] {
+    return this.db
+      .prepare(`SELECT * FROM command_transitions WHERE cmd_id=? ORDER BY created_at ASC, id ASC`)
+      .all(cmdId) as CommandTransitionRow[];
+  }
+
+  private recordTransition(cmdId: string, docId: string, from: string | null, to: string, meta: TransitionMeta) {
+    this.db
+      .prepare(
+        `INSERT INTO command_transitions(cmd_id,doc_id,from_status,to_status,actor,source,detail,created_at) VALUES(?,?,?,?,?,?,?,?)`
+      )
+      .run(cmdId, docId, from, to, meta.actor ?? "", meta.source, meta.detail ?? null, Date.now());
+  }
+
+  /** Latest on-chain view of a broadcast command; finalized rows are no longer polled. */
+  upsertTxConfirmation(params: {
+    cmdId: string;
+    docId: string;
+    txId: string;
+    txStatus: string;
+    blockHeight?: number | null;
+    feeMicroStx?: string | null;
+    txResult?: string | null;
+    finalized?: boolean;
+  }) {
     const now = Date.now();
     this.db
-      .prepare(`UPDATE commands SET status=?, result_text=COALESCE(?, result_text), error_text=COALESCE(?, error_text), updated_at=? WHERE cmd_id=?`)
-      .run(status, extra?.resultText ?? null, extra?.errorText ?? null, now, cmdId);
+      .prepare(
+        `INSERT INTO tx_confirmations(cmd_id,doc_id,tx_id,tx_status,block_height,fee_micro_stx,tx_result,checked_at,finalized_at)
+         VALUES(?,?,?,?,?,?,?,?,?)
+         ON CONFLICT(cmd_id) DO UPDATE SET
+           tx_id=excluded.tx_id,
+           tx_status=excluded.tx_status,
+           block_height=COALESCE(excluded.block_height, block_height),
+           fee_micro_stx=COALESCE(excluded.fee_micro_stx, fee_micro_stx),
+           tx_result=COALESCE(excluded.tx_result, tx_result),
+           checked_at=excluded.checked_at,
+           finalized_at=COALESCE(excluded.finalized_at, finalized_at)`
+      )
+      .run(
+        params.cmdId,
+        params.docId,
+        params.txId,
+        params.txStatus,
+        params.blockHeight ?? null,
+        params.feeMicroStx ?? null,
+        params.txResult ?? null,
+        now,
+        params.finalized ? now : null
+      );
+  }
+
+  getTxConfirmation(cmdId: string): TxConfirmationRow | undefined {
+    return this.db.prepare(`SELECT * FROM tx_confirmations WHERE cmd_id=?`).get(cmdId) as TxConfirmationRow | undefined;
+  }
+
+  /** EXECUTED commands with a broadcast txid that have not yet been confirmed or aborted on chain. */
+  listUnconfirmedCommands(): CommandRow[] {
+    return this.db
+      .prepare(`SELECT * FROM commands WHERE status='EXECUTED' AND arc_tx_hash IS NOT NULL AND arc_tx_hash != '' ORDER BY updated_at ASC`)
+      .all() as CommandRow[];
   }
 
   setCommandExecutionIds(cmdId: string, params: { legacyIntentId?: string; legacySecondaryTx?: string; txId?: string }) {
@@ -824,12 +1074,29 @@ export class Repo {
            END
          ) as total
          FROM commands
-         WHERE doc_id=? AND status='EXECUTED' AND updated_at >= ?`
+         WHERE doc_id=? AND status IN ('EXECUTED','CONFIRMED') AND updated_at >= ?`
       )
       .get(docId, since) as { total: number | null } | undefined;
     return result?.total ?? 0;
   }
 
+  /** Sum of STX_SEND amounts and STX-in swap inputs over the last 24h that are queued, executing or executed. */
+  getDailySpendMicroStx(docId: string, excludeCmdId?: string): number {
+    const since = Date.now() - 86400_000;
+    const result = this.db
+      .prepare(
+        `SELECT SUM(CAST(COALESCE(json_extract(parsed_json, '$.amountMicroStx'), json_extract(parsed_json, '$.amountIn')) AS INTEGER)) as total
+         FROM commands
+         WHERE doc_id=? AND parsed_json IS NOT NULL
+           AND (json_extract(parsed_json, '$.type') = 'STX_SEND'
+             OR (json_extract(parsed_json, '$.type') = 'SWAP' AND json_extract(parsed_json, '$.fromAsset') = 'STX'))
+           AND status IN ('PENDING_APPROVAL','APPROVED','EXECUTING','EXECUTED','CONFIRMED')
+           AND created_at >= ? AND cmd_id != ?`
+      )
+      .get(docId, since, excludeCmdId ?? "") as { total: number | null } | undefined;
+    return result?.total ?? 0;
+  }
+
   // --- Pending WC requests ---
 
   listPendingWalletConnectRequests(docId: string): WalletConnectRequestRow[] {
@@ -870,10 +1137,47 @@ export class Repo {
     return next;
   }
 
+  deleteDocConfig(docId: string, key: string) {
+    this.db.prepare(`DELETE FROM doc_config WHERE doc_id=? AND key=?`).run(docId, key);
+  }
+
   listDocConfig(docId: string): DocConfigRow[] {
     return this.db.prepare(`SELECT * FROM doc_config WHERE doc_id=? ORDER BY key`).all(docId) as DocConfigRow[];
   }
 
+  // --- Balance alerts ---
+
+  insertBalanceAlert(params: { docId: string; asset: string; unit: string; threshold: number; value: number; message: string }) {
+    this.db
+      .prepare(
+        `INSERT INTO balance_alerts(doc_id,asset,unit,threshold,value,message,rearmed_at,cleared_at,created_at)
+         VALUES(?,?,?,?,?,?,NULL,NULL,?)`
+      )
+      .run(params.docId, params.asset, params.unit, params.threshold, params.value, params.message, Date.now());
+  }
+
+  /** The alert of a threshold that has fired and not yet re-armed, if any. */
+  getTrippedBalanceAlert(docId: string, asset: string, unit: string): BalanceAlertRow | undefined {
+    return this.db
+      .prepare(`SELECT * FROM balance_alerts WHERE doc_id=? AND asset=? AND unit=? AND rearmed_at IS NULL ORDER BY alert_id DESC LIMIT 1`)
+      .get(docId, asset, unit) as BalanceAlertRow | undefined;
+  }
+
+  rearmBalanceAlert(alertId: number) {
+    this.db.prepare(`UPDATE balance_alerts SET rearmed_at=? WHERE alert_id=?`).run(Date.now(), alertId);
+  }
+
+  /** Uncleared alerts of a doc, newest first. */
+  listBalanceAlerts(docId: string, limit = 20): BalanceAlertRow[] {
+    return this.db
+      .prepare(`SELECT * FROM balance_alerts WHERE doc_id=? AND cleared_at IS NULL ORDER BY alert_id DESC LIMIT ?`)
+      .all(docId, limit) as BalanceAlertRow[];
+  }
+
+  clearBalanceAlerts(docId: string): number {
+    return this.db.prepare(`UPDATE balance_alerts SET cleared_at=? WHERE doc_id=? AND cleared_at IS NULL`).run(Date.now(), docId).changes;
+  }
+
   // --- Pending commands for agent decision engine ---
 
   listPendingCommands(docId: string): CommandRow[] {
@@ -882,6 +1186,12 @@ export class Repo {
       .all(docId) as CommandRow[];
   }
 
+  listApprovedCommands(docId: string): CommandRow[] {
+    return this.db
+      .prepare(`SELECT * FROM commands WHERE doc_id=? AND status='APPROVED' ORDER BY created_at ASC`)
+      .all(docId) as CommandRow[];
+  }
+
   listStaleCommands(maxAgeMs: number = 3600_000): CommandRow[] {
     const cutoff = Date.now() - maxAgeMs;
     return this.db
@@ -889,6 +1199,31 @@ export class Repo {
       .all(cutoff) as CommandRow[];
   }
 
+  /**
+   * PENDING_APPROVAL commands of a doc that have waited longer than ttlMs, measured from their
+   * last transition into PENDING_APPROVAL so an edited command gets a fresh approval window.
+   */
+  listExpiredApprovals(docId: string, ttlMs: number): CommandRow[] {
+    const cutoff = Date.now() - ttlMs;
+    return this.db
+      .prepare(
+        `SELECT c.* FROM commands c
+         WHERE c.doc_id=? AND c.status='PENDING_APPROVAL'
+           AND COALESCE(
+             (SELECT MAX(t.created_at) FROM command_transitions t WHERE t.cmd_id=c.cmd_id AND t.to_status='PENDING_APPROVAL'),
+             c.created_at
+           ) < ?
+         ORDER BY c.created_at ASC`
+      )
+      .all(docId, cutoff) as CommandRow[];
+  }
+
+  listCommandsByStatus(status: string): CommandRow[] {
+    return this.db
+      .prepare(`SELECT * FROM commands WHERE status=? ORDER BY created_at ASC`)
+      .all(status) as CommandRow[];
+  }
+
   // --- Agent activity log ---
 
   insertAgentActivity(docId: string, type: string, details: string) {
@@ -972,6 +1307,101 @@ export class Repo {
     return this.db.prepare(`SELECT * FROM price_cache WHERE pair=?`).get(pair) as PriceCacheRow | undefined;
   }
 
+  insertPriceHistory(pair: string, price: number, sources: string[]) {
+    this.db
+      .prepare(`INSERT INTO price_history(pair,price,sources,created_at) VALUES(?,?,?,?)`)
+      .run(pair, price, sources.join(","), Date.now());
+  }
+
+  /** History of a pair since `sinceMs`, oldest first. */
+  listPriceHistory(pair: string, sinceMs: number): PriceHistoryRow[] {
+    return this.db
+      .prepare(`SELECT * FROM price_history WHERE pair=? AND created_at>=? ORDER BY created_at ASC, id ASC`)
+      .all(pair, sinceMs) as PriceHistoryRow[];
+  }
+
+  prunePriceHistory(olderThanMs: number): number {
+    return this.db.prepare(`DELETE FROM price_history WHERE created_at<?`).run(olderThanMs).changes;
+  }
+
+  // --- Contract interface cache (deployed contracts are immutable) ---
+
+  getContractAbi(contractId: string): ContractAbiRow | undefined {
+    return this.db.prepare(`SELECT * FROM contract_abis WHERE contract_id=?`).get(contractId) as ContractAbiRow | undefined;
+  }
+
+  upsertContractAbi(contractId: string, abiJson: string) {
+    this.db
+      .prepare(
+        `INSERT INTO contract_abis(contract_id,abi_json,fetched_at) VALUES(?,?,?)
+         ON CONFLICT(contract_id) DO UPDATE SET abi_json=excluded.abi_json, fetched_at=excluded.fetched_at`
+      )
+      .run(contractId, abiJson, Date.now());
+  }
+
+  // --- Signed transactions (persisted before broadcast) ---
+
+  insertSignedTransaction(params: {
+    txid: string;
+    cmdId: string;
+    docId: string;
+    sender: string;
+    nonce: bigint;
+    fee: bigint;
+    rawHex: string;
+  }) {
+    const now = Date.now();
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO signed_transactions(txid,cmd_id,doc_id,sender,nonce,fee_micro_stx,raw_hex,status,created_at,updated_at)
+         VALUES(?,?,?,?,?,?,?,'SIGNED',?,?)`
+      )
+      .run(params.txid.toLowerCase().replace(/^0x/, ""), params.cmdId, params.docId, params.sender, Number(params.nonce), params.fee.toString(), params.rawHex, now, now);
+  }
+
+  /** Txids are stored lowercase without 0x; lookups accept either form. */
+  getSignedTransaction(txid: string): SignedTransactionRow | undefined {
+    return this.db
+      .prepare(`SELECT * FROM signed_transactions WHERE txid=?`)
+      .get(txid.toLowerCase().replace(/^0x/, "")) as SignedTransactionRow | undefined;
+  }
+
+  setSignedTransactionStatus(txid: string, status: SignedTransactionRow["status"]) {
+    this.db
+      .prepare(`UPDATE signed_transactions SET status=?, updated_at=? WHERE txid=?`)
+      .run(status, Date.now(), txid.toLowerCase().replace(/^0x/, ""));
+  }
+
+  // --- Nonce reservations (see wallet/nonces.ts) ---
+
+  listNonceReservations(address: string): NonceReservationRow[] {
+    return this.db
+      .prepare(`SELECT * FROM nonce_reservations WHERE address=? ORDER BY nonce ASC`)
+      .all(address) as NonceReservationRow[];
+  }
+
+  insertNonceReservation(address: string, nonce: number) {
+    const now = Date.now();
+    this.db
+      .prepare(`INSERT INTO nonce_reservations(address,nonce,status,txid,created_at,updated_at) VALUES(?,?,'RESERVED',NULL,?,?)`)
+      .run(address, nonce, now, now);
+  }
+
+  markNonceBroadcast(address: string, nonce: number, txid: string) {
+    this.db
+      .prepare(`UPDATE nonce_reservations SET status='BROADCAST', txid=?, updated_at=? WHERE address=? AND nonce=?`)
+      .run(txid, Date.now(), address, nonce);
+  }
+
+  deleteNonceReservation(address: string, nonce: number) {
+    this.db.prepare(`DELETE FROM nonce_reservations WHERE address=? AND nonce=?`).run(address, nonce);
+  }
+
+  /** Drop reservations the chain has already consumed (nonce <= last executed). */
+  pruneNonceReservations(address: string, lastExecutedNonce: number) {
+    this.db.prepare(`DELETE FROM nonce_reservations WHERE address=? AND nonce<=?`).run(address, lastExecutedNonce);
+  }
+
   // --- Conditional orders (stop-loss / take-profit) ---
 
   insertConditionalOrder(params: {
@@ -982,14 +1412,37 @@ export class Repo {
     quote: string;
     triggerPrice: number;
     qty: number;
+    trailPct?: number;
+    trailAbs?: number;
+    peakPrice?: number;
+    ocoGroup?: string;
   }) {
     const now = Date.now();
     this.db
       .prepare(
-        `INSERT INTO conditional_orders(order_id,doc_id,type,base,quote,trigger_price,qty,status,triggered_cmd_id,created_at,updated_at)
-         VALUES(?,?,?,?,?,?,?,'ACTIVE',NULL,?,?)`
+        `INSERT INTO conditional_orders(order_id,doc_id,type,base,quote,trigger_price,qty,status,triggered_cmd_id,trail_pct,trail_abs,peak_price,oco_group,created_at,updated_at)
+         VALUES(?,?,?,?,?,?,?,'ACTIVE',NULL,?,?,?,?,?,?)`
       )
-      .run(params.orderId, params.docId, params.type, params.base, params.quote, params.triggerPrice, params.qty, now, now);
+      .run(
+        params.orderId, params.docId, params.type, params.base, params.quote, params.triggerPrice, params.qty,
+        params.trailPct ?? null, params.trailAbs ?? null, params.peakPrice ?? null, params.ocoGroup ?? null, now, now
+      );
+  }
+
+  /** Persist a trailing stop's new high-water mark and the trigger derived from it. */
+  updateTrailingStop(orderId: string, peakPrice: number, triggerPrice: number) {
+    this.db
+      .prepare(`UPDATE conditional_orders SET peak_price=?, trigger_price=?, updated_at=? WHERE order_id=? AND status='ACTIVE'`)
+      .run(peakPrice, triggerPrice, Date.now(), orderId);
+  }
+
+  /** Cancel the still-active orders of an OCO group except `exceptOrderId`; returns their ids. */
+  cancelOcoSiblings(ocoGroup: string, exceptOrderId: string): string[] {
+    const siblings = this.db
+      .prepare(`SELECT order_id FROM conditional_orders WHERE oco_group=? AND order_id != ? AND status='ACTIVE'`)
+      .all(ocoGroup, exceptOrderId) as Array<{ order_id: string }>;
+    for (const s of siblings) this.cancelConditionalOrder(s.order_id);
+    return siblings.map((s) => s.order_id);
   }
 
   listActiveConditionalOrders(docId?: string): ConditionalOrderRow[] {
@@ -1003,6 +1456,21 @@ export class Repo {
       .all() as ConditionalOrderRow[];
   }
 
+  getConditionalOrder(orderId: string): ConditionalOrderRow | undefined {
+    return this.db.prepare(`SELECT * FROM conditional_orders WHERE order_id=?`).get(orderId) as ConditionalOrderRow | undefined;
+  }
+
+  /** Active orders first (oldest first), then the most recently settled ones. */
+  listConditionalOrders(docId: string, limit = 50): ConditionalOrderRow[] {
+    return this.db
+      .prepare(
+        `SELECT * FROM conditional_orders WHERE doc_id=?
+         ORDER BY CASE WHEN status='ACTIVE' THEN 0 ELSE 1 END, CASE WHEN status='ACTIVE' THEN created_at ELSE -updated_at END
+         LIMIT ?`
+      )
+      .all(docId, limit) as ConditionalOrderRow[];
+  }
+
   triggerConditionalOrder(orderId: string, cmdId: string) {
     const now = Date.now();
     this.db
@@ -1019,24 +1487,77 @@ export class Repo {
 
   // --- Stacks Payment Requests ---
 
-  insertStacksPaymentRequest(params: { requestId: string; docId: string; address: string; amountRaw: number; token: string; description: string; expiresAt: number }) {
+  insertStacksPaymentRequest(params: { requestId: string; docId: string; address: string; amountRaw: bigint; fingerprinted?: boolean; token: string; tokenContract?: string; decimals?: number; description: string; expiresAt: number; cmdId?: string; paymentUri?: string }) {
     const now = Date.now();
     this.db.prepare(
-      `INSERT INTO stacks_payment_requests(request_id, doc_id, address, amount_raw, token, description, status, expires_at, created_at)
-       VALUES(?,?,?,?,?,?,'pending',?,?)`
-    ).run(params.requestId, params.docId, params.address, params.amountRaw, params.token, params.description, params.expiresAt, now);
+      `INSERT INTO stacks_payment_requests(request_id, doc_id, address, amount_raw, fingerprinted, token, token_contract, decimals, description, status, expires_at, cmd_id, payment_uri, created_at)
+       VALUES(?,?,?,?,?,?,?,?,?,'pending',?,?,?,?)`
+    ).run(
+      params.requestId, params.docId, params.address, params.amountRaw.toString(), params.fingerprinted ? 1 : 0, params.token, params.tokenContract ?? null, params.decimals ?? 6,
+      params.description, params.expiresAt, params.cmdId ?? null, params.paymentUri ?? null, now
+    );
   }
 
   getStacksPaymentRequest(requestId: string): StacksPaymentRequestRow | undefined {
     return this.db.prepare(`SELECT * FROM stacks_payment_requests WHERE request_id=?`).get(requestId) as StacksPaymentRequestRow | undefined;
   }
 
-  getStacksPaymentRequestsByDoc(docId: string): StacksPaymentRequestRow[] {
+  getStacksPaymentRequestsByDoc(docId: string, status?: string): StacksPaymentRequestRow[] {
+    if (status) {
+      return this.db
+        .prepare(`SELECT * FROM stacks_payment_requests WHERE doc_id=? AND status=? ORDER BY created_at DESC`)
+        .all(docId, status) as StacksPaymentRequestRow[];
+    }
     return this.db.prepare(`SELECT * FROM stacks_payment_requests WHERE doc_id=? ORDER BY created_at DESC`).all(docId) as StacksPaymentRequestRow[];
   }
 
-  updateStacksPaymentRequestPaid(requestId: string, paidTxid: string) {
-    this.db.prepare(`UPDATE stacks_payment_requests SET status='paid', paid_txid=? WHERE request_id=?`).run(paidTxid, requestId);
+  /** Pending requests across all docs, for the payment watcher. */
+  listPendingStacksPaymentRequests(): StacksPaymentRequestRow[] {
+    return this.db
+      .prepare(`SELECT * FROM stacks_payment_requests WHERE status='pending' ORDER BY created_at ASC`)
+      .all() as StacksPaymentRequestRow[];
+  }
+
+  isStacksPaymentTxidClaimed(txid: string): boolean {
+    return !!this.db.prepare(`SELECT 1 FROM stacks_payment_requests WHERE paid_txid=?`).get(txid);
+  }
+
+  /** Only a pending request can be paid; returns false if it already settled. */
+  updateStacksPaymentRequestPaid(requestId: string, paidTxid: string): boolean {
+    return this.db
+      .prepare(`UPDATE stacks_payment_requests SET status='paid', paid_txid=? WHERE request_id=? AND status='pending'`)
+      .run(paidTxid, requestId).changes > 0;
+  }
+
+  expireStacksPaymentRequest(requestId: string): boolean {
+    return this.db
+      .prepare(`UPDATE stacks_payment_requests SET status='expired' WHERE request_id=? AND status='pending'`)
+      .run(requestId).changes > 0;
+  }
+
+  // --- Inbound Transfer Cursors ---
+
+  getInboundCursor(address: string): string | undefined {
+    const row = this.db.prepare(`SELECT last_txid FROM inbound_cursors WHERE address=?`).get(address) as { last_txid: string } | undefined;
+    return row?.last_txid;
+  }
+
+  /** Move the cursor to `txid`; none of the transaction after it has been posted yet. */
+  setInboundCursor(address: string, txid: string) {
+    this.db.prepare(
+      `INSERT INTO inbound_cursors(address, last_txid, next_posted, updated_at) VALUES(?,?,0,?)
+       ON CONFLICT(address) DO UPDATE SET last_txid=excluded.last_txid, next_posted=0, updated_at=excluded.updated_at`
+    ).run(address, txid, Date.now());
+  }
+
+  /** How many transfers of the transaction after the cursor were already posted before a failure. */
+  getInboundPosted(address: string): number {
+    const row = this.db.prepare(`SELECT next_posted FROM inbound_cursors WHERE address=?`).get(address) as { next_posted: number } | undefined;
+    return row?.next_posted ?? 0;
+  }
+
+  setInboundPosted(address: string, posted: number) {
+    this.db.prepare(`UPDATE inbound_cursors SET next_posted=?, updated_at=? WHERE address=?`).run(posted, Date.now(), address);
   }
 
   // --- x402 Receipts ---
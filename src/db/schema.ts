@@ -39,6 +39,32 @@ CREATE TABLE IF NOT EXISTS commands (
 
 CREATE INDEX IF NOT EXISTS idx_commands_doc_status_created ON commands(doc_id, status, created_at);
 
+CREATE TABLE IF NOT EXISTS command_transitions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  cmd_id TEXT NOT NULL,
+  doc_id TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor TEXT NOT NULL DEFAULT '',
+  source TEXT NOT NULL,
+  detail TEXT,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_command_transitions_cmd ON command_transitions(cmd_id, created_at);
+
+CREATE TABLE IF NOT EXISTS tx_confirmations (
+  cmd_id TEXT PRIMARY KEY,
+  doc_id TEXT NOT NULL,
+  tx_id TEXT NOT NULL,
+  tx_status TEXT NOT NULL,
+  block_height INTEGER,
+  fee_micro_stx TEXT,
+  tx_result TEXT,
+  checked_at INTEGER NOT NULL,
+  finalized_at INTEGER
+);
+
 CREATE TABLE IF NOT EXISTS doc_settings (
   doc_id TEXT PRIMARY KEY,
   quorum INTEGER NOT NULL DEFAULT 1,
@@ -60,10 +86,20 @@ CREATE TABLE IF NOT EXISTS command_approvals (
   cmd_id TEXT NOT NULL,
   signer_address TEXT NOT NULL,
   decision TEXT NOT NULL,
+  auth TEXT,
   created_at INTEGER NOT NULL,
   PRIMARY KEY (doc_id, cmd_id, signer_address)
 );
 
+CREATE TABLE IF NOT EXISTS approval_token_uses (
+  nonce TEXT NOT NULL,
+  signer_address TEXT NOT NULL DEFAULT '',
+  doc_id TEXT NOT NULL,
+  cmd_id TEXT NOT NULL,
+  used_at INTEGER NOT NULL,
+  PRIMARY KEY (nonce, signer_address)
+);
+
 CREATE TABLE IF NOT EXISTS yellow_sessions (
   doc_id TEXT PRIMARY KEY,
   app_session_id TEXT NOT NULL,
@@ -188,6 +224,37 @@ CREATE TABLE IF NOT EXISTS price_cache (
   updated_at INTEGER NOT NULL
 );
 
+CREATE TABLE IF NOT EXISTS balance_alerts (
+  alert_id INTEGER PRIMARY KEY AUTOINCREMENT,
+  doc_id TEXT NOT NULL,
+  asset TEXT NOT NULL,
+  unit TEXT NOT NULL,
+  threshold REAL NOT NULL,
+  value REAL NOT NULL,
+  message TEXT NOT NULL,
+  rearmed_at INTEGER,
+  cleared_at INTEGER,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_balance_alerts_doc ON balance_alerts(doc_id, asset, unit);
+
+CREATE TABLE IF NOT EXISTS price_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  pair TEXT NOT NULL,
+  price REAL NOT NULL,
+  sources TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_history_pair ON price_history(pair, created_at);
+
+CREATE TABLE IF NOT EXISTS contract_abis (
+  contract_id TEXT PRIMARY KEY,
+  abi_json TEXT NOT NULL,
+  fetched_at INTEGER NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS conditional_orders (
   order_id TEXT PRIMARY KEY,
   doc_id TEXT NOT NULL,
@@ -198,6 +265,10 @@ CREATE TABLE IF NOT EXISTS conditional_orders (
   qty REAL NOT NULL,
   status TEXT NOT NULL DEFAULT 'ACTIVE',
   triggered_cmd_id TEXT,
+  trail_pct REAL,
+  trail_abs REAL,
+  peak_price REAL,
+  oco_group TEXT,
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL
 );
@@ -208,17 +279,29 @@ CREATE TABLE IF NOT EXISTS stacks_payment_requests (
   request_id TEXT PRIMARY KEY,
   doc_id TEXT NOT NULL,
   address TEXT NOT NULL,
-  amount_raw INTEGER NOT NULL,
+  amount_raw TEXT NOT NULL,
+  fingerprinted INTEGER NOT NULL DEFAULT 0,
   token TEXT NOT NULL DEFAULT 'STX',
+  token_contract TEXT,
+  decimals INTEGER NOT NULL DEFAULT 6,
   description TEXT NOT NULL DEFAULT '',
   status TEXT NOT NULL DEFAULT 'pending',
   expires_at INTEGER NOT NULL,
   paid_txid TEXT,
+  cmd_id TEXT,
+  payment_uri TEXT,
   created_at INTEGER NOT NULL
 );
 
 CREATE INDEX IF NOT EXISTS idx_stacks_payment_requests_doc ON stacks_payment_requests(doc_id, created_at);
 
+CREATE TABLE IF NOT EXISTS inbound_cursors (
+  address TEXT PRIMARY KEY,
+  last_txid TEXT NOT NULL,
+  next_posted INTEGER NOT NULL DEFAULT 0,
+  updated_at INTEGER NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS x402_receipts (
   receipt_id TEXT PRIMARY KEY,
   doc_id TEXT NOT NULL,
@@ -247,6 +330,31 @@ CREATE TABLE IF NOT EXISTS contract_calls (
 
 CREATE INDEX IF NOT EXISTS idx_contract_calls_doc ON contract_calls(doc_id, created_at);
 
+CREATE TABLE IF NOT EXISTS signed_transactions (
+  txid TEXT PRIMARY KEY,
+  cmd_id TEXT NOT NULL,
+  doc_id TEXT NOT NULL,
+  sender TEXT NOT NULL,
+  nonce INTEGER NOT NULL,
+  fee_micro_stx TEXT NOT NULL,
+  raw_hex TEXT NOT NULL,
+  status TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_signed_transactions_cmd ON signed_transactions(cmd_id, created_at);
+
+CREATE TABLE IF NOT EXISTS nonce_reservations (
+  address TEXT NOT NULL,
+  nonce INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  txid TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (address, nonce)
+);
+
 CREATE TABLE IF NOT EXISTS channel_events (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   doc_id TEXT NOT NULL,
@@ -1,31 +1,58 @@
 import type { docs_v1, drive_v3 } from "googleapis";
 import { parseCommand, tryAutoDetect } from "./core/commands.js";
-import type { ParsedCommand } from "./core/commands.js";
+import type { ParsedCommand, ParseResult } from "./core/commands.js";
+import { evaluatePolicy, loadPolicyFromConfig } from "./core/policy.js";
+import type { PolicyDecision } from "./core/policy.js";
+import { buildApprovalUrl, deriveApprovalSecret } from "./core/approval.js";
+import { AMOUNT_ASSETS, describeAmount, formatUnits, parseUnits } from "./core/amounts.js";
+import type { AmountAsset } from "./core/amounts.js";
+import { formatClarityLiteral, toClarityValue } from "./core/clarity.js";
+import type { ClarityLiteral } from "./core/clarity.js";
+import { describeContractAbi, validateContractArgs } from "./core/abi.js";
+import { describePostCondition, formatPostCondition, toPostCondition } from "./core/postconditions.js";
+import { evaluateOrder, orderPriceText, orderSideText, orderSwapCommand, trailingTrigger } from "./core/orders.js";
+import { ALERT_ASSETS, alertThresholdKey, alertTransition, readAlertThresholds } from "./core/alerts.js";
+import { PAYMENT_DEFAULT_EXPIRY_MS, fetchTransfersSince, fingerprintAmount, matchPayments, paymentUri, paymentWindowStart } from "./core/payments.js";
+import { fetchSinceCursor, INBOUND_MAX_PAGES, newestTransferTxid, parseInboundChatMinUsd, transfersSinceCursor } from "./core/inbound.js";
+import { describeRebalance, parseDriftBand, parseRebalanceTargets, planRebalance } from "./core/rebalance.js";
+import { PRICE_PAIRS, formatPriceRange, summarizePriceHistory } from "./core/prices.js";
+import type { PricePair } from "./core/prices.js";
 import { sha256Hex } from "./util/hash.js";
 import { Repo } from "./db/repo.js";
+import type { CommandRow, StacksPaymentRequestRow } from "./db/repo.js";
 import { listAccessibleDocs } from "./google/drive.js";
 import {
   appendAuditRow,
+  appendChatRow,
   appendCommandRow,
   appendRecentActivityRow,
   loadDocWalletTables,
   readChatTable,
   readCommandsTable,
   readConfig,
+  readOpenOrdersTable,
   updateBalancesTable,
   updateChatRowCells,
   updateCommandsRowCells,
+  updateOpenOrdersTable,
   userEditableCommandsHash,
+  writeConfigValue,
   writeConfigBatch
 } from "./google/docwallet.js";
 import { createAndStoreDocSecrets, loadDocSecrets } from "./wallet/store.js";
 import type { AppConfig } from "./config.js";
-import type { StacksClient } from "./integrations/stacks.js";
+import { BroadcastRejectedError } from "./integrations/stacks.js";
+import type { BroadcastResult, SignedTxHook, StacksClient, TxFeeOptions } from "./integrations/stacks.js";
 import type { SbtcClient } from "./integrations/sbtc.js";
 import type { UsdcxClient } from "./integrations/usdcx.js";
 import type { X402Client } from "./integrations/x402.js";
+import { minAmountOut } from "./integrations/swap.js";
+import type { SwapAdapter } from "./integrations/swap.js";
+import { MANUAL_PRICE_SOURCE, priceOverrideKey } from "./integrations/prices.js";
+import type { PriceOracle } from "./integrations/prices.js";
 import type { HederaClient } from "./integrations/hedera.js";
-import { cvToJSON, stringAsciiCV, uintCV, principalCV } from "@stacks/transactions";
+import { PostConditionMode, cvToJSON, stringAsciiCV, uintCV, principalCV } from "@stacks/transactions";
+import type { ClarityAbi } from "@stacks/transactions";
 
 type ExecutionContext = {
   config: AppConfig;
@@ -37,22 +64,33 @@ type ExecutionContext = {
   sbtc?: SbtcClient;
   usdcx?: UsdcxClient;
   x402?: X402Client;
+  swap?: SwapAdapter;
+  prices?: PriceOracle;
 };
 
 export class Engine {
   private discoveryRunning = false;
   private pollRunning = false;
   private executorRunning = false;
+  private confirmationRunning = false;
   private chatRunning = false;
   private balancesRunning = false;
   private schedulerRunning = false;
   private priceTickRunning = false;
   private agentDecisionRunning = false;
   private payoutRulesRunning = false;
+  private paymentWatcherRunning = false;
+  private inboundRunning = false;
 
-  constructor(private ctx: ExecutionContext) {}
+  private readonly approvalSecret: Buffer;
+
+  constructor(private ctx: ExecutionContext) {
+    this.approvalSecret = deriveApprovalSecret(ctx.config.DOCWALLET_MASTER_KEY, ctx.config.APPROVAL_SECRET);
+  }
 
   private pollFailures = new Map<string, number>();
+  /** Balances fetched by the last balancesTick per doc, reused by auto-rebalance. */
+  private lastBalances = new Map<string, { at: number; balances: Partial<Record<AmountAsset, bigint>>; stxLocked: bigint }>();
 
   async discoveryTick() {
     if (this.discoveryRunning) return;
@@ -113,7 +151,6 @@ export class Engine {
     try {
       const { docs, repo, config } = this.ctx;
       const tracked = repo.listDocs();
-      const publicBaseUrl = config.PUBLIC_BASE_URL ?? `http://localhost:${config.HTTP_PORT}`;
 
       for (const d of tracked) {
         const docId = d.doc_id;
@@ -139,6 +176,16 @@ export class Engine {
           continue;
         }
 
+        const policy = loadPolicyFromConfig(configMap);
+        if (policy.ok && policy.source !== d.policy_source) {
+          repo.setDocPolicy(docId, { policySource: policy.source, ensName: d.ens_name });
+          await this.audit(docId, `POLICY ${policy.source ? `loaded from ${policy.source}` : "cleared"}`);
+        }
+
+        await this.expireStaleApprovals(docId, configMap);
+        await this.syncPriceOverrides(docId, configMap);
+        await this.syncOpenOrders(docId, tables.openOrders.table);
+
         const commandsHash = sha256Hex(userEditableCommandsHash(tables.commands.table));
         if (d.last_user_hash && d.last_user_hash === commandsHash) continue;
 
@@ -148,16 +195,29 @@ export class Engine {
 
           if (row.id) {
             const existing = repo.getCommand(row.id);
-            if (existing?.status === "PENDING_APPROVAL") {
+            if (existing?.status === "PENDING_APPROVAL" && existing.doc_id === docId) {
               const cellStatus = row.status.toUpperCase().trim();
+              const quorumManaged = repo.listSigners(docId).length > 0;
+              if (quorumManaged && (cellStatus === "APPROVED" || cellStatus === "REJECTED" || cellStatus === "REJECT")) {
+                await updateCommandsRowCells({
+                  docs,
+                  docId,
+                  commandsTable: tables.commands.table,
+                  rowIndex: row.rowIndex,
+                  updates: { status: "PENDING_APPROVAL", error: "Signer quorum required — use the approval link" }
+                });
+                continue;
+              }
               if (cellStatus === "APPROVED") {
-                repo.setCommandStatus(row.id, "APPROVED");
-                await this.audit(docId, `${row.id} APPROVED (cell-edit)`);
+                if (repo.setCommandStatus(row.id, "APPROVED", { source: "cell-edit", actor: "doc-editor" })) {
+                  await this.audit(docId, `${row.id} APPROVED (cell-edit)`);
+                }
                 continue;
               }
               if (cellStatus === "REJECTED" || cellStatus === "REJECT") {
-                repo.setCommandStatus(row.id, "REJECTED", { errorText: "Rejected via cell edit" });
-                await this.audit(docId, `${row.id} REJECTED (cell-edit)`);
+                if (repo.setCommandStatus(row.id, "REJECTED", { source: "cell-edit", actor: "doc-editor", errorText: "Rejected via cell edit" })) {
+                  await this.audit(docId, `${row.id} REJECTED (cell-edit)`);
+                }
                 continue;
               }
             }
@@ -182,7 +242,7 @@ export class Engine {
 
           if (!row.id) {
             const cmdId = generateCmdId(docId, row.command);
-            const parsed = parseCommand(row.command);
+            const parsed = await this.checkContractAbi(parseCommand(row.command));
             if (!parsed.ok) {
               repo.upsertCommand({
                 cmd_id: cmdId,
@@ -195,21 +255,40 @@ export class Engine {
                 arc_tx_hash: null,
                 result_text: null,
                 error_text: parsed.error
-              });
+              }, { source: "cell-edit", actor: "doc-editor" });
               await this.updateRowByIndex(docId, row.rowIndex, { id: cmdId, status: "INVALID", error: parsed.error, approvalUrl: "" });
               await this.audit(docId, `${cmdId} INVALID (${parsed.error})`);
               continue;
             }
 
+            const decision = this.checkPolicy(docId, configMap, parsed.value);
+            if (!decision.ok) {
+              repo.upsertCommand({
+                cmd_id: cmdId,
+                doc_id: docId,
+                raw_command: row.command,
+                parsed_json: JSON.stringify(parsed.value, (_k, v) => typeof v === "bigint" ? v.toString() : v),
+                status: "REJECTED_POLICY",
+                yellow_intent_id: null,
+                sui_tx_digest: null,
+                arc_tx_hash: null,
+                result_text: null,
+                error_text: decision.reason
+              }, { source: "cell-edit", actor: "doc-editor", detail: decision.reason });
+              await this.updateRowByIndex(docId, row.rowIndex, { id: cmdId, status: "REJECTED_POLICY", error: decision.reason, approvalUrl: "" });
+              await this.audit(docId, `${cmdId} REJECTED_POLICY (${decision.reason})`);
+              continue;
+            }
+
             const AUTO_APPROVE = new Set([
-              "SETUP", "STATUS", "STX_PRICE", "STX_BALANCE", "STX_HISTORY", "TREASURY",
+              "SETUP", "STATUS", "STX_PRICE", "PRICE", "ALERTS", "PAYMENT_CHECK", "PAYMENTS", "STX_BALANCE", "STX_HISTORY", "TREASURY",
               "SBTC_BALANCE", "SBTC_INFO", "USDCX_BALANCE", "X402_STATUS",
-              "CONTRACT_READ", "STACK_STATUS"
+              "CONTRACT_READ", "CONTRACT_INFO", "STACK_STATUS", "SIGNERS", "SIMULATE"
             ]);
             const demoMode = config.DEMO_MODE || configMap["DEMO_MODE"]?.value?.trim() === "1";
-            const initialStatus = AUTO_APPROVE.has(parsed.value.type) || demoMode ? "APPROVED" : "PENDING_APPROVAL";
+            const initialStatus = AUTO_APPROVE.has(parsed.value.type) || demoMode || decision.autoApprove ? "APPROVED" : "PENDING_APPROVAL";
             const approvalUrl = initialStatus === "PENDING_APPROVAL"
-              ? `${publicBaseUrl}/cmd/${encodeURIComponent(docId)}/${encodeURIComponent(cmdId)}`
+              ? this.approvalUrl(docId, cmdId)
               : "";
 
             repo.upsertCommand({
@@ -223,7 +302,7 @@ export class Engine {
               arc_tx_hash: null,
               result_text: null,
               error_text: null
-            });
+            }, { source: "cell-edit", actor: "doc-editor" });
 
             await this.updateRowByIndex(docId, row.rowIndex, { id: cmdId, status: initialStatus, approvalUrl, error: "" });
             await this.audit(docId, `${cmdId} ${initialStatus}`);
@@ -231,7 +310,7 @@ export class Engine {
           }
 
           const existing = repo.getCommand(row.id);
-          if (!existing) continue;
+          if (!existing || existing.doc_id !== docId) continue;
           if (existing.raw_command === row.command) continue;
           if (existing.status !== "PENDING_APPROVAL" && existing.status !== "INVALID") {
             await updateCommandsRowCells({
@@ -244,7 +323,7 @@ export class Engine {
             continue;
           }
 
-          const parsed = parseCommand(row.command);
+          const parsed = await this.checkContractAbi(parseCommand(row.command));
           if (!parsed.ok) {
             repo.upsertCommand({
               cmd_id: existing.cmd_id,
@@ -257,7 +336,7 @@ export class Engine {
               arc_tx_hash: existing.arc_tx_hash,
               result_text: existing.result_text,
               error_text: parsed.error
-            });
+            }, { source: "cell-edit", actor: "doc-editor", detail: "command edited" });
             await updateCommandsRowCells({
               docs,
               docId,
@@ -266,6 +345,30 @@ export class Engine {
               updates: { status: "INVALID", error: parsed.error }
             });
           } else {
+            const decision = this.checkPolicy(docId, configMap, parsed.value, existing.cmd_id);
+            if (!decision.ok) {
+              repo.upsertCommand({
+                cmd_id: existing.cmd_id,
+                doc_id: existing.doc_id,
+                raw_command: row.command,
+                parsed_json: JSON.stringify(parsed.value, (_k, v) => typeof v === "bigint" ? v.toString() : v),
+                status: "REJECTED_POLICY",
+                yellow_intent_id: existing.yellow_intent_id,
+                sui_tx_digest: existing.sui_tx_digest,
+                arc_tx_hash: existing.arc_tx_hash,
+                result_text: existing.result_text,
+                error_text: decision.reason
+              }, { source: "cell-edit", actor: "doc-editor", detail: decision.reason });
+              await updateCommandsRowCells({
+                docs,
+                docId,
+                commandsTable: tables.commands.table,
+                rowIndex: row.rowIndex,
+                updates: { status: "REJECTED_POLICY", approvalUrl: "", error: decision.reason }
+              });
+              await this.audit(docId, `${existing.cmd_id} REJECTED_POLICY (${decision.reason})`);
+              continue;
+            }
             repo.upsertCommand({
               cmd_id: existing.cmd_id,
               doc_id: existing.doc_id,
@@ -277,7 +380,7 @@ export class Engine {
               arc_tx_hash: existing.arc_tx_hash,
               result_text: existing.result_text,
               error_text: null
-            });
+            }, { source: "cell-edit", actor: "doc-editor", detail: "command edited" });
             await updateCommandsRowCells({
               docs,
               docId,
@@ -285,7 +388,7 @@ export class Engine {
               rowIndex: row.rowIndex,
               updates: {
                 status: "PENDING_APPROVAL",
-                approvalUrl: `${publicBaseUrl}/cmd/${encodeURIComponent(docId)}/${encodeURIComponent(existing.cmd_id)}`,
+                approvalUrl: this.approvalUrl(docId, existing.cmd_id),
                 error: ""
               }
             });
@@ -306,26 +409,22 @@ export class Engine {
       const { repo } = this.ctx;
       const docs = repo.listDocs();
       for (const d of docs) {
-        const pending = repo.listPendingCommands(d.doc_id);
-        for (const cmd of pending) {
+        const approved = repo.listApprovedCommands(d.doc_id);
+        for (const cmd of approved) {
           const parsed = cmd.parsed_json ? JSON.parse(cmd.parsed_json) as ParsedCommand : null;
           if (!parsed) {
-            repo.setCommandStatus(cmd.cmd_id, "FAILED", { errorText: "Missing parsed command" });
+            repo.setCommandStatus(cmd.cmd_id, "FAILED", { source: "executor", errorText: "Missing parsed command" });
             continue;
           }
-          // Restore BigInt values from JSON strings
-          if ("amountMicroStx" in parsed) (parsed as any).amountMicroStx = BigInt((parsed as any).amountMicroStx);
-          if ("amountSats" in parsed) (parsed as any).amountSats = BigInt((parsed as any).amountSats);
-          if ("amount" in parsed && typeof (parsed as any).amount === "string" && parsed.type.startsWith("USDCX")) {
-            (parsed as any).amount = BigInt((parsed as any).amount);
-          }
+          restoreBigInts(parsed);
           try {
-            repo.setCommandStatus(cmd.cmd_id, "EXECUTING");
+            if (!repo.setCommandStatus(cmd.cmd_id, "EXECUTING", { source: "executor" })) continue;
             await this.updateDocRow(cmd.doc_id, cmd.cmd_id, { status: "EXECUTING", error: "" });
 
             const result = await this.execute(cmd.doc_id, cmd.cmd_id, parsed);
             repo.setCommandExecutionIds(cmd.cmd_id, { txId: result.txId });
-            repo.setCommandStatus(cmd.cmd_id, "EXECUTED", { resultText: result.resultText, errorText: null });
+            if (result.txId) repo.setSignedTransactionStatus(result.txId, "BROADCAST");
+            repo.setCommandStatus(cmd.cmd_id, "EXECUTED", { source: "executor", resultText: result.resultText, errorText: null });
 
             await this.updateDocRow(cmd.doc_id, cmd.cmd_id, { status: "EXECUTED", result: result.resultText, error: "" });
             await this.audit(cmd.doc_id, `${cmd.cmd_id} EXECUTED ${result.resultText}`);
@@ -339,7 +438,19 @@ export class Engine {
             });
           } catch (err) {
             const e = err instanceof Error ? err.message : String(err);
-            repo.setCommandStatus(cmd.cmd_id, "FAILED", { errorText: e });
+            if (err instanceof BroadcastRejectedError) {
+              repo.setSignedTransactionStatus(err.txid, "REJECTED");
+            } else {
+              // Signed before the failure: the transaction may be on the network, so never fail
+              // (and later re-sign) it — let the chain decide.
+              const current = repo.getCommand(cmd.cmd_id);
+              if (current?.status === "EXECUTING" && current.arc_tx_hash) {
+                await this.audit(cmd.doc_id, `${cmd.cmd_id} broadcast outcome unknown (${e}); settling by txid ${current.arc_tx_hash}`);
+                await this.settleSignedCommand(current, "executor");
+                continue;
+              }
+            }
+            repo.setCommandStatus(cmd.cmd_id, "FAILED", { source: "executor", errorText: e });
             await this.updateDocRow(cmd.doc_id, cmd.cmd_id, { status: "FAILED", error: e });
             await this.audit(cmd.doc_id, `${cmd.cmd_id} FAILED ${e}`);
           }
@@ -350,6 +461,91 @@ export class Engine {
     }
   }
 
+  /**
+   * Startup recovery for commands left EXECUTING by a crash or restart. With a recorded
+   * txid the chain decides the outcome; without one the command is failed for manual review.
+   */
+  async reconcileExecutingCommands() {
+    const { repo } = this.ctx;
+    for (const cmd of repo.listCommandsByStatus("EXECUTING")) {
+      if (!cmd.arc_tx_hash) {
+        const reason = "Interrupted during execution (restart); no transaction recorded — check balances before retrying";
+        if (repo.setCommandStatus(cmd.cmd_id, "FAILED", { source: "system", actor: "startup-reconcile", errorText: reason })) {
+          await this.updateDocRow(cmd.doc_id, cmd.cmd_id, { status: "FAILED", error: reason });
+          await this.audit(cmd.doc_id, `${cmd.cmd_id} FAILED (${reason})`);
+        }
+        continue;
+      }
+      await this.settleSignedCommand(cmd, "startup-reconcile");
+    }
+  }
+
+  /**
+   * Resolve an EXECUTING command whose transaction was signed and journaled before broadcast.
+   * A transaction the node has never seen is rebroadcast from the stored raw bytes, never
+   * re-signed, so the command moves money at most once. Lookup failures leave it EXECUTING;
+   * confirmationTick retries.
+   */
+  private async settleSignedCommand(cmd: CommandRow, actor: string) {
+    const { repo, stacks } = this.ctx;
+    const txId = cmd.arc_tx_hash!;
+    if (!stacks) {
+      console.warn(`[reconcile] ${cmd.cmd_id} has tx ${txId} but Stacks is disabled; leaving EXECUTING`);
+      return;
+    }
+
+    let txStatus: string;
+    try {
+      txStatus = (await stacks.getTransactionStatus(txId)).status;
+    } catch (err) {
+      console.warn(`[reconcile] ${cmd.cmd_id} status lookup failed for ${txId}:`, (err as Error).message);
+      return;
+    }
+
+    const signed = repo.getSignedTransaction(txId);
+    if (txStatus === "not_found" && signed && signed.status !== "REJECTED") {
+      try {
+        await stacks.broadcastRawTransaction(signed.raw_hex);
+        repo.setSignedTransactionStatus(txId, "BROADCAST");
+        txStatus = "rebroadcast";
+      } catch (err) {
+        if (!(err instanceof BroadcastRejectedError)) {
+          console.warn(`[reconcile] ${cmd.cmd_id} rebroadcast of ${txId} failed:`, (err as Error).message);
+          return;
+        }
+        repo.setSignedTransactionStatus(txId, "REJECTED");
+        txStatus = `rejected on rebroadcast (${err.reason})`;
+      }
+    }
+
+    if (txStatus === "success" || txStatus === "pending" || txStatus === "not_found" || txStatus === "rebroadcast") {
+      const resultText = `Recovered by txid: ${txId} (${txStatus})`;
+      if (repo.setCommandStatus(cmd.cmd_id, "EXECUTED", { source: "system", actor, resultText })) {
+        await this.updateDocRow(cmd.doc_id, cmd.cmd_id, { status: "EXECUTED", result: resultText, error: "" });
+        await this.audit(cmd.doc_id, `${cmd.cmd_id} EXECUTED ${resultText}`);
+      }
+    } else {
+      const reason = `Transaction ${txId} ${txStatus}`;
+      if (repo.setCommandStatus(cmd.cmd_id, "FAILED", { source: "system", actor, errorText: reason })) {
+        await this.updateDocRow(cmd.doc_id, cmd.cmd_id, { status: "FAILED", error: reason });
+        await this.audit(cmd.doc_id, `${cmd.cmd_id} FAILED (${reason})`);
+      }
+    }
+  }
+
+  /**
+   * Journal a signed transaction and record its txid on the command before it is broadcast. The
+   * nonce reservation is marked consumed too: a crash before the broadcast returns must not let
+   * the reservation expire and the nonce be reused while the journal can still rebroadcast.
+   */
+  private journalSignedTx(docId: string, cmdId: string): SignedTxHook {
+    return (tx) => {
+      this.ctx.repo.insertSignedTransaction({ ...tx, cmdId, docId });
+      this.ctx.repo.setCommandExecutionIds(cmdId, { txId: tx.txid });
+      this.ctx.repo.markNonceBroadcast(tx.sender, Number(tx.nonce), tx.txid);
+    };
+  }
+
   async chatTick() {
     if (this.chatRunning) return;
     this.chatRunning = true;
@@ -365,14 +561,18 @@ export class Engine {
           const raw = row.user.trim();
           const executeNow = raw.toLowerCase().startsWith("!execute ");
           const text = raw.replace(/^!execute\s+/i, "").trim();
-          const detected = tryAutoDetect(text);
+          // Typed DW commands get the same parse and contract interface check as the Commands table
+          const recognised = /^DW\s/i.test(text) ? parseCommand(text) : tryAutoDetect(text);
+          const detected = recognised && await this.checkContractAbi(recognised);
           if (!detected?.ok) {
             await updateChatRowCells({
               docs,
               docId,
               chatTable: tables.chat.table,
               rowIndex: row.rowIndex,
-              agent: "Use Stacks commands: DW STX_PRICE, DW STX_SEND <addr> <microSTX>, DW SBTC_BALANCE, DW USDCX_BALANCE"
+              agent: detected
+                ? `Invalid command: ${detected.error}`
+                : "Use Stacks commands: DW STX_PRICE, DW STX_SEND <addr> <amount, e.g. 1.5STX>, DW SBTC_BALANCE, DW USDCX_BALANCE"
             });
             continue;
           }
@@ -390,6 +590,18 @@ export class Engine {
 
           if (executeNow) {
             const cmdId = generateCmdId(docId, dw);
+            const decision = this.checkPolicy(docId, readConfig(tables.config.table), detected.value);
+            if (!decision.ok) {
+              await updateChatRowCells({
+                docs,
+                docId,
+                chatTable: tables.chat.table,
+                rowIndex: row.rowIndex,
+                agent: `Not submitted: ${decision.reason}`
+              });
+              await this.audit(docId, `CHAT ${dw} REJECTED_POLICY (${decision.reason})`);
+              continue;
+            }
             repo.upsertCommand({
               cmd_id: cmdId,
               doc_id: docId,
@@ -401,14 +613,14 @@ export class Engine {
               arc_tx_hash: null,
               result_text: null,
               error_text: null
-            });
+            }, { source: "chat", actor: "chat" });
             await appendCommandRow({
               docs,
               docId,
               id: cmdId,
               command: dw,
               status: "PENDING_APPROVAL",
-              approvalUrl: `${this.ctx.config.PUBLIC_BASE_URL ?? `http://localhost:${this.ctx.config.HTTP_PORT}`}/cmd/${encodeURIComponent(docId)}/${encodeURIComponent(cmdId)}`,
+              approvalUrl: this.approvalUrl(docId, cmdId),
               result: "",
               error: ""
             });
@@ -449,11 +661,15 @@ export class Engine {
         if (!secrets) continue;
 
         const entries: Array<{ location: string; asset: string; balance: string }> = [];
+        const balances: Partial<Record<AmountAsset, bigint>> = {};
+        let stxLocked = 0n;
 
         // STX balance
         if (stacks && secrets.stx) {
           try {
             const bal = await stacks.getBalance(secrets.stx.stxAddress);
+            balances.STX = bal.stx;
+            stxLocked = bal.locked;
             const stxPrice = repo.getPrice("STX/USD")?.mid_price ?? 0;
             const usd = stxPrice > 0 ? ` ($${(Number(bal.stx) / 1_000_000 * stxPrice).toFixed(2)})` : "";
             entries.push({ location: "Stacks", asset: "STX", balance: `${bal.stxFormatted}${usd}` });
@@ -466,6 +682,7 @@ export class Engine {
         if (sbtc && secrets.stx) {
           try {
             const bal = await sbtc.getBalance(secrets.stx.stxAddress);
+            balances.SBTC = bal.balanceSats;
             if (bal.balanceSats > 0n) {
               entries.push({ location: "Stacks (sBTC)", asset: "sBTC", balance: `${bal.balanceBtc} BTC` });
             }
@@ -476,6 +693,7 @@ export class Engine {
         if (usdcx && secrets.stx) {
           try {
             const bal = await usdcx.getBalance(secrets.stx.stxAddress);
+            balances.USDCX = bal.balanceRaw;
             if (bal.balanceRaw > 0n) {
               entries.push({ location: "Stacks (USDCx)", asset: "USDCx", balance: `$${bal.balanceFormatted}` });
             }
@@ -484,6 +702,8 @@ export class Engine {
 
         const tables = await loadDocWalletTables({ docs, docId });
         await updateBalancesTable({ docs, docId, balancesTable: tables.balances.table, entries });
+        await this.checkBalanceAlerts(docId, balances);
+        this.lastBalances.set(docId, { at: Date.now(), balances, stxLocked });
       }
     } catch (err) {
       console.error("balancesTick error:", err);
@@ -499,35 +719,39 @@ export class Engine {
       const { docs, repo } = this.ctx;
       const dueSchedules = repo.listDueSchedules();
       for (const s of dueSchedules) {
-        const parsed = parseCommand(s.inner_command);
+        const parsed = await this.checkContractAbi(parseCommand(s.inner_command));
         if (!parsed.ok) {
           repo.cancelSchedule(s.schedule_id);
-          await this.audit(s.doc_id, `SCHEDULE ${s.schedule_id} CANCELLED (invalid inner command)`);
+          await this.audit(s.doc_id, `SCHEDULE ${s.schedule_id} CANCELLED (invalid inner command: ${parsed.error})`);
           continue;
         }
         const cmdId = generateCmdId(s.doc_id, `sched:${s.schedule_id}:${Date.now()}`);
+        const tables = await loadDocWalletTables({ docs, docId: s.doc_id });
+        const decision = this.checkPolicy(s.doc_id, readConfig(tables.config.table), parsed.value);
+        const status = decision.ok ? "APPROVED" : "REJECTED_POLICY";
+        const errorText = decision.ok ? null : decision.reason;
         repo.upsertCommand({
           cmd_id: cmdId,
           doc_id: s.doc_id,
           raw_command: s.inner_command,
           parsed_json: JSON.stringify(parsed.value, (_k, v) => typeof v === "bigint" ? v.toString() : v),
-          status: "APPROVED",
+          status,
           yellow_intent_id: null,
           sui_tx_digest: null,
           arc_tx_hash: null,
           result_text: null,
-          error_text: null
-        });
+          error_text: errorText
+        }, { source: "scheduler", actor: `schedule:${s.schedule_id}` });
         await appendCommandRow({
           docs,
           docId: s.doc_id,
           id: cmdId,
           command: `[SCHED:${s.schedule_id}#${s.total_runs + 1}] ${s.inner_command}`,
-          status: "APPROVED",
+          status,
           result: "",
-          error: ""
+          error: errorText ?? ""
         });
-        await this.audit(s.doc_id, `SCHEDULE ${s.schedule_id} RUN#${s.total_runs + 1} -> ${cmdId}`);
+        await this.audit(s.doc_id, `SCHEDULE ${s.schedule_id} RUN#${s.total_runs + 1} -> ${cmdId}${errorText ? ` REJECTED_POLICY (${errorText})` : ""}`);
         repo.advanceSchedule(s.schedule_id);
       }
     } finally {
@@ -539,46 +763,66 @@ export class Engine {
     if (this.priceTickRunning) return;
     this.priceTickRunning = true;
     try {
-      const { repo, stacks, config } = this.ctx;
-      if (!stacks) return;
-
-      // Fetch STX price
-      const price = await stacks.getStxPrice();
-      if (price && price > 0) {
-        repo.upsertPrice("STX/USD", price, price * 0.999, price * 1.001, "coingecko");
+      const { repo, stacks, config, prices } = this.ctx;
+      if (!stacks || !prices) return;
+      repo.prunePriceHistory(Date.now() - config.PRICE_HISTORY_DAYS * 86_400_000);
+
+      // Orders only see a price the oracle accepted this tick: fresh, and agreed on by its sources.
+      for (const pair of ["STX/USD", "BTC/USD"] as const) {
+        const result = await prices.refresh(pair);
+        if (!result.ok) console.warn(`[priceTick] ${pair} withheld from orders: ${result.error}`);
       }
 
-      const stxMid = repo.getPrice("STX/USD")?.mid_price ?? 0;
-      if (stxMid <= 0) return;
-
-      // Check conditional orders
-      const activeOrders = repo.listActiveConditionalOrders().filter((o) => o.base.toUpperCase() === "STX");
-      for (const order of activeOrders) {
-        const shouldTrigger =
-          (order.type === "STOP_LOSS" && stxMid <= order.trigger_price) ||
-          (order.type === "TAKE_PROFIT" && stxMid >= order.trigger_price);
-        if (!shouldTrigger) continue;
+      // Check conditional orders; trailing stops ratchet before they are checked.
+      for (const order of repo.listActiveConditionalOrders()) {
+        const pair = PRICE_PAIRS[order.base.toUpperCase()];
+        if (!pair) continue;
+        const priced = await prices.forDoc(order.doc_id, pair);
+        if (!priced.ok) continue;
+        // A doc editor's PRICE_<PAIR> override never moves an order on its own, and a swap it
+        // helped trigger waits for the doc's signers instead of running straight away.
+        if (!priced.used.some((q) => q.source !== MANUAL_PRICE_SOURCE)) continue;
+        const overridden = priced.used.some((q) => q.source === MANUAL_PRICE_SOURCE);
+        const evaluation = evaluateOrder(order, priced.price);
+        if (evaluation.peakPrice !== undefined && evaluation.triggerPrice !== undefined) {
+          repo.updateTrailingStop(order.order_id, evaluation.peakPrice, evaluation.triggerPrice);
+        }
+        if (!evaluation.triggered) continue;
 
         const secrets = loadDocSecrets({ repo, masterKey: config.DOCWALLET_MASTER_KEY, docId: order.doc_id });
         if (!secrets?.stx) continue;
 
         const cmdId = generateCmdId(order.doc_id, `${order.type}:${order.order_id}`);
-        const amountMicroStx = Math.round(order.qty * 1_000_000);
-        const rawCommand = `DW STX_SEND ${secrets.stx.stxAddress} ${amountMicroStx}`;
+        const rawCommand = orderSwapCommand(order);
+        const parsed = parseCommand(rawCommand);
+        if (!parsed.ok) {
+          console.error(`[priceTick] order ${order.order_id}: ${parsed.error}`);
+          continue;
+        }
 
+        const tables = await loadDocWalletTables({ docs: this.ctx.docs, docId: order.doc_id });
+        const decision = this.checkPolicy(order.doc_id, readConfig(tables.config.table), parsed.value);
+        const status = !decision.ok ? "REJECTED_POLICY" : overridden ? "PENDING_APPROVAL" : "APPROVED";
+        const errorText = decision.ok ? null : decision.reason;
         repo.upsertCommand({
           cmd_id: cmdId,
           doc_id: order.doc_id,
           raw_command: rawCommand,
-          parsed_json: JSON.stringify({ type: "STX_SEND", to: secrets.stx.stxAddress, amountMicroStx: String(amountMicroStx) }),
-          status: "APPROVED",
+          parsed_json: JSON.stringify(parsed.value, (_k, v) => typeof v === "bigint" ? v.toString() : v),
+          status,
           yellow_intent_id: null,
           sui_tx_digest: null,
           arc_tx_hash: null,
           result_text: null,
-          error_text: null
-        });
+          error_text: errorText
+        }, { source: "price-trigger", actor: `order:${order.order_id}`, ...(errorText ? { detail: errorText } : {}) });
         repo.triggerConditionalOrder(order.order_id, cmdId);
+        if (errorText) await this.audit(order.doc_id, `${order.order_id} TRIGGERED -> ${cmdId} REJECTED_POLICY (${errorText})`);
+        else if (overridden) await this.audit(order.doc_id, `${order.order_id} TRIGGERED at a price including the doc's ${priceOverrideKey(pair)} override -> ${cmdId} PENDING_APPROVAL`);
+        if (order.oco_group) {
+          const cancelled = repo.cancelOcoSiblings(order.oco_group, order.order_id);
+          if (cancelled.length) await this.audit(order.doc_id, `${order.order_id} TRIGGERED; OCO cancelled ${cancelled.join(", ")}`);
+        }
 
         try {
           await appendCommandRow({
@@ -586,9 +830,10 @@ export class Engine {
             docId: order.doc_id,
             id: cmdId,
             command: `[${order.type}:${order.order_id.slice(0, 12)}] ${rawCommand}`,
-            status: "APPROVED",
+            status,
+            approvalUrl: status === "PENDING_APPROVAL" ? this.approvalUrl(order.doc_id, cmdId) : "",
             result: "",
-            error: ""
+            error: errorText ?? ""
           });
         } catch { /* ignore */ }
       }
@@ -603,12 +848,107 @@ export class Engine {
     if (this.agentDecisionRunning) return;
     this.agentDecisionRunning = true;
     try {
-      // Stacks mode: no-op for now
+      for (const d of this.ctx.repo.listDocs()) {
+        try {
+          await this.proposeRebalance(d.doc_id);
+        } catch (err) {
+          console.error(`[rebalance] ${d.doc_id.slice(0, 8)}:`, err);
+        }
+      }
     } finally {
       this.agentDecisionRunning = false;
     }
   }
 
+  async paymentWatcherTick() {
+    if (this.paymentWatcherRunning) return;
+    this.paymentWatcherRunning = true;
+    try {
+      const byAddress = new Map<string, StacksPaymentRequestRow[]>();
+      for (const request of this.ctx.repo.listPendingStacksPaymentRequests()) {
+        byAddress.set(request.address, [...(byAddress.get(request.address) ?? []), request]);
+      }
+      for (const requests of byAddress.values()) {
+        try {
+          await this.settlePaymentRequests(requests);
+        } catch (err) {
+          console.error(`[payments] ${requests[0]!.address}:`, err);
+        }
+      }
+    } finally {
+      this.paymentWatcherRunning = false;
+    }
+  }
+
+  /**
+   * Post transfers received by each doc's STX address to Recent Activity as RECEIVED rows, oldest
+   * first, advancing a per-address cursor after each transaction. The first run only records the
+   * newest incoming transfer as the cursor so existing history is not replayed. Transfers worth at least INBOUND_CHAT_MIN_USD
+   * (Config) are also posted to the chat.
+   */
+  async inboundTransfersTick() {
+    if (this.inboundRunning) return;
+    this.inboundRunning = true;
+    try {
+      const { docs, repo, config, stacks } = this.ctx;
+      if (!stacks) return;
+      for (const d of repo.listDocs()) {
+        const docId = d.doc_id;
+        const address = loadDocSecrets({ repo, masterKey: config.DOCWALLET_MASTER_KEY, docId })?.stx?.stxAddress;
+        if (!address) continue;
+        try {
+          const fetchPage = async (offset: number) => {
+            const page = await stacks.getIncomingTransfers(address, 50, offset);
+            return { ...page, transfers: page.transfers.filter((t) => t.sender !== address) };
+          };
+          const cursor = repo.getInboundCursor(address);
+          if (cursor === undefined) {
+            // An empty cursor means "nothing seen yet", so the first transfer to a fresh address is still posted.
+            const start = await newestTransferTxid(fetchPage);
+            if (start !== undefined) repo.setInboundCursor(address, start);
+            continue;
+          }
+          const { transfers, found } = await fetchSinceCursor(fetchPage, cursor);
+          const groups = transfersSinceCursor(transfers, cursor);
+          if (groups.length === 0) continue;
+          if (!found) {
+            await this.audit(docId, `INBOUND gap: last posted tx ${cursor || "(none)"} not found within ${INBOUND_MAX_PAGES} pages of history; transfers before ${groups[0]!.txid} were not posted`);
+          }
+
+          const chatMinUsd = parseInboundChatMinUsd(readConfig((await loadDocWalletTables({ docs, docId })).config.table)["INBOUND_CHAT_MIN_USD"]?.value);
+          // A transaction's transfers are posted one row each; resume after any a failed tick already
+          // posted, unless the transaction after the cursor fell out of reach with the cursor.
+          let posted = found ? repo.getInboundPosted(address) : 0;
+          for (const group of groups) {
+            for (const t of group.transfers.slice(posted)) {
+              const token = await this.inboundToken(t.asset);
+              const amount = `${formatUnits(t.amount, token.decimals)} ${token.symbol}`;
+              const usd = token.asset ? (this.usdPrice(token.asset) ?? 0) * (Number(t.amount) / 10 ** token.decimals) : undefined;
+              await appendRecentActivityRow({
+                docs,
+                docId,
+                timestampIso: new Date(t.timestamp * 1000).toISOString(),
+                type: "RECEIVED",
+                details: `${amount}${usd ? ` ($${usd.toFixed(2)})` : ""} from ${t.sender}${t.memo ? ` memo "${t.memo}"` : ""}`,
+                tx: t.txid
+              });
+              repo.setInboundPosted(address, ++posted);
+              if (chatMinUsd !== null && usd !== undefined && usd >= chatMinUsd) {
+                await appendChatRow({ docs, docId, user: "[inbound]", agent: `💰 Received ${amount} ($${usd.toFixed(2)}) from ${t.sender} (tx ${t.txid})` });
+              }
+            }
+            repo.setInboundCursor(address, group.txid);
+            posted = 0;
+          }
+        } catch (err) {
+          console.error(`[inbound] ${docId.slice(0, 8)}:`, err);
+        }
+      }
+    } finally {
+      this.inboundRunning = false;
+    }
+  }
+
   async payoutRulesTick() {
     if (this.payoutRulesRunning) return;
     this.payoutRulesRunning = true;
@@ -623,11 +963,11 @@ export class Engine {
   // Command Execution
   // ══════════════════════════════════════════════════════════════════════════════
 
-  private async execute(docId: string, _cmdId: string, command: ParsedCommand): Promise<{
+  private async execute(docId: string, cmdId: string, command: ParsedCommand, feeOverride?: Pick<TxFeeOptions, "feeTier" | "replace">): Promise<{
     resultText: string;
     txId?: string;
   }> {
-    const { repo, config, stacks, sbtc, usdcx, x402 } = this.ctx;
+    const { repo, config, stacks, sbtc, usdcx, x402, swap, prices } = this.ctx;
 
     // ── Core Commands ──
 
@@ -665,15 +1005,37 @@ export class Engine {
     }
 
     if (command.type === "STX_PRICE") {
-      if (!stacks) throw new Error("Stacks integration disabled");
-      const price = await stacks.getStxPrice();
-      if (price && price > 0) {
-        repo.upsertPrice("STX/USD", price, price * 0.999, price * 1.001, "coingecko");
-        return { resultText: `STX/USD PRICE=$${price.toFixed(4)} (via CoinGecko)` };
-      }
+      if (!prices) throw new Error("Price oracle disabled");
+      await prices.refresh("STX/USD");
+      const result = await prices.forDoc(docId, "STX/USD");
+      if (result.ok) return { resultText: `STX/USD PRICE=$${result.price.toFixed(4)} (via ${result.used.map((q) => q.source).join(", ")})` };
       const cached = repo.getPrice("STX/USD");
-      if (cached?.mid_price) return { resultText: `STX/USD PRICE=$${cached.mid_price.toFixed(4)} (cached)` };
-      return { resultText: "STX/USD PRICE=UNAVAILABLE" };
+      if (cached?.mid_price) return { resultText: `STX/USD PRICE=$${cached.mid_price.toFixed(4)} (cached; ${result.error})` };
+      return { resultText: `STX/USD PRICE=UNAVAILABLE (${result.error})` };
+    }
+
+    if (command.type === "PRICE") {
+      if (!prices) throw new Error("Price oracle disabled");
+      await prices.refresh(command.pair);
+      const latest = await prices.forDoc(docId, command.pair);
+      const range = formatPriceRange(command.rangeMs);
+      const summary = summarizePriceHistory(repo.listPriceHistory(command.pair, Date.now() - command.rangeMs));
+      const rejected = latest.rejected.map((r) => `${r.quote.source} ${r.reason}`).join("; ");
+      const sourcesLine = latest.ok
+        ? `Sources: ${latest.used.map((q) => `${q.source} $${usdText(q.price)}`).join(", ")}${rejected ? `; ignored ${rejected}` : ""}`
+        : `Latest refresh withheld: ${latest.error}${rejected ? ` (${rejected})` : ""}`;
+      if (!summary) return { resultText: `${command.pair} ${range}: no price history\n${sourcesLine}` };
+      const change = `${summary.changePct >= 0 ? "+" : ""}${summary.changePct.toFixed(2)}%`;
+      return {
+        resultText: [
+          `${command.pair} ${range}: last $${usdText(summary.last)}, low $${usdText(summary.low)}, high $${usdText(summary.high)}, change ${change} (${summary.samples} samples)`,
+          sourcesLine
+        ].join("\n")
+      };
+    }
+
+    if (ORDER_COMMANDS.has(command.type) && !swap) {
+      throw new Error("Orders fill with a swap when they trigger, and swaps are disabled (set SWAP_ROUTER)");
     }
 
     if (command.type === "STX_STOP_LOSS") {
@@ -683,11 +1045,11 @@ export class Engine {
         docId,
         type: "STOP_LOSS",
         base: "STX",
-        quote: "USD",
+        quote: "USDCX",
         triggerPrice: command.triggerPrice,
         qty: command.qty
       });
-      return { resultText: `STX_STOP_LOSS=${orderId} SELL ${command.qty} STX WHEN ≤ $${command.triggerPrice}` };
+      return { resultText: `STX_STOP_LOSS=${orderId} SELL ${command.qty} STX → USDCx WHEN ≤ $${command.triggerPrice}` };
     }
 
     if (command.type === "STX_TAKE_PROFIT") {
@@ -697,21 +1059,93 @@ export class Engine {
         docId,
         type: "TAKE_PROFIT",
         base: "STX",
-        quote: "USD",
+        quote: "USDCX",
         triggerPrice: command.triggerPrice,
         qty: command.qty
       });
-      return { resultText: `STX_TAKE_PROFIT=${orderId} SELL ${command.qty} STX WHEN ≥ $${command.triggerPrice}` };
+      return { resultText: `STX_TAKE_PROFIT=${orderId} SELL ${command.qty} STX → USDCx WHEN ≥ $${command.triggerPrice}` };
+    }
+
+    if (command.type === "TRAILING_STOP") {
+      const price = await this.freshPrice(docId, PRICE_PAIRS[command.asset]!);
+      if (!price) throw new Error(`No ${AMOUNT_ASSETS[command.asset].display} price available to anchor the trailing stop`);
+      const triggerPrice = trailingTrigger(price, command.trailPct, command.trailAbs);
+      if (triggerPrice <= 0) throw new Error(`Trail is wider than the current price $${price}`);
+      const trail = command.trailPct !== undefined ? `${command.trailPct}%` : `$${command.trailAbs}`;
+      const orderId = `${command.asset.toLowerCase()}_ts_${Date.now()}_${sha256Hex(`${docId}:${command.qty}:${trail}`).slice(0, 8)}`;
+      repo.insertConditionalOrder({
+        orderId,
+        docId,
+        type: "TRAILING_STOP",
+        base: command.asset,
+        quote: "USDCX",
+        triggerPrice,
+        qty: command.qty,
+        trailPct: command.trailPct,
+        trailAbs: command.trailAbs,
+        peakPrice: price
+      });
+      const display = AMOUNT_ASSETS[command.asset].display;
+      return { resultText: `TRAILING_STOP=${orderId} SELL ${command.qty} ${display} → USDCx, trail ${trail} from $${price} (now ≤ $${Number(triggerPrice.toFixed(6))})` };
+    }
+
+    if (command.type === "OCO") {
+      const ocoGroup = `${command.asset.toLowerCase()}_oco_${Date.now()}_${sha256Hex(`${docId}:${command.qty}:${command.stopPrice}:${command.takeProfitPrice}`).slice(0, 8)}`;
+      const legs = [
+        { orderId: `${ocoGroup}_sl`, type: "STOP_LOSS", triggerPrice: command.stopPrice },
+        { orderId: `${ocoGroup}_tp`, type: "TAKE_PROFIT", triggerPrice: command.takeProfitPrice }
+      ];
+      for (const leg of legs) {
+        repo.insertConditionalOrder({ ...leg, docId, base: command.asset, quote: "USDCX", qty: command.qty, ocoGroup });
+      }
+      const display = AMOUNT_ASSETS[command.asset].display;
+      return { resultText: `OCO=${legs.map((l) => l.orderId).join(",")} SELL ${command.qty} ${display} → USDCx WHEN ≤ $${command.stopPrice} OR ≥ $${command.takeProfitPrice}` };
+    }
+
+    if (command.type === "LIMIT_BUY") {
+      const orderId = `${command.asset.toLowerCase()}_lb_${Date.now()}_${sha256Hex(`${docId}:${command.qty}:${command.limitPrice}`).slice(0, 8)}`;
+      repo.insertConditionalOrder({
+        orderId,
+        docId,
+        type: "LIMIT_BUY",
+        base: command.asset,
+        quote: "USDCX",
+        triggerPrice: command.limitPrice,
+        qty: command.qty
+      });
+      const display = AMOUNT_ASSETS[command.asset].display;
+      return { resultText: `LIMIT_BUY=${orderId} BUY ${command.qty} ${display} with USDCx WHEN ≤ $${command.limitPrice}` };
     }
 
     if (command.type === "CANCEL_ORDER") {
-      repo.cancelConditionalOrder(command.orderId);
+      if (!(await this.cancelConditionalOrder(docId, command.orderId, "DW CANCEL_ORDER"))) {
+        throw new Error(`No active conditional order ${command.orderId} in this doc`);
+      }
       return { resultText: `CANCELLED conditional order ${command.orderId}` };
     }
 
     if (command.type === "ALERT_THRESHOLD") {
-      repo.setDocConfig(docId, `alert_threshold_${command.coinType.toLowerCase()}`, String(command.below));
-      return { resultText: `ALERT_THRESHOLD ${command.coinType} < ${command.below}` };
+      const asset = ALERT_ASSETS[command.coinType.toUpperCase()];
+      if (!asset) throw new Error(`Balance alerts support STX, SBTC and USDCX, not ${command.coinType}`);
+      repo.setDocConfig(docId, alertThresholdKey(asset, command.usd ? "USD" : "TOKEN"), String(command.below));
+      const threshold = command.usd ? `$${command.below}` : `${command.below} ${AMOUNT_ASSETS[asset].display}`;
+      return { resultText: `ALERT_THRESHOLD ${asset} < ${threshold}${command.below === 0 ? " (disabled)" : ""}` };
+    }
+
+    if (command.type === "ALERTS") {
+      if (command.clear) return { resultText: `Cleared ${repo.clearBalanceAlerts(docId)} alert(s)` };
+      const thresholds = readAlertThresholds(repo.listDocConfig(docId)).map((t) =>
+        `${AMOUNT_ASSETS[t.asset].display} < ${t.unit === "USD" ? `$${t.below}` : t.below}`
+      );
+      const alerts = repo.listBalanceAlerts(docId).map((a) =>
+        `${new Date(a.created_at).toISOString()} ${a.message}${a.rearmed_at ? " (recovered)" : ""}`
+      );
+      return {
+        resultText: [
+          `Thresholds: ${thresholds.length ? thresholds.join(", ") : "none"}`,
+          alerts.length ? `Alerts:\n${alerts.join("\n")}` : "Alerts: none"
+        ].join("\n")
+      };
     }
 
     if (command.type === "AUTO_REBALANCE") {
@@ -719,6 +1153,29 @@ export class Engine {
       return { resultText: `AUTO_REBALANCE=${command.enabled ? "ON" : "OFF"}` };
     }
 
+    if (command.type === "SIGNER_ADD") {
+      repo.upsertSigner({ docId, address: command.signerId, weight: command.weight });
+      return { resultText: `SIGNER_ADD ${command.signerId} weight=${command.weight} | ${describeSignerSet(repo, docId)}` };
+    }
+
+    if (command.type === "SIGNER_REMOVE") {
+      const known = repo.listSigners(docId).some((s) => s.address === command.signerId);
+      if (!known) throw new Error(`Signer not found: ${command.signerId}`);
+      repo.deleteSigner({ docId, address: command.signerId });
+      return { resultText: `SIGNER_REMOVE ${command.signerId} | ${describeSignerSet(repo, docId)}` };
+    }
+
+    if (command.type === "QUORUM") {
+      repo.setDocQuorum(docId, command.quorum);
+      const total = repo.listSigners(docId).reduce((a, s) => a + s.weight, 0);
+      const warn = total > 0 && command.quorum > total ? " (WARNING: exceeds total signer weight)" : "";
+      return { resultText: `QUORUM=${command.quorum}${warn} | ${describeSignerSet(repo, docId)}` };
+    }
+
+    if (command.type === "SIGNERS") {
+      return { resultText: `SIGNERS | ${describeSignerSet(repo, docId)}` };
+    }
+
     if (command.type === "TREASURY") {
       const secrets = loadDocSecrets({ repo, masterKey: config.DOCWALLET_MASTER_KEY, docId });
       if (!secrets?.stx || !stacks) return { resultText: "TREASURY: Stacks wallet not initialized" };
@@ -750,6 +1207,11 @@ export class Engine {
     const secrets = loadDocSecrets({ repo, masterKey: config.DOCWALLET_MASTER_KEY, docId });
     if (!secrets) return { resultText: `No wallet found. Type "DW SETUP" first.` };
 
+    if (command.type === "SIMULATE") {
+      if (!secrets.stx) throw new Error("No STX wallet. Run DW SETUP first.");
+      return this.simulate(docId, secrets.stx, command.command);
+    }
+
     // ── STX Commands ──
 
     if (command.type === "STX_SEND") {
@@ -759,9 +1221,10 @@ export class Engine {
         privateKeyHex: secrets.stx.privateKeyHex,
         to: command.to,
         amountMicroStx: command.amountMicroStx,
+        fees: await this.txFeeOptions(docId, command, feeOverride),
+        onSigned: this.journalSignedTx(docId, cmdId),
       });
-      const stxAmount = (Number(command.amountMicroStx) / 1_000_000).toFixed(6);
-      return { resultText: `STX_SEND txid=${out.txid} (${stxAmount} STX → ${command.to})`, txId: out.txid };
+      return { resultText: `STX_SEND txid=${out.txid} (${describeAmount(command.amountMicroStx, "STX")} → ${command.to}) fee=${out.fee} uSTX`, txId: out.txid };
     }
 
     if (command.type === "STX_BALANCE") {
@@ -772,6 +1235,46 @@ export class Engine {
       return { resultText: `STX Balance: ${bal.stxFormatted} STX (locked: ${lockedStx} STX) | Address: ${secrets.stx.stxAddress}` };
     }
 
+    if (command.type === "SPEED_UP" || command.type === "CANCEL_TX") {
+      if (!stacks) throw new Error("Stacks integration disabled");
+      if (!secrets.stx) throw new Error("No STX wallet. Run DW SETUP first.");
+      const tx = await stacks.getTransactionStatus(command.txid);
+      if (tx.status !== "pending") throw new Error(`Transaction ${command.txid} is ${tx.status}; only pending transactions can be replaced`);
+      if (tx.sender_address !== secrets.stx.stxAddress || tx.nonce === undefined) {
+        throw new Error(`Transaction ${command.txid} was not sent from this doc's wallet`);
+      }
+      const replace = { nonce: BigInt(tx.nonce), previousFee: BigInt(tx.fee_micro_stx ?? "0") };
+      const override = { feeTier: command.feeTier ?? "high" as const, replace };
+
+      if (command.type === "CANCEL_TX") {
+        const to = CANCEL_RECIPIENT[config.STX_NETWORK === "mainnet" ? "mainnet" : "testnet"];
+        const out = await stacks.sendStx({
+          privateKeyHex: secrets.stx.privateKeyHex,
+          to,
+          amountMicroStx: 1n,
+          memo: "cancel",
+          fees: await this.txFeeOptions(docId, command, override),
+          onSigned: this.journalSignedTx(docId, cmdId),
+        });
+        return { resultText: `CANCEL_TX ${command.txid} replaced by 1 uSTX transfer to ${to} txid=${out.txid} (nonce ${out.nonce}, fee ${replace.previousFee} → ${out.fee} uSTX)`, txId: out.txid };
+      }
+
+      const original = repo.getCommandByTxId(docId, command.txid);
+      if (!original?.parsed_json) throw new Error(`No command in this doc broadcast ${command.txid}`);
+      const parsed = restoreBigInts(JSON.parse(original.parsed_json) as ParsedCommand);
+      if (!REPLACEABLE_COMMANDS.has(parsed.type)) throw new Error(`${parsed.type} transactions cannot be sped up`);
+      let out: Awaited<ReturnType<Engine["execute"]>>;
+      try {
+        out = await this.execute(docId, original.cmd_id, parsed, override);
+      } catch (err) {
+        // The journal already pointed the original at the replacement; the node refused it, so the old tx still stands.
+        if (err instanceof BroadcastRejectedError) repo.setCommandExecutionIds(original.cmd_id, { txId: command.txid });
+        throw err;
+      }
+      if (out.txId) repo.setCommandExecutionIds(original.cmd_id, { txId: out.txId });
+      return { resultText: `SPEED_UP ${command.txid} (nonce ${replace.nonce}, previous fee ${replace.previousFee} uSTX) → ${out.resultText}`, txId: out.txId };
+    }
+
     if (command.type === "STX_HISTORY") {
       if (!stacks) throw new Error("Stacks integration disabled");
       if (!secrets.stx) throw new Error("No STX wallet. Run DW SETUP first.");
@@ -784,6 +1287,33 @@ export class Engine {
       return { resultText: `Recent Transactions (${txs.length}):\n${lines.join("\n")}` };
     }
 
+    // ── Swaps ──
+
+    if (command.type === "SWAP") {
+      if (!swap) throw new Error("Swaps disabled (set SWAP_ROUTER)");
+      if (!secrets.stx) throw new Error("No STX wallet. Run DW SETUP first.");
+      const expectedOut = await swap.quote(command.fromAsset, command.toAsset, command.amountIn);
+      const minOut = minAmountOut(expectedOut, command.maxSlippageBps);
+      if (minOut <= 0n) throw new Error(`Swap quote too small: ${describeAmount(expectedOut, command.toAsset)}`);
+      const out = await swap.swap({
+        privateKeyHex: secrets.stx.privateKeyHex,
+        fromAsset: command.fromAsset,
+        toAsset: command.toAsset,
+        amountIn: command.amountIn,
+        minOut,
+        fees: await this.txFeeOptions(docId, command, feeOverride),
+        onSigned: this.journalSignedTx(docId, cmdId),
+      });
+      this.recordSwapTrade(docId, cmdId, command, expectedOut, out.fee, out.txid);
+      const toSpec = AMOUNT_ASSETS[command.toAsset];
+      return {
+        resultText: `SWAP ${describeAmount(command.amountIn, command.fromAsset)} → ~${describeAmount(expectedOut, command.toAsset)} ` +
+          `(min ${formatUnits(minOut, toSpec.decimals)} ${toSpec.display}, slippage ≤ ${command.maxSlippageBps / 100}%) via ${swap.name}` +
+          `${out.txid ? ` txid=${out.txid}` : ""} fee=${out.fee} uSTX`,
+        txId: out.txid
+      };
+    }
+
     // ── sBTC Commands ──
 
     if (command.type === "SBTC_BALANCE") {
@@ -800,9 +1330,10 @@ export class Engine {
         privateKeyHex: secrets.stx.privateKeyHex,
         to: command.to,
         amountSats: command.amountSats,
+        fees: await this.txFeeOptions(docId, command, feeOverride),
+        onSigned: this.journalSignedTx(docId, cmdId),
       });
-      const btcAmount = (Number(command.amountSats) / 1e8).toFixed(8);
-      return { resultText: `SBTC_SEND txid=${out.txid} (${btcAmount} sBTC → ${command.to})`, txId: out.txid };
+      return { resultText: `SBTC_SEND txid=${out.txid} (${describeAmount(command.amountSats, "SBTC")} → ${command.to}) fee=${out.fee} uSTX`, txId: out.txid };
     }
 
     if (command.type === "SBTC_INFO") {
@@ -829,9 +1360,10 @@ export class Engine {
         privateKeyHex: secrets.stx.privateKeyHex,
         to: command.to,
         amount: command.amount,
+        fees: await this.txFeeOptions(docId, command, feeOverride),
+        onSigned: this.journalSignedTx(docId, cmdId),
       });
-      const usdcAmount = (Number(command.amount) / 1_000_000).toFixed(2);
-      return { resultText: `USDCX_SEND txid=${out.txid} ($${usdcAmount} USDCx → ${command.to})`, txId: out.txid };
+      return { resultText: `USDCX_SEND txid=${out.txid} (${describeAmount(command.amount, "USDCX")} → ${command.to}) fee=${out.fee} uSTX`, txId: out.txid };
     }
 
     if (command.type === "USDCX_APPROVE") {
@@ -841,31 +1373,33 @@ export class Engine {
         privateKeyHex: secrets.stx.privateKeyHex,
         spender: command.spender,
         amount: command.amount,
+        fees: await this.txFeeOptions(docId, command, feeOverride),
+        onSigned: this.journalSignedTx(docId, cmdId),
       });
-      const usdcAmount = (Number(command.amount) / 1_000_000).toFixed(2);
-      return { resultText: `USDCX_APPROVE txid=${out.txid} (approved $${usdcAmount} for ${command.spender})`, txId: out.txid };
+      return { resultText: `USDCX_APPROVE txid=${out.txid} (approved ${describeAmount(command.amount, "USDCX")} for ${command.spender}) fee=${out.fee} uSTX`, txId: out.txid };
     }
 
-    if (command.type === "USDCX_PAYMENT") {
-      if (!usdcx) throw new Error("USDCx integration disabled");
+    if (command.type === "USDCX_PAYMENT" || command.type === "PAYMENT_REQUEST") {
       if (!secrets.stx) throw new Error("No STX wallet. Run DW SETUP first.");
-      const rawAmount = Math.round(command.amount * 1_000_000);
-      const requestId = `pay_${Date.now()}_${sha256Hex(`${docId}:${command.amount}:${command.description}`).slice(0, 8)}`;
-      const uri = usdcx.createPaymentUri({
-        toAddress: secrets.stx.stxAddress,
-        amount: command.amount,
-        memo: command.description,
-      });
-      repo.insertStacksPaymentRequest({
-        requestId,
-        docId,
-        address: secrets.stx.stxAddress,
-        amountRaw: rawAmount,
-        token: "USDCx",
-        description: command.description,
-        expiresAt: Date.now() + 24 * 60 * 60 * 1000,
-      });
-      return { resultText: `USDCX_PAYMENT requestId=${requestId} amount=$${command.amount} USDCx\nAddress: ${secrets.stx.stxAddress}\nURI: ${uri}` };
+      const request = command.type === "USDCX_PAYMENT"
+        ? { amount: command.amount.toFixed(AMOUNT_ASSETS.USDCX.decimals), token: "USDCX", description: command.description }
+        : command;
+      return { resultText: await this.createPaymentRequest(docId, cmdId, secrets.stx.stxAddress, command.type, request) };
+    }
+
+    if (command.type === "PAYMENT_CHECK") {
+      const request = repo.getStacksPaymentRequest(command.requestId);
+      if (!request || request.doc_id !== docId) throw new Error(`No payment request ${command.requestId} in this doc`);
+      if (request.status === "pending") {
+        await this.settlePaymentRequests(repo.listPendingStacksPaymentRequests().filter((r) => r.address === request.address));
+      }
+      return { resultText: describePaymentRequest(repo.getStacksPaymentRequest(command.requestId)!) };
+    }
+
+    if (command.type === "PAYMENTS") {
+      const requests = repo.getStacksPaymentRequestsByDoc(docId, command.status).slice(0, 20);
+      if (requests.length === 0) return { resultText: command.status ? `No ${command.status} payment requests` : "No payment requests" };
+      return { resultText: requests.map(describePaymentRequest).join("\n") };
     }
 
     // ── x402 Commands ──
@@ -877,6 +1411,7 @@ export class Engine {
         url: command.url,
         method: command.method,
         privateKeyHex: secrets.stx.privateKeyHex,
+        onSigned: this.journalSignedTx(docId, cmdId),
       });
       const responsePreview = typeof receipt.responseData === "string"
         ? receipt.responseData.slice(0, 200)
@@ -898,22 +1433,24 @@ export class Engine {
     if (command.type === "CONTRACT_CALL") {
       if (!stacks) throw new Error("Stacks integration disabled");
       if (!secrets.stx) throw new Error("No STX wallet. Run DW SETUP first.");
-      // Parse args as Clarity values (basic: numbers → uint, strings → string-ascii, addresses → principal)
-      const clarityArgs = command.args.map(parseClarityArg);
+      const clarityArgs = command.args.map(toClarityArg);
       const out = await stacks.contractCall({
         privateKeyHex: secrets.stx.privateKeyHex,
         contractAddress: command.contractAddress,
         contractName: command.contractName,
         functionName: command.functionName,
         functionArgs: clarityArgs,
+        postConditions: command.postConditions?.map((pc) => toPostCondition(pc, secrets.stx!.stxAddress)),
+        fees: await this.txFeeOptions(docId, command, feeOverride),
+        onSigned: this.journalSignedTx(docId, cmdId),
       });
-      return { resultText: `CONTRACT_CALL txid=${out.txid} (${command.contractAddress}.${command.contractName}::${command.functionName})`, txId: out.txid };
+      return { resultText: `CONTRACT_CALL txid=${out.txid} (${command.contractAddress}.${command.contractName}::${command.functionName}) fee=${out.fee} uSTX`, txId: out.txid };
     }
 
     if (command.type === "CONTRACT_READ") {
       if (!stacks) throw new Error("Stacks integration disabled");
       if (!secrets.stx) throw new Error("No STX wallet. Run DW SETUP first.");
-      const clarityArgs = command.args.map(parseClarityArg);
+      const clarityArgs = command.args.map(toClarityArg);
       const result = await stacks.contractRead({
         contractAddress: command.contractAddress,
         contractName: command.contractName,
@@ -925,6 +1462,11 @@ export class Engine {
       return { resultText: `CONTRACT_READ ${command.contractAddress}.${command.contractName}::${command.functionName}\nResult: ${JSON.stringify(json, null, 2)}` };
     }
 
+    if (command.type === "CONTRACT_INFO") {
+      const abi = await this.loadContractAbi(command.contractAddress, command.contractName);
+      return { resultText: describeContractAbi(`${command.contractAddress}.${command.contractName}`, abi) };
+    }
+
     // ── Stacking ──
 
     if (command.type === "STACK_STX") {
@@ -971,10 +1513,671 @@ export class Engine {
   // Helpers
   // ══════════════════════════════════════════════════════════════════════════════
 
+  /** Fee tier from the command (or a SPEED_UP/CANCEL_TX override) and the doc's POLICY fee cap. */
+  private async txFeeOptions(
+    docId: string,
+    command: ParsedCommand,
+    override?: Pick<TxFeeOptions, "feeTier" | "replace">
+  ): Promise<TxFeeOptions> {
+    const tables = await loadDocWalletTables({ docs: this.ctx.docs, docId });
+    const loaded = loadPolicyFromConfig(readConfig(tables.config.table));
+    const maxFee = loaded.ok ? loaded.policy.maxFeeMicroStx : undefined;
+    return {
+      feeTier: override?.feeTier ?? ("feeTier" in command ? command.feeTier : undefined),
+      maxFeeMicroStx: maxFee !== undefined ? BigInt(maxFee) : undefined,
+      replace: override?.replace
+    };
+  }
+
+  /**
+   * Book a swap in `trades` at its quoted price. Swaps into STX are BUYs of STX, everything
+   * else SELLs the input asset; notional and fee are converted with cached USD prices.
+   */
+  private recordSwapTrade(
+    docId: string,
+    cmdId: string,
+    command: Extract<ParsedCommand, { type: "SWAP" }>,
+    expectedOut: bigint,
+    fee: bigint,
+    txid?: string
+  ) {
+    const units = (value: bigint, asset: AmountAsset) => Number(value) / 10 ** AMOUNT_ASSETS[asset].decimals;
+    const inQty = units(command.amountIn, command.fromAsset);
+    const outQty = units(expectedOut, command.toAsset);
+    const buying = command.toAsset === "STX";
+    const [base, quote, qty, quoteQty] = buying
+      ? [command.toAsset, command.fromAsset, outQty, inQty]
+      : [command.fromAsset, command.toAsset, inQty, outQty];
+    this.ctx.repo.insertTrade({
+      tradeId: `swap_${cmdId}`,
+      docId,
+      cmdId,
+      side: buying ? "BUY" : "SELL",
+      base,
+      quote,
+      qty,
+      price: quoteQty / qty,
+      notionalUsdc: quoteQty * (this.usdPrice(quote) ?? 0),
+      feeUsdc: units(fee, "STX") * (this.usdPrice("STX") ?? 0),
+      txDigest: txid ?? null
+    });
+  }
+
+  /** Refresh a pair and price it for the doc; undefined when its sources are stale or disagree. */
+  private async freshPrice(docId: string, pair: PricePair): Promise<number | undefined> {
+    const { prices } = this.ctx;
+    if (!prices) return undefined;
+    await prices.refresh(pair);
+    const result = await prices.forDoc(docId, pair);
+    return result.ok ? result.price : undefined;
+  }
+
+  /** Cached USD price; USDCx is taken at par. */
+  private usdPrice(asset: AmountAsset): number | undefined {
+    if (asset === "USDCX") return 1;
+    return this.ctx.repo.getPrice(asset === "STX" ? "STX/USD" : "BTC/USD")?.mid_price;
+  }
+
+  /**
+   * DRYRUN / SIMULATE: sign exactly the transaction approval would broadcast (fee estimated,
+   * nonce handed back), then report balances, post-conditions and the policy decision.
+   */
+  private async simulate(
+    docId: string,
+    wallet: { privateKeyHex: string; stxAddress: string },
+    command: ParsedCommand
+  ): Promise<{ resultText: string }> {
+    const { stacks, sbtc, usdcx, swap, config } = this.ctx;
+    if (!stacks) throw new Error("Stacks integration disabled");
+    const { privateKeyHex, stxAddress } = wallet;
+    const fees = await this.txFeeOptions(docId, command);
+
+    let out: Pick<BroadcastResult, "dryRun" | "fee"> & { txid?: string; nonce?: bigint };
+    let action: string;
+    // Net outflow per asset besides the fee; a swap's output is a negative outflow.
+    const outflows: Partial<Record<AmountAsset, bigint>> = {};
+    if (command.type === "STX_SEND") {
+      out = await stacks.sendStx({ privateKeyHex, to: command.to, amountMicroStx: command.amountMicroStx, fees, dryRun: true });
+      action = `send ${describeAmount(command.amountMicroStx, "STX")} → ${command.to}`;
+      outflows.STX = command.amountMicroStx;
+    } else if (command.type === "SBTC_SEND") {
+      if (!sbtc) throw new Error("sBTC integration disabled");
+      out = await sbtc.transfer({ privateKeyHex, to: command.to, amountSats: command.amountSats, fees, dryRun: true });
+      action = `send ${describeAmount(command.amountSats, "SBTC")} → ${command.to}`;
+      outflows.SBTC = command.amountSats;
+    } else if (command.type === "USDCX_SEND") {
+      if (!usdcx) throw new Error("USDCx integration disabled");
+      out = await usdcx.transfer({ privateKeyHex, to: command.to, amount: command.amount, fees, dryRun: true });
+      action = `send ${describeAmount(command.amount, "USDCX")} → ${command.to}`;
+      outflows.USDCX = command.amount;
+    } else if (command.type === "USDCX_APPROVE") {
+      if (!usdcx) throw new Error("USDCx integration disabled");
+      out = await usdcx.approve({ privateKeyHex, spender: command.spender, amount: command.amount, fees, dryRun: true });
+      action = `approve ${command.spender} to spend ${describeAmount(command.amount, "USDCX")}`;
+    } else if (command.type === "CONTRACT_CALL") {
+      out = await stacks.contractCall({
+        privateKeyHex,
+        contractAddress: command.contractAddress,
+        contractName: command.contractName,
+        functionName: command.functionName,
+        functionArgs: command.args.map(toClarityArg),
+        postConditions: command.postConditions?.map((pc) => toPostCondition(pc, stxAddress)),
+        fees,
+        dryRun: true,
+      });
+      action = `call ${command.contractAddress}.${command.contractName}::${command.functionName}`;
+    } else if (command.type === "SWAP") {
+      if (!swap) throw new Error("Swaps disabled (set SWAP_ROUTER)");
+      const expectedOut = await swap.quote(command.fromAsset, command.toAsset, command.amountIn);
+      const minOut = minAmountOut(expectedOut, command.maxSlippageBps);
+      if (minOut <= 0n) throw new Error(`Swap quote too small: ${describeAmount(expectedOut, command.toAsset)}`);
+      out = await swap.swap({ privateKeyHex, fromAsset: command.fromAsset, toAsset: command.toAsset, amountIn: command.amountIn, minOut, fees, dryRun: true });
+      const toSpec = AMOUNT_ASSETS[command.toAsset];
+      action = `swap ${describeAmount(command.amountIn, command.fromAsset)} → ~${describeAmount(expectedOut, command.toAsset)} ` +
+        `(min ${formatUnits(minOut, toSpec.decimals)} ${toSpec.display}, slippage ≤ ${command.maxSlippageBps / 100}%) via ${swap.name}`;
+      outflows[command.fromAsset] = command.amountIn;
+      outflows[command.toAsset] = -expectedOut;
+    } else {
+      throw new Error(`${command.type} cannot be simulated`);
+    }
+
+    const stx = await stacks.getBalance(stxAddress);
+    const spendable = stx.stx - stx.locked;
+    const balances = [balanceChange("STX", spendable, (outflows.STX ?? 0n) + out.fee)];
+    if (outflows.SBTC !== undefined) {
+      if (!sbtc) throw new Error("sBTC integration disabled");
+      balances.push(balanceChange("SBTC", (await sbtc.getBalance(stxAddress)).balanceSats, outflows.SBTC));
+    }
+    if (outflows.USDCX !== undefined) {
+      if (!usdcx) throw new Error("USDCx integration disabled");
+      balances.push(balanceChange("USDCX", (await usdcx.getBalance(stxAddress)).balanceRaw, outflows.USDCX));
+    }
+
+    const dry = out.dryRun;
+    const postConditions = command.type === "STX_SEND"
+      ? "none (plain STX transfer)"
+      : !dry
+        ? "none (nothing signed)"
+        : `${dry.postConditionMode === PostConditionMode.Deny ? "deny" : "allow"} mode${dry.postConditions.length ? `; ${dry.postConditions.map(describePostCondition).join("; ")}` : "; no asset transfers allowed"}`;
+
+    const tables = await loadDocWalletTables({ docs: this.ctx.docs, docId });
+    const configMap = readConfig(tables.config.table);
+    const decision = this.checkPolicy(docId, configMap, command);
+    const demoMode = config.DEMO_MODE || configMap["DEMO_MODE"]?.value?.trim() === "1";
+    const policy = !decision.ok
+      ? `BLOCKED (${decision.reason})`
+      : decision.autoApprove || demoMode ? "allowed, executes without approval" : "allowed, needs approval";
+
+    return {
+      resultText: [
+        `SIMULATE ${command.type}: ${action} — nothing broadcast`,
+        out.txid ? `Tx: txid=${out.txid} nonce=${out.nonce} fee=${out.fee} uSTX` : "Tx: none signed",
+        `Balances: ${balances.join(" | ")}`,
+        `Post-conditions: ${postConditions}`,
+        ...(command.type === "CONTRACT_CALL" || (command.type === "SWAP" && dry)
+          ? ["Execution: NOT SIMULATED — the contract code was not run and can still abort on-chain (the fee is paid either way)"]
+          : []),
+        `Policy: ${policy}`
+      ].join("\n")
+    };
+  }
+
+  /**
+   * Evaluate a parsed command against the doc's Config-table policy.
+   * An unparseable policy fails closed so a typo never lifts the caps.
+   */
+  private checkPolicy(
+    docId: string,
+    configMap: Record<string, { value: string }>,
+    cmd: ParsedCommand,
+    excludeCmdId?: string
+  ): PolicyDecision {
+    const { repo, config } = this.ctx;
+    const loaded = loadPolicyFromConfig(configMap);
+    if (!loaded.ok) return { ok: false, reason: loaded.error };
+    if (!loaded.source) return { ok: true };
+    return evaluatePolicy(loaded.policy, cmd, {
+      dailySpendMicroStx: repo.getDailySpendMicroStx(docId, excludeCmdId),
+      stxNetwork: config.STX_NETWORK
+    });
+  }
+
+  /** Contract interface from the local cache, fetched from the Stacks API on first use. */
+  private async loadContractAbi(contractAddress: string, contractName: string): Promise<ClarityAbi> {
+    const { repo, stacks } = this.ctx;
+    const contractId = `${contractAddress}.${contractName}`;
+    const cached = repo.getContractAbi(contractId);
+    if (cached) return JSON.parse(cached.abi_json) as ClarityAbi;
+    if (!stacks) throw new Error("Stacks integration disabled");
+    const abi = await stacks.getContractAbi(contractAddress, contractName);
+    repo.upsertContractAbi(contractId, JSON.stringify(abi));
+    return abi;
+  }
+
+  /**
+   * ABI gate for contract commands from the Commands table, chat and schedules before they can
+   * be approved or run: function must exist with the right access, argument count must match
+   * and literals are coerced to the declared types. Other commands pass through unchanged.
+   */
+  private async checkContractAbi(parsed: ParseResult): Promise<ParseResult> {
+    if (!parsed.ok || !this.ctx.stacks) return parsed;
+    const cmd = parsed.value;
+    if (cmd.type === "SCHEDULE") {
+      const inner = await this.checkContractAbi(parseCommand(cmd.innerCommand));
+      return inner.ok ? parsed : { ok: false, error: `Invalid inner command: ${inner.error}` };
+    }
+    if (cmd.type === "SIMULATE") {
+      const inner = await this.checkContractAbi({ ok: true, value: cmd.command });
+      return inner.ok ? { ok: true, value: { type: "SIMULATE", command: inner.value } } : inner;
+    }
+    if (cmd.type !== "CONTRACT_CALL" && cmd.type !== "CONTRACT_READ") return parsed;
+
+    let abi: ClarityAbi;
+    try {
+      abi = await this.loadContractAbi(cmd.contractAddress, cmd.contractName);
+    } catch (err) {
+      return { ok: false, error: `Could not load contract interface: ${(err as Error).message}` };
+    }
+    const check = validateContractArgs({ abi, functionName: cmd.functionName, mode: cmd.type, args: cmd.args });
+    if (!check.ok) return { ok: false, error: check.error };
+    return { ok: true, value: { ...cmd, args: check.args } };
+  }
+
+  /**
+   * Cancel an ACTIVE order of this doc, and the rest of its OCO group; shared by DW CANCEL_ORDER
+   * and CANCEL in the Open Orders table.
+   */
+  private async cancelConditionalOrder(docId: string, orderId: string, source: string): Promise<boolean> {
+    const order = this.ctx.repo.getConditionalOrder(orderId);
+    if (!order || order.doc_id !== docId || order.status !== "ACTIVE") return false;
+    this.ctx.repo.cancelConditionalOrder(orderId);
+    const siblings = order.oco_group ? this.ctx.repo.cancelOcoSiblings(order.oco_group, orderId) : [];
+    await this.audit(docId, `${[orderId, ...siblings].join(", ")} CANCELLED (${source})`);
+    return true;
+  }
+
+  /**
+   * Mirror the doc's conditional orders into the Open Orders table, after applying any CANCEL
+   * typed into an order's STATUS cell. The table is only rewritten when its text differs.
+   */
+  private async syncOpenOrders(docId: string, table: docs_v1.Schema$Table) {
+    const { docs, repo } = this.ctx;
+    const current = readOpenOrdersTable(table);
+    for (const row of current) {
+      if (row.orderId && row.status.toUpperCase() === "CANCEL") {
+        await this.cancelConditionalOrder(docId, row.orderId, "cell-edit");
+      }
+    }
+
+    const orders = repo.listConditionalOrders(docId, current.length).map((o) => {
+      const triggered = o.triggered_cmd_id ? repo.getCommand(o.triggered_cmd_id) : undefined;
+      return {
+        orderId: o.order_id,
+        side: orderSideText(o),
+        price: orderPriceText(o),
+        qty: `${o.qty} ${o.base}`,
+        status: triggered ? `${o.status} (${triggered.status})` : o.status,
+        updatedAt: new Date(o.updated_at).toISOString(),
+        tx: triggered?.arc_tx_hash ?? ""
+      };
+    });
+    const blank = { orderId: "", side: "", price: "", qty: "", status: "", updatedAt: "", tx: "" };
+    const unchanged = current.every(({ rowIndex, ...cells }) => {
+      const want = orders[rowIndex - 1] ?? blank;
+      return (Object.keys(blank) as Array<keyof typeof blank>).every((k) => cells[k] === want[k]);
+    });
+    if (unchanged) return;
+    await updateOpenOrdersTable({ docs, docId, openOrdersTable: table, orders });
+  }
+
+  /**
+   * Evaluate the doc's balance thresholds against freshly fetched balances. Each threshold fires
+   * once when the balance drops below it and re-arms when it recovers; USD thresholds are skipped
+   * while the asset has no cached price.
+   */
+  private async checkBalanceAlerts(docId: string, balances: Partial<Record<AmountAsset, bigint>>) {
+    const { docs, repo } = this.ctx;
+    for (const t of readAlertThresholds(repo.listDocConfig(docId))) {
+      const raw = balances[t.asset];
+      if (raw === undefined) continue;
+      const spec = AMOUNT_ASSETS[t.asset];
+      const tokens = Number(raw) / 10 ** spec.decimals;
+      const price = this.usdPrice(t.asset);
+      const value = t.unit === "USD" ? (price ? tokens * price : undefined) : tokens;
+      if (value === undefined) continue;
+
+      const tripped = repo.getTrippedBalanceAlert(docId, t.asset, t.unit);
+      const transition = alertTransition(value, t.below, tripped !== undefined);
+      if (transition === "REARM") repo.rearmBalanceAlert(tripped!.alert_id);
+      if (transition !== "FIRE") continue;
+
+      const message = t.unit === "USD"
+        ? `${spec.display} balance $${value.toFixed(2)} (${formatUnits(raw, spec.decimals)} ${spec.display}) fell below $${t.below}`
+        : `${spec.display} balance ${formatUnits(raw, spec.decimals)} fell below ${t.below}`;
+      repo.insertBalanceAlert({ docId, asset: t.asset, unit: t.unit, threshold: t.below, value, message });
+      await this.audit(docId, `ALERT ${message}`);
+      try {
+        await appendRecentActivityRow({ docs, docId, timestampIso: new Date().toISOString(), type: "ALERT", details: message, tx: "" });
+        await appendChatRow({ docs, docId, user: "[alert]", agent: `⚠️ ${message}. Run DW ALERTS to review or DW ALERTS CLEAR to acknowledge.` });
+      } catch (err) {
+        console.error(`[alerts] ${docId.slice(0, 8)}: could not post alert:`, err);
+      }
+    }
+  }
+
+  /**
+   * Record a payment request to the doc's STX address and return its RESULT text. The amount always
+   * carries a fingerprint, unique among open requests for the same address and token, so a transfer
+   * sent without the memo still identifies exactly one request.
+   */
+  private async createPaymentRequest(
+    docId: string,
+    cmdId: string,
+    address: string,
+    label: string,
+    params: { amount: string; token: string; description: string; expiresInMs?: number }
+  ): Promise<string> {
+    const { repo } = this.ctx;
+    const token = await this.resolvePaymentToken(params.token);
+    const requested = parseUnits(params.amount, token.decimals);
+    if (!requested) throw new Error(`Invalid ${token.symbol} amount ${params.amount} (at most ${token.decimals} decimals)`);
+    const taken = repo.listPendingStacksPaymentRequests()
+      .filter((r) => r.address === address && this.paymentAssetId(r) === (token.contractId ?? "STX"))
+      .map((r) => BigInt(r.amount_raw));
+    const amountRaw = fingerprintAmount(requested, taken);
+
+    const requestId = `pay_${Date.now()}_${sha256Hex(`${docId}:${params.amount}:${params.token}:${params.description}`).slice(0, 8)}`;
+    const amount = formatUnits(amountRaw, token.decimals);
+    const expiresAt = Date.now() + (params.expiresInMs ?? PAYMENT_DEFAULT_EXPIRY_MS);
+    const uri = paymentUri({ address, amount, token: token.contractId, memo: requestId });
+    repo.insertStacksPaymentRequest({
+      requestId,
+      docId,
+      address,
+      amountRaw,
+      fingerprinted: true,
+      token: token.symbol,
+      tokenContract: token.contractId,
+      decimals: token.decimals,
+      description: params.description,
+      expiresAt,
+      cmdId,
+      paymentUri: uri,
+    });
+    const fingerprint = ` (includes a ${formatUnits(amountRaw - requested, token.decimals)} fingerprint; pay the exact amount)`;
+    return `${label} requestId=${requestId} amount=${amount} ${token.symbol}${fingerprint}\n` +
+      `Address: ${address}\nMemo: ${requestId}\nExpires: ${new Date(expiresAt).toISOString()}\nURI: ${uri}\nInvoice: ${this.invoiceUrl(requestId)}`;
+  }
+
+  /** Symbol, decimals and contract (none for native STX) of a PAYMENT_REQUEST token argument. */
+  private async resolvePaymentToken(token: string): Promise<{ symbol: string; decimals: number; contractId?: string }> {
+    const { stacks, sbtc, usdcx } = this.ctx;
+    if (token === "STX") return { symbol: "STX", decimals: AMOUNT_ASSETS.STX.decimals };
+    if (token === "SBTC" || token === "USDCX") {
+      const client = token === "SBTC" ? sbtc : usdcx;
+      if (!client) throw new Error(`${AMOUNT_ASSETS[token].display} integration disabled`);
+      const { address, name } = client.getContractInfo();
+      return { symbol: AMOUNT_ASSETS[token].display, decimals: AMOUNT_ASSETS[token].decimals, contractId: `${address}.${name}` };
+    }
+    if (!stacks) throw new Error("Stacks integration disabled");
+    const [contractAddress, contractName] = token.split(".") as [string, string];
+    const info = await stacks.getSip010Info(contractAddress, contractName);
+    return { symbol: info.symbol, decimals: info.decimals, contractId: token };
+  }
+
+  /** Display symbol and decimals for an incoming transfer's asset; `asset` is set for the priced STX/sBTC/USDCx. */
+  private async inboundToken(assetId: string): Promise<{ symbol: string; decimals: number; asset?: AmountAsset }> {
+    const { stacks, sbtc, usdcx } = this.ctx;
+    if (assetId === "STX") return { symbol: "STX", decimals: AMOUNT_ASSETS.STX.decimals, asset: "STX" };
+    for (const [asset, client] of [["SBTC", sbtc], ["USDCX", usdcx]] as const) {
+      const info = client?.getContractInfo();
+      if (info && `${info.address}.${info.name}` === assetId) {
+        return { symbol: AMOUNT_ASSETS[asset].display, decimals: AMOUNT_ASSETS[asset].decimals, asset };
+      }
+    }
+    const [contractAddress, contractName] = assetId.split(".") as [string, string];
+    try {
+      return await stacks!.getSip010Info(contractAddress, contractName);
+    } catch {
+      return { symbol: contractName, decimals: 0 };
+    }
+  }
+
+  /** "STX" or the token contract a request is paid in; USDCx requests predating token_contract fall back to the client's contract. */
+  private paymentAssetId(request: StacksPaymentRequestRow): string | undefined {
+    if (request.token_contract) return request.token_contract;
+    if (request.token === "STX") return "STX";
+    const info = this.ctx.usdcx?.getContractInfo();
+    return info ? `${info.address}.${info.name}` : undefined;
+  }
+
+  /**
+   * Match pending requests paid to one address against its incoming STX and token transfers, read
+   * back to the oldest request's creation, then expire those past due. Nothing expires when the transfer lookup fails, so a payment that
+   * arrived in time is never lost to an API outage.
+   */
+  private async settlePaymentRequests(requests: StacksPaymentRequestRow[]) {
+    const { repo, stacks } = this.ctx;
+    if (!stacks || requests.length === 0) return;
+    const address = requests[0]!.address;
+    const transfers = await fetchTransfersSince((offset) => stacks.getIncomingTransfers(address, 50, offset), paymentWindowStart(requests));
+    const byId = new Map(requests.map((r) => [r.request_id, r]));
+    const byAsset = new Map<string, StacksPaymentRequestRow[]>();
+    for (const request of requests) {
+      const asset = this.paymentAssetId(request);
+      if (asset) byAsset.set(asset, [...(byAsset.get(asset) ?? []), request]);
+    }
+
+    for (const [asset, group] of byAsset) {
+      const incoming = transfers.filter((t) => t.asset === asset);
+      for (const match of matchPayments(group, incoming, (txid) => repo.isStacksPaymentTxidClaimed(txid))) {
+        const request = byId.get(match.requestId)!;
+        if (!repo.updateStacksPaymentRequestPaid(request.request_id, match.txid)) continue;
+        byId.delete(request.request_id);
+        const details = `${formatUnits(BigInt(request.amount_raw), request.decimals)} ${request.token} for "${request.description}" (${request.request_id})`;
+        await this.audit(request.doc_id, `PAYMENT ${request.request_id} PAID ${match.txid}`);
+        await appendRecentActivityRow({
+          docs: this.ctx.docs,
+          docId: request.doc_id,
+          timestampIso: new Date().toISOString(),
+          type: "PAYMENT RECEIVED",
+          details,
+          tx: match.txid
+        });
+        await this.notePaymentOnCommand(request, `PAID txid=${match.txid}`);
+      }
+    }
+
+    for (const request of byId.values()) {
+      if (Date.now() <= request.expires_at || !repo.expireStacksPaymentRequest(request.request_id)) continue;
+      await this.audit(request.doc_id, `PAYMENT ${request.request_id} EXPIRED`);
+      await this.notePaymentOnCommand(request, "EXPIRED unpaid");
+    }
+  }
+
+  /** Append a payment request's outcome to the RESULT cell of the command that created it. */
+  private async notePaymentOnCommand(request: StacksPaymentRequestRow, note: string) {
+    const cmd = request.cmd_id ? this.ctx.repo.getCommand(request.cmd_id) : undefined;
+    if (!cmd) return;
+    await this.updateDocRow(request.doc_id, cmd.cmd_id, { result: `${cmd.result_text ?? ""}\n${note}`.trim() });
+  }
+
+  /**
+   * AUTO_REBALANCE: when the doc's weights drift from REBALANCE_TARGETS by more than
+   * REBALANCE_BAND, propose the swaps that restore them as PENDING_APPROVAL commands. Nothing is
+   * proposed while an earlier proposal is still open or within REBALANCE_INTERVAL_MS of the last.
+   * Only unlocked STX above REBALANCE_STX_FEE_RESERVE counts toward the STX holding.
+   */
+  private async proposeRebalance(docId: string) {
+    const { docs, repo, config, swap } = this.ctx;
+    if (repo.getDocConfig(docId, "auto_rebalance") !== "1" || !swap) return;
+    const open = (repo.getDocConfig(docId, "rebalance_pending") ?? "").split(",").filter(Boolean);
+    if (open.some((id) => ["PENDING_APPROVAL", "APPROVED", "EXECUTING"].includes(repo.getCommand(id)?.status ?? ""))) return;
+    if (Date.now() - Number(repo.getDocConfig(docId, "rebalance_last_at") ?? 0) < config.REBALANCE_INTERVAL_MS) return;
+
+    const snapshot = this.lastBalances.get(docId);
+    if (!snapshot || Date.now() - snapshot.at > 2 * config.BALANCE_POLL_INTERVAL_MS) return;
+    const { STX: stxTotal, SBTC, USDCX } = snapshot.balances;
+    if (stxTotal === undefined || SBTC === undefined || USDCX === undefined) return;
+    // Stacked STX cannot be sold, and the swaps themselves need fees
+    const stxFree = stxTotal - snapshot.stxLocked - BigInt(config.REBALANCE_STX_FEE_RESERVE);
+    const STX = stxFree > 0n ? stxFree : 0n;
+    const prices = { STX: this.usdPrice("STX"), SBTC: this.usdPrice("SBTC"), USDCX: this.usdPrice("USDCX") };
+    if (!prices.STX || !prices.SBTC || !prices.USDCX) return;
+
+    const tables = await loadDocWalletTables({ docs, docId });
+    const configMap = readConfig(tables.config.table);
+    const targets = parseRebalanceTargets(configMap["REBALANCE_TARGETS"]?.value ?? "");
+    if (!targets.ok) {
+      console.warn(`[rebalance] ${docId.slice(0, 8)}: ${targets.error}`);
+      return;
+    }
+    const bandText = configMap["REBALANCE_BAND"]?.value?.trim();
+    const band = bandText ? parseDriftBand(bandText) : 5;
+    if (band === null) {
+      console.warn(`[rebalance] ${docId.slice(0, 8)}: invalid REBALANCE_BAND '${bandText}'`);
+      return;
+    }
+
+    const plan = planRebalance({
+      balances: { STX, SBTC, USDCX },
+      prices: { STX: prices.STX, SBTC: prices.SBTC, USDCX: prices.USDCX },
+      targets: targets.value
+    });
+    if (!plan || plan.maxDriftPct <= band || plan.swaps.length === 0) return;
+
+    const reasoning = describeRebalance(plan, band);
+    const cmdIds: string[] = [];
+    for (const leg of plan.swaps) {
+      const rawCommand = `DW SWAP ${formatUnits(leg.amountIn, AMOUNT_ASSETS[leg.fromAsset].decimals)} ${leg.fromAsset} ${leg.toAsset}`;
+      const parsed = parseCommand(rawCommand);
+      if (!parsed.ok) {
+        console.error(`[rebalance] ${docId.slice(0, 8)}: ${parsed.error}`);
+        continue;
+      }
+      const cmdId = generateCmdId(docId, `rebalance:${Date.now()}:${rawCommand}`);
+      const decision = this.checkPolicy(docId, configMap, parsed.value);
+      const status = decision.ok ? "PENDING_APPROVAL" : "REJECTED_POLICY";
+      const result = `Auto-rebalance ($${leg.usd.toFixed(2)}): ${reasoning}`;
+      repo.upsertCommand({
+        cmd_id: cmdId,
+        doc_id: docId,
+        raw_command: rawCommand,
+        parsed_json: JSON.stringify(parsed.value, (_k, v) => typeof v === "bigint" ? v.toString() : v),
+        status,
+        yellow_intent_id: null,
+        sui_tx_digest: null,
+        arc_tx_hash: null,
+        result_text: result,
+        error_text: decision.ok ? null : decision.reason
+      }, { source: "agent", actor: "auto-rebalance", detail: reasoning });
+      await appendCommandRow({
+        docs,
+        docId,
+        id: cmdId,
+        command: rawCommand,
+        status,
+        approvalUrl: decision.ok ? this.approvalUrl(docId, cmdId) : "",
+        result,
+        error: decision.ok ? "" : decision.reason
+      });
+      cmdIds.push(cmdId);
+    }
+    if (cmdIds.length === 0) return;
+
+    repo.setDocConfig(docId, "rebalance_pending", cmdIds.join(","));
+    repo.setDocConfig(docId, "rebalance_last_at", String(Date.now()));
+    repo.insertAgentActivity(docId, "REBALANCE", reasoning);
+    await this.audit(docId, `REBALANCE proposed ${cmdIds.join(", ")}: ${reasoning}`);
+    if (configMap["LAST_PROPOSAL"]) {
+      await writeConfigValue({
+        docs,
+        docId,
+        configTable: tables.config.table,
+        key: "LAST_PROPOSAL",
+        value: `${new Date().toISOString()} REBALANCE ${cmdIds.join(", ")}: ${reasoning}`
+      });
+    }
+  }
+
+  /** Mirror PRICE_<PAIR> overrides from the Config table into doc_config for the manual price source. */
+  private async syncPriceOverrides(docId: string, configMap: Record<string, { value: string }>) {
+    const { repo } = this.ctx;
+    for (const pair of ["STX/USD", "BTC/USD"] as const) {
+      const key = priceOverrideKey(pair);
+      const value = configMap[key]?.value?.trim() ?? "";
+      const current = repo.getDocConfig(docId, key);
+      if (Number(value) > 0) {
+        if (current === value) continue;
+        repo.setDocConfig(docId, key, value);
+        await this.audit(docId, `PRICE override ${pair} = $${value}`);
+      } else if (current !== undefined) {
+        repo.deleteDocConfig(docId, key);
+        await this.audit(docId, `PRICE override ${pair} cleared`);
+      }
+    }
+  }
+
+  /** Move PENDING_APPROVAL commands older than the doc's APPROVAL_TTL_HOURS (0 disables) to EXPIRED. */
+  private async expireStaleApprovals(docId: string, configMap: Record<string, { value: string }>) {
+    const { repo, config } = this.ctx;
+    const raw = configMap["APPROVAL_TTL_HOURS"]?.value?.trim();
+    const ttlHours = raw && /^\d+(\.\d+)?$/.test(raw) ? Number(raw) : config.APPROVAL_TTL_HOURS;
+    if (ttlHours <= 0) return;
+
+    for (const cmd of repo.listExpiredApprovals(docId, ttlHours * 3600_000)) {
+      const reason = `Approval window expired (${ttlHours}h)`;
+      if (!repo.setCommandStatus(cmd.cmd_id, "EXPIRED", { source: "system", actor: "approval-ttl", errorText: reason })) continue;
+      await this.updateDocRow(docId, cmd.cmd_id, { status: "EXPIRED", approvalUrl: "", error: reason });
+      await this.audit(docId, `${cmd.cmd_id} EXPIRED (${reason})`);
+    }
+  }
+
+  /**
+   * Follow broadcast txids until the chain settles them. EXECUTED only means "broadcast";
+   * CONFIRMED means the tx was mined with an (ok ...) result, ABORTED that it failed or was dropped.
+   */
+  async confirmationTick() {
+    if (this.confirmationRunning) return;
+    this.confirmationRunning = true;
+    try {
+      const { repo, stacks, config } = this.ctx;
+      if (!stacks) return;
+      // Signed commands whose settlement lookup failed; skipped while the executor may be mid-broadcast.
+      if (!this.executorRunning) {
+        for (const cmd of repo.listCommandsByStatus("EXECUTING")) {
+          if (cmd.arc_tx_hash) await this.settleSignedCommand(cmd, "tx-tracker");
+        }
+      }
+      for (const cmd of repo.listUnconfirmedCommands()) {
+        const txId = cmd.arc_tx_hash!;
+        let tx: Awaited<ReturnType<StacksClient["getTransactionStatus"]>>;
+        try {
+          tx = await stacks.getTransactionStatus(txId);
+        } catch (err) {
+          console.warn(`[confirm] ${cmd.cmd_id} status lookup failed for ${txId}:`, (err as Error).message);
+          continue;
+        }
+
+        const pending = tx.status === "pending" || (tx.status === "not_found" && Date.now() - cmd.updated_at < config.TX_DROP_TIMEOUT_MS);
+        repo.upsertTxConfirmation({
+          cmdId: cmd.cmd_id,
+          docId: cmd.doc_id,
+          txId,
+          txStatus: tx.status,
+          blockHeight: tx.block_height,
+          feeMicroStx: tx.fee_micro_stx,
+          txResult: tx.tx_result,
+          finalized: !pending
+        });
+        if (pending) continue;
+
+        const details = [
+          tx.block_height !== undefined ? `block #${tx.block_height}` : "",
+          tx.fee_micro_stx ? `fee ${describeAmount(tx.fee_micro_stx, "STX")}` : "",
+          tx.tx_result ? `result ${tx.tx_result}` : ""
+        ].filter(Boolean).join(", ");
+        const type = cmd.parsed_json ? (JSON.parse(cmd.parsed_json) as ParsedCommand).type : "COMMAND";
+
+        if (tx.status === "success") {
+          const resultText = `${cmd.result_text ?? ""}\nCONFIRMED ${details}`.trim();
+          if (!repo.setCommandStatus(cmd.cmd_id, "CONFIRMED", { source: "system", actor: "tx-tracker", resultText, detail: details })) continue;
+          await this.updateDocRow(cmd.doc_id, cmd.cmd_id, { status: "CONFIRMED", result: resultText, error: "" });
+          await this.audit(cmd.doc_id, `${cmd.cmd_id} CONFIRMED ${txId} (${details})`);
+          await appendRecentActivityRow({
+            docs: this.ctx.docs,
+            docId: cmd.doc_id,
+            timestampIso: new Date().toISOString(),
+            type: `${type} CONFIRMED`,
+            details,
+            tx: txId
+          });
+        } else {
+          const reason = tx.status === "not_found"
+            ? `Transaction ${txId} not seen by the network after ${Math.round(config.TX_DROP_TIMEOUT_MS / 60_000)} min (dropped)`
+            : `Transaction ${txId} ${tx.status}${details ? ` (${details})` : ""}`;
+          if (!repo.setCommandStatus(cmd.cmd_id, "ABORTED", { source: "system", actor: "tx-tracker", errorText: reason, detail: tx.status })) continue;
+          await this.updateDocRow(cmd.doc_id, cmd.cmd_id, { status: "ABORTED", error: reason });
+          await this.audit(cmd.doc_id, `${cmd.cmd_id} ABORTED (${reason})`);
+          await appendRecentActivityRow({
+            docs: this.ctx.docs,
+            docId: cmd.doc_id,
+            timestampIso: new Date().toISOString(),
+            type: `${type} ABORTED`,
+            details: reason,
+            tx: txId
+          });
+        }
+      }
+    } finally {
+      this.confirmationRunning = false;
+    }
+  }
+
   private async updateDocRow(
     docId: string,
     cmdId: string,
-    updates: { status?: string; result?: string; error?: string }
+    updates: { status?: string; approvalUrl?: string; result?: string; error?: string }
   ) {
     const tables = await loadDocWalletTables({ docs: this.ctx.docs, docId });
     const rows = readCommandsTable(tables.commands.table);
@@ -985,10 +2188,32 @@ export class Engine {
       docId,
       commandsTable: tables.commands.table,
       rowIndex: row.rowIndex,
-      updates: { status: updates.status, result: updates.result, error: updates.error }
+      updates: { status: updates.status, approvalUrl: updates.approvalUrl, result: updates.result, error: updates.error }
     });
   }
 
+  /**
+   * Signed, expiring link written into the APPROVAL_URL cell. Anyone who can read the doc can open
+   * it, so with signers it only leads to the decision page; each signer's decision counts only with
+   * their SIP-018 signature.
+   */
+  private approvalUrl(docId: string, cmdId: string): string {
+    const { config } = this.ctx;
+    return buildApprovalUrl({
+      publicBaseUrl: config.PUBLIC_BASE_URL ?? `http://localhost:${config.HTTP_PORT}`,
+      secret: this.approvalSecret,
+      docId,
+      cmdId,
+      ttlMs: config.APPROVAL_LINK_TTL_MS
+    });
+  }
+
+  /** Public invoice page for a payment request, shareable with the payer. */
+  private invoiceUrl(requestId: string): string {
+    const { config } = this.ctx;
+    return `${config.PUBLIC_BASE_URL ?? `http://localhost:${config.HTTP_PORT}`}/pay/${encodeURIComponent(requestId)}`;
+  }
+
   private async updateRowByIndex(
     docId: string,
     rowIndex: number,
@@ -1024,15 +2249,67 @@ function generateCmdId(docId: string, raw: string): string {
   return `cmd_${now}_${h}`;
 }
 
-function parseClarityArg(arg: string) {
-  // Number → uint
+function describeSignerSet(repo: Repo, docId: string): string {
+  const signers = repo.listSigners(docId);
+  const quorum = repo.getDocQuorum(docId);
+  if (signers.length === 0) return `quorum=${quorum} signers=(none — single approval)`;
+  const total = signers.reduce((a, s) => a + s.weight, 0);
+  return `quorum=${quorum}/${total} signers=${signers.map((s) => `${s.address}:${s.weight}`).join(", ")}`;
+}
+
+/** Typed literal from parseCommand; plain strings are rows stored before typed Clarity syntax. */
+function toClarityArg(arg: ClarityLiteral | string) {
+  if (typeof arg !== "string") return toClarityValue(arg);
   if (/^\d+$/.test(arg)) return uintCV(BigInt(arg));
-  // Stacks address → principal
   if (/^(SP|ST)[A-Z0-9]{38,}/i.test(arg)) return principalCV(arg);
-  // Default → string-ascii
   return stringAsciiCV(arg);
 }
 
+/**
+ * Recipient of CANCEL_TX's replacement transfer: the boot address, which nobody holds a key for.
+ * Nodes reject a transfer of 0 uSTX or to the sender itself, so cancelling costs 1 uSTX plus the
+ * bumped fee.
+ */
+const CANCEL_RECIPIENT = { mainnet: "SP000000000000000000002Q6VF78", testnet: "ST000000000000000000002AMW42H" } as const;
+
+/** Commands that create conditional orders, which fill with a swap when triggered. */
+const ORDER_COMMANDS = new Set<ParsedCommand["type"]>(["STX_STOP_LOSS", "STX_TAKE_PROFIT", "TRAILING_STOP", "OCO", "LIMIT_BUY"]);
+
+/** Commands SPEED_UP can re-sign at the same nonce. */
+const REPLACEABLE_COMMANDS = new Set<ParsedCommand["type"]>(["STX_SEND", "SBTC_SEND", "USDCX_SEND", "USDCX_APPROVE", "CONTRACT_CALL", "SWAP"]);
+
+/** "STX 12.5 → 10.998 (INSUFFICIENT)" for a dry-run balance line. */
+function balanceChange(asset: AmountAsset, balance: bigint, outflow: bigint): string {
+  const spec = AMOUNT_ASSETS[asset];
+  const after = balance - outflow;
+  return `${spec.display} ${formatUnits(balance, spec.decimals)} → ${formatUnits(after, spec.decimals)}${after < 0n ? " (INSUFFICIENT)" : ""}`;
+}
+
+/** Restore BigInt values serialized as strings in parsed_json. */
+function restoreBigInts(parsed: ParsedCommand): ParsedCommand {
+  if (parsed.type === "SIMULATE") restoreBigInts(parsed.command);
+  if (parsed.type === "SWAP") parsed.amountIn = BigInt(parsed.amountIn);
+  if ("amountMicroStx" in parsed) (parsed as any).amountMicroStx = BigInt((parsed as any).amountMicroStx);
+  if ("amountSats" in parsed) (parsed as any).amountSats = BigInt((parsed as any).amountSats);
+  if ("amount" in parsed && typeof (parsed as any).amount === "string" && parsed.type.startsWith("USDCX")) {
+    (parsed as any).amount = BigInt((parsed as any).amount);
+  }
+  return parsed;
+}
+
+function describePaymentRequest(r: StacksPaymentRequestRow): string {
+  const amount = `${formatUnits(BigInt(r.amount_raw), r.decimals)} ${r.token}`;
+  const settled = r.status === "paid" ? ` txid=${r.paid_txid}`
+    : r.status === "pending" ? ` expires ${new Date(r.expires_at).toISOString()}`
+    : "";
+  return `${r.request_id} ${r.status.toUpperCase()} ${amount} "${r.description}"${settled}`;
+}
+
+/** USD price to six significant digits, without exponent notation for ordinary prices. */
+function usdText(price: number): string {
+  return String(Number(price.toPrecision(6)));
+}
+
 function reconstructDwCommand(cmd: ParsedCommand): string | null {
   switch (cmd.type) {
     case "SETUP": return "DW SETUP";
@@ -1040,16 +2317,26 @@ function reconstructDwCommand(cmd: ParsedCommand): string | null {
     case "TREASURY": return "DW TREASURY";
     case "SCHEDULE": return `DW SCHEDULE EVERY ${cmd.intervalHours}h: ${cmd.innerCommand}`;
     case "CANCEL_SCHEDULE": return `DW CANCEL_SCHEDULE ${cmd.scheduleId}`;
-    case "ALERT_THRESHOLD": return `DW ALERT_THRESHOLD ${cmd.coinType} ${cmd.below}`;
+    case "ALERT_THRESHOLD": return `DW ALERT_THRESHOLD ${cmd.coinType} ${cmd.usd ? "$" : ""}${cmd.below}`;
+    case "ALERTS": return cmd.clear ? "DW ALERTS CLEAR" : "DW ALERTS";
     case "AUTO_REBALANCE": return `DW AUTO_REBALANCE ${cmd.enabled ? "ON" : "OFF"}`;
     case "CANCEL_ORDER": return `DW CANCEL_ORDER ${cmd.orderId}`;
+    case "SIGNER_ADD": return `DW SIGNER_ADD ${cmd.signerId} ${cmd.weight}`;
+    case "SIGNER_REMOVE": return `DW SIGNER_REMOVE ${cmd.signerId}`;
+    case "QUORUM": return `DW QUORUM ${cmd.quorum}`;
+    case "SIGNERS": return "DW SIGNERS";
     // STX
     case "STX_PRICE": return "DW STX_PRICE";
+    case "PRICE": return `DW PRICE ${cmd.pair.split("/")[0]} ${formatPriceRange(cmd.rangeMs)}`;
     case "STX_BALANCE": return "DW STX_BALANCE";
     case "STX_SEND": return `DW STX_SEND ${cmd.to} ${cmd.amountMicroStx.toString()}`;
     case "STX_HISTORY": return `DW STX_HISTORY ${cmd.limit}`;
     case "STX_STOP_LOSS": return `DW STX_STOP_LOSS ${cmd.qty} @ ${cmd.triggerPrice}`;
     case "STX_TAKE_PROFIT": return `DW STX_TAKE_PROFIT ${cmd.qty} @ ${cmd.triggerPrice}`;
+    case "TRAILING_STOP": return `DW TRAILING_STOP ${cmd.qty} ${cmd.asset} ${cmd.trailPct !== undefined ? `${cmd.trailPct}%` : `$${cmd.trailAbs}`}`;
+    case "OCO": return `DW OCO ${cmd.qty} ${cmd.asset} SL ${cmd.stopPrice} TP ${cmd.takeProfitPrice}`;
+    case "LIMIT_BUY": return `DW LIMIT_BUY ${cmd.qty} ${cmd.asset} @ ${cmd.limitPrice}`;
+    case "SWAP": return `DW SWAP ${formatUnits(cmd.amountIn, AMOUNT_ASSETS[cmd.fromAsset].decimals)} ${cmd.fromAsset} ${cmd.toAsset} ${cmd.maxSlippageBps / 100}%`;
     // sBTC
     case "SBTC_BALANCE": return "DW SBTC_BALANCE";
     case "SBTC_SEND": return `DW SBTC_SEND ${cmd.to} ${cmd.amountSats.toString()}`;
@@ -1059,15 +2346,25 @@ function reconstructDwCommand(cmd: ParsedCommand): string | null {
     case "USDCX_SEND": return `DW USDCX_SEND ${cmd.to} ${cmd.amount.toString()}`;
     case "USDCX_APPROVE": return `DW USDCX_APPROVE ${cmd.spender} ${cmd.amount.toString()}`;
     case "USDCX_PAYMENT": return `DW USDCX_PAYMENT ${cmd.amount} ${cmd.description}`;
+    case "PAYMENT_REQUEST": return `DW PAYMENT_REQUEST ${cmd.amount} ${cmd.token} ${cmd.description}${cmd.expiresInMs ? ` ${formatPriceRange(cmd.expiresInMs)}` : ""}`;
+    case "PAYMENT_CHECK": return `DW PAYMENT_CHECK ${cmd.requestId}`;
+    case "PAYMENTS": return `DW PAYMENTS${cmd.status ? ` ${cmd.status === "pending" ? "open" : cmd.status}` : ""}`;
     // x402
     case "X402_CALL": return `DW X402_CALL ${cmd.url} ${cmd.method}`;
     case "X402_STATUS": return `DW X402_STATUS ${cmd.txid}`;
     // Contracts
-    case "CONTRACT_CALL": return `DW CONTRACT_CALL ${cmd.contractAddress}.${cmd.contractName} ${cmd.functionName}${cmd.args.length ? " " + cmd.args.join(" ") : ""}`;
-    case "CONTRACT_READ": return `DW CONTRACT_READ ${cmd.contractAddress}.${cmd.contractName} ${cmd.functionName}${cmd.args.length ? " " + cmd.args.join(" ") : ""}`;
+    case "CONTRACT_CALL": return `DW CONTRACT_CALL ${cmd.contractAddress}.${cmd.contractName} ${cmd.functionName}${cmd.args.map((a) => " " + formatClarityLiteral(a)).join("")}${cmd.postConditions ? ` POST ${cmd.postConditions.map(formatPostCondition).join("; ")}` : ""}`;
+    case "CONTRACT_INFO": return `DW CONTRACT_INFO ${cmd.contractAddress}.${cmd.contractName}`;
+    case "CONTRACT_READ": return `DW CONTRACT_READ ${cmd.contractAddress}.${cmd.contractName} ${cmd.functionName}${cmd.args.map((a) => " " + formatClarityLiteral(a)).join("")}`;
     // Stacking
     case "STACK_STX": return `DW STACK_STX ${cmd.amountStx} ${cmd.cycles}`;
     case "STACK_STATUS": return "DW STACK_STATUS";
+    case "SPEED_UP": return `DW SPEED_UP ${cmd.txid}${cmd.feeTier ? ` FEE=${cmd.feeTier}` : ""}`;
+    case "CANCEL_TX": return `DW CANCEL_TX ${cmd.txid}${cmd.feeTier ? ` FEE=${cmd.feeTier}` : ""}`;
+    case "SIMULATE": {
+      const inner = reconstructDwCommand(cmd.command);
+      return inner ? inner.replace(/^DW /, "DW SIMULATE ") : null;
+    }
     default: return null;
   }
 }
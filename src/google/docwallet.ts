@@ -310,6 +310,65 @@ export async function updateChatRowCells(params: {
   await batchUpdateDoc({ docs, docId, requests });
 }
 
+/** Post an agent-initiated message (e.g. an alert) as a new Chat row; `user` labels its origin. */
+export async function appendChatRow(params: {
+  docs: docs_v1.Docs;
+  docId: string;
+  user: string;
+  agent: string;
+}) {
+  const { docs, docId, user, agent } = params;
+
+  // Retry-aware table insertion: indices can shift if concurrent doc edits occur
+  let retries = 2;
+  while (true) {
+    try {
+      const tables = await loadDocWalletTables({ docs, docId });
+      const table = tables.chat.table;
+      const startIndex = tables.chat.tableStartIndex;
+      const rowCount = (table.tableRows ?? []).length;
+      const lastRowIndex = Math.max(0, rowCount - 1);
+
+      await batchUpdateDoc({
+        docs,
+        docId,
+        requests: [
+          {
+            insertTableRow: {
+              tableCellLocation: { tableStartLocation: { index: startIndex }, rowIndex: lastRowIndex, columnIndex: 0 },
+              insertBelow: true
+            }
+          }
+        ]
+      });
+      break; // success
+    } catch (err) {
+      if (retries-- > 0 && String(err).includes("Invalid")) {
+        invalidateTemplateCache(docId);
+        await new Promise(r => setTimeout(r, 500));
+        continue;
+      }
+      throw err;
+    }
+  }
+
+  const tables2 = await loadDocWalletTables({ docs, docId });
+  const newRow = (tables2.chat.table.tableRows ?? []).at(-1);
+  const c0 = newRow?.tableCells?.[0];
+  const c1 = newRow?.tableCells?.[1];
+  if (!c0 || !c1) return;
+
+  const chatReqs = [
+      { sortIndex: tableCellStartIndex(c0) ?? 0, requests: buildWriteCellRequests({ cell: c0, text: user }) },
+      { sortIndex: tableCellStartIndex(c1) ?? 0, requests: buildWriteCellRequests({ cell: c1, text: agent }) }
+    ]
+      .sort((a, b) => b.sortIndex - a.sortIndex)
+      .flatMap((g) => g.requests);
+  if (chatReqs.length > 0) {
+    await batchUpdateDoc({ docs, docId, requests: chatReqs });
+  }
+}
+
 export type SessionRow = {
   rowIndex: number;
   sessionId: string;
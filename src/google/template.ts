@@ -636,6 +636,7 @@ async function populateTemplateTables(params: {
     ["LAST_PROPOSAL", ""],
     ["LAST_APPROVAL", ""],
     ["DEMO_MODE", "0"],
+    ["APPROVAL_TTL_HOURS", "24"],
   ];
 
   for (let i = 0; i < cfgKeys.length; i++) {
@@ -723,7 +724,7 @@ function buildPopulateRequests(doc: docs_v1.Schema$Document, docId: string, only
       ["BCH_ADDRESS", ""], ["BCH_NETWORK", "chipnet"],
       ["APPROVALS_TOTAL", "0"], ["EST_APPROVAL_TX_AVOIDED", "0"], ["SIGNER_APPROVAL_GAS_PAID", "0.003"],
       ["DOC_CELL_APPROVALS", "1"], ["AGENT_AUTOPROPOSE", "1"], ["LAST_PROPOSAL", ""],
-      ["LAST_APPROVAL", ""], ["DEMO_MODE", "0"],
+      ["LAST_APPROVAL", ""], ["DEMO_MODE", "0"], ["APPROVAL_TTL_HOURS", "24"],
     ];
     for (let i = 0; i < cfgKeys.length; i++) {
       const row = cfg[i + 1];
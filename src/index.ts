@@ -5,10 +5,16 @@ import { Repo } from "./db/repo.js";
 import { Engine } from "./engine.js";
 import { HederaClient } from "./integrations/hedera.js";
 import { startServer } from "./server.js";
+import { deriveApprovalSecret } from "./core/approval.js";
 import { StacksClient } from "./integrations/stacks.js";
 import { SbtcClient } from "./integrations/sbtc.js";
 import { UsdcxClient } from "./integrations/usdcx.js";
 import { X402Client } from "./integrations/x402.js";
+import { MockSwapAdapter, RouterSwapAdapter } from "./integrations/swap.js";
+import type { SwapAdapter } from "./integrations/swap.js";
+import { CoinGeckoPriceSource, OnChainOraclePriceSource, PriceOracle } from "./integrations/prices.js";
+import type { PriceSource } from "./integrations/prices.js";
+import { NonceManager } from "./wallet/nonces.js";
 
 async function main() {
   const config = loadConfig();
@@ -37,12 +43,14 @@ async function main() {
   let sbtc: SbtcClient | undefined;
   let usdcx: UsdcxClient | undefined;
   let x402: X402Client | undefined;
+  let swap: SwapAdapter | undefined;
   if (config.STACKS_ENABLED) {
     try {
       const apiUrl = config.STACKS_API_URL || (config.STX_NETWORK === "mainnet"
         ? "https://api.hiro.so"
         : "https://api.testnet.hiro.so");
       stacks = new StacksClient({ network: config.STX_NETWORK, apiUrl });
+      stacks.setNonceManager(new NonceManager(repo));
       console.log(`[startup] Stacks client initialized (${config.STX_NETWORK}, API: ${apiUrl})`);
     } catch (e) {
       console.error("[startup] Stacks client init failed:", (e as Error).message);
@@ -77,9 +85,49 @@ async function main() {
         console.error("[startup] x402 client init failed:", (e as Error).message);
       }
     }
+
+    if (stacks && config.SWAP_ROUTER === "mock") {
+      swap = new MockSwapAdapter((asset) =>
+        asset === "USDCX" ? 1 : repo.getPrice(asset === "STX" ? "STX/USD" : "BTC/USD")?.mid_price
+      );
+      console.log("[startup] Swap adapter: mock router (no funds move)");
+    } else if (stacks && config.SWAP_ROUTER) {
+      try {
+        const tokenId = (c?: { getContractInfo(): { address: string; name: string } }) =>
+          c ? `${c.getContractInfo().address}.${c.getContractInfo().name}` : undefined;
+        const router = new RouterSwapAdapter({
+          network: config.STX_NETWORK,
+          router: config.SWAP_ROUTER,
+          tokens: { STX: config.SWAP_STX_TOKEN, SBTC: tokenId(sbtc), USDCX: tokenId(usdcx) }
+        });
+        router.setStacksClient(stacks);
+        swap = router;
+        console.log(`[startup] Swap adapter: router ${config.SWAP_ROUTER}`);
+      } catch (e) {
+        console.error("[startup] Swap adapter init failed:", (e as Error).message);
+      }
+    }
+  }
+
+  const priceSources: PriceSource[] = [];
+  if (stacks) {
+    priceSources.push(new CoinGeckoPriceSource(stacks));
+    if (config.PRICE_ORACLE_CONTRACT) {
+      try {
+        priceSources.push(new OnChainOraclePriceSource(stacks, config.PRICE_ORACLE_CONTRACT));
+      } catch (e) {
+        console.error("[startup] Price oracle init failed:", (e as Error).message);
+      }
+    }
   }
+  const prices = new PriceOracle(repo, priceSources, {
+    maxAgeMs: config.PRICE_MAX_AGE_SECONDS * 1000,
+    maxDeviationPct: config.PRICE_MAX_DEVIATION_PCT,
+    minSources: config.PRICE_MIN_SOURCES
+  });
+  console.log(`[startup] Price sources: ${prices.sourceNames.join(", ")}`);
 
-  const engine = new Engine({ config, docs, drive, repo, hedera, stacks, sbtc, usdcx, x402 });
+  const engine = new Engine({ config, docs, drive, repo, hedera, stacks, sbtc, usdcx, x402, swap, prices });
 
   const publicBaseUrl = config.PUBLIC_BASE_URL ?? `http://localhost:${config.HTTP_PORT}`;
   startServer({
@@ -88,6 +136,8 @@ async function main() {
     masterKey: config.DOCWALLET_MASTER_KEY,
     port: config.HTTP_PORT,
     publicBaseUrl,
+    approvalSecret: deriveApprovalSecret(config.DOCWALLET_MASTER_KEY, config.APPROVAL_SECRET),
+    stxNetwork: config.STX_NETWORK,
     demoMode: config.DEMO_MODE
   });
 
@@ -98,6 +148,7 @@ async function main() {
     Promise.race([p, new Promise<void>((_, rej) => setTimeout(() => rej(new Error("timeout")), ms))])
       .catch((e) => console.error(`[startup] ${label} failed (will retry on schedule):`, (e as Error).message));
 
+  withTimeout(engine.reconcileExecutingCommands(), "reconcileExecutingCommands");
   withTimeout(engine.discoveryTick(), "discoveryTick");
   withTimeout(engine.pollTick(), "pollTick");
 
@@ -123,12 +174,15 @@ async function main() {
   setInterval(trackedTick("discoveryTick", () => engine.discoveryTick()), config.DISCOVERY_INTERVAL_MS);
   setInterval(trackedTick("pollTick", () => engine.pollTick()), config.POLL_INTERVAL_MS);
   setInterval(trackedTick("executorTick", () => engine.executorTick()), 5_000);
+  setInterval(trackedTick("confirmationTick", () => engine.confirmationTick()), config.CONFIRMATION_INTERVAL_MS);
   setInterval(trackedTick("chatTick", () => engine.chatTick()), Math.max(15_000, config.POLL_INTERVAL_MS));
   setInterval(trackedTick("balancesTick", () => engine.balancesTick()), config.BALANCE_POLL_INTERVAL_MS);
   setInterval(trackedTick("schedulerTick", () => engine.schedulerTick()), config.SCHEDULER_INTERVAL_MS);
   setInterval(trackedTick("agentDecisionTick", () => engine.agentDecisionTick()), 60_000);
   setInterval(trackedTick("priceTick", () => engine.priceTick()), 30_000);
   setInterval(trackedTick("payoutRulesTick", () => engine.payoutRulesTick()), 60_000);
+  setInterval(trackedTick("paymentWatcherTick", () => engine.paymentWatcherTick()), config.PAYMENT_POLL_INTERVAL_MS);
+  setInterval(trackedTick("inboundTransfersTick", () => engine.inboundTransfersTick()), config.INBOUND_POLL_INTERVAL_MS);
 
   process.on("SIGINT", () => {
     repo.close();
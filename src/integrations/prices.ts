@@ -0,0 +1,143 @@
+/**
+ * Price oracle: gathers quotes for a pair from every configured source, aggregates them with
+ * staleness and outlier checks (see core/prices.ts) and records accepted prices in price_cache
+ * and price_history.
+ *
+ * OnChainOraclePriceSource reads a contract exposing
+ *   (define-read-only (get-price (pair (string-ascii 16)))
+ *     (response { price: uint, decimals: uint, timestamp: uint } uint))
+ * where `timestamp` is the unix time (seconds) of the oracle's last update.
+ * ManualPriceSource returns an override typed into a doc's Config table (PRICE_STX_USD,
+ * PRICE_BTC_USD); it only ever prices that doc's orders and commands (PriceOracle.forDoc), and
+ * an order can only trigger while some other source is fresh too.
+ */
+import { cvToJSON, stringAsciiCV } from "@stacks/transactions";
+import { aggregatePrices } from "../core/prices.js";
+import type { AggregatePolicy, AggregateResult, PricePair, PriceQuote } from "../core/prices.js";
+import type { Repo } from "../db/repo.js";
+import type { StacksClient } from "./stacks.js";
+
+export interface PriceSource {
+  readonly name: string;
+  /** null when the source has no price for the pair right now. */
+  getQuote(pair: PricePair): Promise<PriceQuote | null>;
+}
+
+export class CoinGeckoPriceSource implements PriceSource {
+  readonly name = "coingecko";
+
+  constructor(private stacks: StacksClient) {}
+
+  async getQuote(pair: PricePair): Promise<PriceQuote | null> {
+    const price = pair === "STX/USD" ? await this.stacks.getStxPrice() : await this.stacks.getBtcPrice();
+    return price && price > 0 ? { source: this.name, price, at: Date.now() } : null;
+  }
+}
+
+export class OnChainOraclePriceSource implements PriceSource {
+  readonly name: string;
+  private contractAddress: string;
+  private contractName: string;
+
+  constructor(private stacks: StacksClient, contractId: string) {
+    const [address, name] = contractId.split(".");
+    if (!address || !name) throw new Error(`Invalid price oracle contract '${contractId}'`);
+    this.name = `oracle:${name}`;
+    this.contractAddress = address;
+    this.contractName = name;
+  }
+
+  async getQuote(pair: PricePair): Promise<PriceQuote | null> {
+    const result = await this.stacks.contractRead({
+      contractAddress: this.contractAddress,
+      contractName: this.contractName,
+      functionName: "get-price",
+      functionArgs: [stringAsciiCV(pair)],
+      senderAddress: this.contractAddress,
+    });
+    const json = cvToJSON(result);
+    if (json?.success === false) return null;
+    const tuple = json?.value?.value;
+    const raw = Number(tuple?.price?.value ?? 0);
+    const decimals = Number(tuple?.decimals?.value ?? 0);
+    const timestamp = Number(tuple?.timestamp?.value ?? 0);
+    if (!(raw > 0) || !(timestamp > 0)) return null;
+    return { source: this.name, price: raw / 10 ** decimals, at: timestamp * 1000 };
+  }
+}
+
+/** Source name of a doc's Config table override in an AggregateResult's quotes. */
+export const MANUAL_PRICE_SOURCE = "manual";
+
+/** Config table key holding a manual override for a pair, e.g. PRICE_STX_USD. */
+export function priceOverrideKey(pair: PricePair): string {
+  return `PRICE_${pair.replace("/", "_")}`;
+}
+
+/**
+ * One doc's override, mirrored from its Config table into doc_config by the engine. The quote
+ * is dated when the override was last set, so it goes stale after PRICE_MAX_AGE_SECONDS like
+ * any other source.
+ */
+export class ManualPriceSource implements PriceSource {
+  readonly name = MANUAL_PRICE_SOURCE;
+
+  constructor(private repo: Repo, private docId: string) {}
+
+  async getQuote(pair: PricePair): Promise<PriceQuote | null> {
+    const key = priceOverrideKey(pair);
+    const row = this.repo.listDocConfig(this.docId).find((r) => r.key === key);
+    const price = Number(row?.value);
+    return row && price > 0 ? { source: this.name, price, at: row.updated_at } : null;
+  }
+}
+
+export class PriceOracle {
+  constructor(
+    private repo: Repo,
+    private sources: PriceSource[],
+    private policy: AggregatePolicy
+  ) {}
+
+  private lastQuotes = new Map<PricePair, PriceQuote[]>();
+  private lastResults = new Map<PricePair, AggregateResult>();
+
+  get sourceNames(): string[] {
+    return this.sources.map((s) => s.name);
+  }
+
+  /** Query every source and, when they agree, cache the price and append it to the history. */
+  async refresh(pair: PricePair): Promise<AggregateResult> {
+    const quotes = await Promise.all(
+      this.sources.map(async (source) => {
+        try {
+          return await source.getQuote(pair);
+        } catch (err) {
+          console.warn(`[prices] ${source.name} ${pair} failed: ${(err as Error).message}`);
+          return null;
+        }
+      })
+    );
+    const received = quotes.filter((q): q is PriceQuote => q !== null);
+    const result = aggregatePrices(received, this.policy);
+    this.lastQuotes.set(pair, received);
+    this.lastResults.set(pair, result);
+    if (!result.ok) return result;
+
+    const names = result.used.map((q) => q.source);
+    this.repo.upsertPrice(pair, result.price, result.price * 0.999, result.price * 1.001, names.join(","));
+    this.repo.insertPriceHistory(pair, result.price, names);
+    return result;
+  }
+
+  /**
+   * A doc's view of the last refresh: the shared quotes plus the doc's own override, if it set
+   * one. Doc-specific results are never cached or written to the shared history.
+   */
+  async forDoc(docId: string, pair: PricePair): Promise<AggregateResult> {
+    const override = await new ManualPriceSource(this.repo, docId).getQuote(pair);
+    const shared = this.lastResults.get(pair) ?? { ok: false, error: "No price yet", rejected: [] };
+    if (!override) return shared;
+    return aggregatePrices([...(this.lastQuotes.get(pair) ?? []), override], this.policy);
+  }
+}
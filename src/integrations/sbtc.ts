@@ -10,10 +10,12 @@ import {
   principalCV,
   bufferCV,
   PostConditionMode,
+  getAddressFromPrivateKey,
   cvToJSON,
   type ClarityValue,
 } from "@stacks/transactions";
-import type { StacksClient } from "./stacks.js";
+import { exactTokenOutflow } from "../core/postconditions.js";
+import type { BroadcastResult, SignedTxHook, StacksClient, TxFeeOptions } from "./stacks.js";
 
 /**
  * sBTC contract addresses per network.
@@ -105,7 +107,10 @@ export class SbtcClient {
     to: string;
     amountSats: bigint;
     memo?: string;
-  }): Promise<{ txid: string }> {
+    fees?: TxFeeOptions;
+    onSigned?: SignedTxHook;
+    dryRun?: boolean;
+  }): Promise<BroadcastResult> {
     const args: ClarityValue[] = [
       uintCV(params.amountSats),
       principalCV(params.to),
@@ -114,13 +119,19 @@ export class SbtcClient {
       args.push(bufferCV(Buffer.from(params.memo, "utf8")));
     }
 
+    const sender = getAddressFromPrivateKey(params.privateKeyHex, this.network as "mainnet" | "testnet");
+    const tokenName = await this.stacks.getFungibleTokenName(this.contractAddress, this.contractName);
     return this.stacks.contractCall({
       privateKeyHex: params.privateKeyHex,
       contractAddress: this.contractAddress,
       contractName: this.contractName,
       functionName: "transfer",
       functionArgs: args,
-      postConditionMode: PostConditionMode.Allow,
+      postConditionMode: PostConditionMode.Deny,
+      postConditions: [exactTokenOutflow(sender, `${this.contractAddress}.${this.contractName}`, tokenName, params.amountSats)],
+      fees: params.fees,
+      onSigned: params.onSigned,
+      dryRun: params.dryRun,
     });
   }
 
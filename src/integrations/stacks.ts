@@ -18,8 +18,21 @@ import {
   bufferCV,
   cvToJSON,
   type ClarityValue,
+  type ClarityAbi,
+  type StacksTransactionWire,
+  type PostCondition,
+  fetchFeeEstimateTransaction,
+  serializePayloadBytes,
+  estimateTransactionByteLength,
+  deserializeTransaction,
+  wireToPostCondition,
+  type TxBroadcastResult,
 } from "@stacks/transactions";
+import { bytesToHex } from "@stacks/common";
 import { STACKS_TESTNET, STACKS_MAINNET, type StacksNetwork } from "@stacks/network";
+import type { AccountNonceState, NonceManager } from "../wallet/nonces.js";
+import { FALLBACK_FEES, bumpFee, chooseFee } from "../core/fees.js";
+import type { FeeEstimates, FeeTier } from "../core/fees.js";
 
 export type StacksClientConfig = {
   network: string;
@@ -28,10 +41,39 @@ export type StacksClientConfig = {
 
 type NetworkLiteral = "mainnet" | "testnet";
 
+/** Per-transaction fee settings. `replace` re-signs at an existing nonce with a bumped fee (SPEED_UP / CANCEL_TX). */
+export type TxFeeOptions = {
+  feeTier?: FeeTier;
+  maxFeeMicroStx?: bigint;
+  replace?: { nonce: bigint; previousFee: bigint };
+};
+
+/** `dryRun` is set only when the transaction was signed but deliberately not broadcast. */
+export type BroadcastResult = {
+  txid: string;
+  nonce: bigint;
+  fee: bigint;
+  dryRun?: { rawHex: string; postConditionMode: PostConditionMode; postConditions: PostCondition[] };
+};
+
+/** A signed transaction, handed to the caller before it is broadcast so it can be persisted first. */
+export type SignedTx = { txid: string; rawHex: string; sender: string; nonce: bigint; fee: bigint };
+export type SignedTxHook = (tx: SignedTx) => void;
+
+/** The node refused the transaction, so it can never confirm (as opposed to a network error, where the outcome is unknown). */
+export class BroadcastRejectedError extends Error {
+  constructor(message: string, readonly txid: string, readonly reason: string) {
+    super(message);
+  }
+}
+
 export class StacksClient {
   private networkConfig: StacksNetwork;
   private networkLit: NetworkLiteral;
   private apiUrl: string;
+  private nonces?: NonceManager;
+  private ftNames = new Map<string, string>();
+  private sip010Infos = new Map<string, { symbol: string; decimals: number }>();
 
   constructor(config: StacksClientConfig) {
     if (config.network === "mainnet") {
@@ -45,6 +87,11 @@ export class StacksClient {
     }
   }
 
+  /** Allocate nonces locally instead of trusting possible_next_nonce for every transaction. */
+  setNonceManager(manager: NonceManager) {
+    this.nonces = manager;
+  }
+
   /** Get STX balance for an address */
   async getBalance(address: string): Promise<{
     stx: bigint;
@@ -117,38 +164,27 @@ export class StacksClient {
     to: string;
     amountMicroStx: bigint;
     memo?: string;
-  }): Promise<{ txid: string }> {
+    fees?: TxFeeOptions;
+    onSigned?: SignedTxHook;
+    dryRun?: boolean;
+  }): Promise<BroadcastResult> {
     const senderAddress = getAddressFromPrivateKey(
       params.privateKeyHex,
       this.networkLit
     );
-    const nonce = await this.getAccountNonce(senderAddress);
-
-    const txOptions = {
-      recipient: params.to,
-      amount: params.amountMicroStx,
-      senderKey: params.privateKeyHex,
-      network: this.networkLit,
-      memo: params.memo ?? "",
-      nonce: BigInt(nonce),
-      anchorMode: AnchorMode.Any,
-      fee: 2000n, // safe default fee in micro-STX
-    };
-
-    const tx = await makeSTXTokenTransfer(txOptions);
-    const result = await broadcastTransaction({ transaction: tx, network: this.networkLit });
-
-    if (typeof result === "string") {
-      return { txid: result };
-    }
-    if ("txid" in result) {
-      return { txid: result.txid as string };
-    }
-    if ("error" in result) {
-      throw new Error(`Broadcast failed: ${(result as any).reason ?? JSON.stringify(result)}`);
-    }
-    // result is the txid string
-    return { txid: String(result) };
+    return this.signAndBroadcast(senderAddress, "transfer", "Broadcast failed", params, (nonce, fee) => {
+      const txOptions = {
+        recipient: params.to,
+        amount: params.amountMicroStx,
+        senderKey: params.privateKeyHex,
+        network: this.networkLit,
+        memo: params.memo ?? "",
+        nonce,
+        anchorMode: AnchorMode.Any,
+        fee,
+      };
+      return makeSTXTokenTransfer(txOptions);
+    });
   }
 
   /** Call a Clarity smart contract function (write) */
@@ -159,39 +195,31 @@ export class StacksClient {
     functionName: string;
     functionArgs: ClarityValue[];
     postConditionMode?: PostConditionMode;
-  }): Promise<{ txid: string }> {
+    postConditions?: PostCondition[];
+    fees?: TxFeeOptions;
+    onSigned?: SignedTxHook;
+    dryRun?: boolean;
+  }): Promise<BroadcastResult> {
     const senderAddress = getAddressFromPrivateKey(
       params.privateKeyHex,
       this.networkLit
     );
-    const nonce = await this.getAccountNonce(senderAddress);
-
-    const txOptions = {
-      contractAddress: params.contractAddress,
-      contractName: params.contractName,
-      functionName: params.functionName,
-      functionArgs: params.functionArgs,
-      senderKey: params.privateKeyHex,
-      network: this.networkLit,
-      nonce: BigInt(nonce),
-      anchorMode: AnchorMode.Any,
-      postConditionMode: params.postConditionMode ?? PostConditionMode.Deny,
-      fee: 5000n,
-    };
-
-    const tx = await makeContractCall(txOptions);
-    const result = await broadcastTransaction({ transaction: tx, network: this.networkLit });
-
-    if (typeof result === "string") {
-      return { txid: result };
-    }
-    if ("txid" in result) {
-      return { txid: result.txid as string };
-    }
-    if ("error" in result) {
-      throw new Error(`Contract call broadcast failed: ${(result as any).reason ?? JSON.stringify(result)}`);
-    }
-    return { txid: String(result) };
+    return this.signAndBroadcast(senderAddress, "contract-call", "Contract call broadcast failed", params, (nonce, fee) => {
+      const txOptions = {
+        contractAddress: params.contractAddress,
+        contractName: params.contractName,
+        functionName: params.functionName,
+        functionArgs: params.functionArgs,
+        senderKey: params.privateKeyHex,
+        network: this.networkLit,
+        nonce,
+        anchorMode: AnchorMode.Any,
+        postConditionMode: params.postConditionMode ?? PostConditionMode.Deny,
+        postConditions: params.postConditions ?? [],
+        fee,
+      };
+      return makeContractCall(txOptions);
+    });
   }
 
   /** Read a Clarity smart contract function (read-only, no gas) */
@@ -254,23 +282,193 @@ export class StacksClient {
     }));
   }
 
+  /**
+   * Successful STX and fungible-token transfers received by `address`, newest first. `asset` is
+   * "STX" or the token's contract id; `memo` is the UTF-8 text of the transfer's memo, when it has one.
+   * `offset` counts transactions, not transfers; `nextOffset` is where the next (older) page starts,
+   * or undefined once the address's history is exhausted.
+   */
+  async getIncomingTransfers(
+    address: string,
+    limit = 50,
+    offset = 0
+  ): Promise<{
+    transfers: Array<{ txid: string; asset: string; amount: bigint; sender: string; memo?: string; timestamp: number }>;
+    nextOffset?: number;
+  }> {
+    const res = await fetch(
+      `${this.apiUrl}/extended/v1/address/${address}/transactions_with_transfers?limit=${limit}&offset=${offset}`,
+      { signal: AbortSignal.timeout(15000) }
+    );
+    if (!res.ok) throw new Error(`Hiro API error ${res.status}`);
+    const data = (await res.json()) as {
+      total: number;
+      results: Array<{
+        tx: {
+          tx_id: string;
+          tx_status: string;
+          burn_block_time: number;
+          token_transfer?: { memo?: string };
+          contract_call?: { function_args?: Array<{ name: string; repr: string }> };
+        };
+        stx_transfers?: Array<{ amount: string; sender: string; recipient: string }>;
+        ft_transfers?: Array<{ asset_identifier: string; amount: string; sender: string; recipient: string }>;
+      }>;
+    };
+    const decodeMemo = (hex?: string) => {
+      const text = hex ? Buffer.from(hex, "hex").toString("utf8").replace(/\0+$/, "") : "";
+      return text || undefined;
+    };
+    const out: Array<{ txid: string; asset: string; amount: bigint; sender: string; memo?: string; timestamp: number }> = [];
+    for (const { tx, stx_transfers, ft_transfers } of data.results) {
+      if (tx.tx_status !== "success") continue;
+      const memoRepr = tx.contract_call?.function_args?.find((a) => a.name === "memo")?.repr;
+      const memo = decodeMemo(tx.token_transfer?.memo?.replace(/^0x/, "") ?? memoRepr?.match(/^\(some 0x([0-9a-fA-F]*)\)$/)?.[1]);
+      for (const t of stx_transfers ?? []) {
+        if (t.recipient !== address) continue;
+        out.push({ txid: tx.tx_id, asset: "STX", amount: BigInt(t.amount), sender: t.sender, memo, timestamp: tx.burn_block_time });
+      }
+      for (const t of ft_transfers ?? []) {
+        if (t.recipient !== address) continue;
+        out.push({ txid: tx.tx_id, asset: t.asset_identifier.split("::")[0]!, amount: BigInt(t.amount), sender: t.sender, memo, timestamp: tx.burn_block_time });
+      }
+    }
+    const next = offset + data.results.length;
+    return { transfers: out, nextOffset: data.results.length > 0 && next < data.total ? next : undefined };
+  }
+
+  /** Symbol and decimals of a SIP-010 token, read from its get-symbol / get-decimals functions. */
+  async getSip010Info(contractAddress: string, contractName: string): Promise<{ symbol: string; decimals: number }> {
+    const contractId = `${contractAddress}.${contractName}`;
+    const cached = this.sip010Infos.get(contractId);
+    if (cached) return cached;
+    const read = async (functionName: string) => {
+      const result = await this.contractRead({ contractAddress, contractName, functionName, functionArgs: [], senderAddress: contractAddress });
+      const json = cvToJSON(result);
+      if (!json?.success) throw new Error(`${contractId} ${functionName} failed`);
+      return json.value.value as string;
+    };
+    const decimals = Number(await read("get-decimals"));
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 18) throw new Error(`${contractId} is not a SIP-010 token`);
+    const info = { symbol: String(await read("get-symbol")), decimals };
+    this.sip010Infos.set(contractId, info);
+    return info;
+  }
+
   /** Get current STX price from CoinGecko */
   async getStxPrice(): Promise<number | null> {
+    return this.getCoinGeckoUsdPrice("blockstack");
+  }
+
+  /** BTC/USD, used to price sBTC (pegged 1:1 to BTC). */
+  async getBtcPrice(): Promise<number | null> {
+    return this.getCoinGeckoUsdPrice("bitcoin");
+  }
+
+  private async getCoinGeckoUsdPrice(coinId: string): Promise<number | null> {
     try {
       const res = await fetch(
-        "https://api.coingecko.com/api/v3/simple/price?ids=blockstack&vs_currencies=usd",
+        `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=usd`,
         { signal: AbortSignal.timeout(8000) }
       );
       if (!res.ok) return null;
       const data = (await res.json()) as Record<string, Record<string, number>>;
-      return data?.blockstack?.usd ?? null;
+      return data?.[coinId]?.usd ?? null;
     } catch {
       return null;
     }
   }
 
-  /** Get account nonce for transaction building */
-  private async getAccountNonce(address: string): Promise<number> {
+  /**
+   * Sign with a reserved nonce and broadcast. A nonce whose broadcast fails is released so the
+   * next transaction fills the gap instead of leaving a hole that stalls later ones.
+   * The fee comes from the node's estimate for the signed payload at the requested tier.
+   * `onSigned` runs between signing and broadcast; if it throws, nothing is broadcast. Once the
+   * transaction is signed, only a node rejection releases the nonce: after a network error the
+   * transaction may already be in the mempool. A dry run signs at the next nonce, then hands
+   * the nonce back and returns the transaction instead of broadcasting it.
+   */
+  private async signAndBroadcast(
+    senderAddress: string,
+    kind: "transfer" | "contract-call",
+    failurePrefix: string,
+    opts: { fees?: TxFeeOptions; onSigned?: SignedTxHook; dryRun?: boolean },
+    build: (nonce: bigint, fee: bigint) => Promise<StacksTransactionWire>
+  ): Promise<BroadcastResult> {
+    const fees = opts.fees;
+    const replace = fees?.replace;
+    const nonce = replace ? replace.nonce : BigInt(await this.nextNonce(senderAddress));
+    let txid: string | undefined;
+    let fee: bigint;
+    try {
+      const estimates = await this.estimateFees(await build(nonce, 0n), kind);
+      if (replace) {
+        const bumped = bumpFee(replace.previousFee, estimates, fees?.feeTier, fees?.maxFeeMicroStx);
+        if (!bumped.ok) throw new Error(bumped.error);
+        fee = bumped.fee;
+      } else {
+        fee = chooseFee(estimates, fees?.feeTier, fees?.maxFeeMicroStx);
+      }
+      const tx = await build(nonce, fee);
+      if (opts.dryRun) {
+        if (!replace) this.nonces?.release(senderAddress, Number(nonce));
+        const postConditions = tx.postConditions.values.map((pc) => wireToPostCondition(pc));
+        return { txid: tx.txid(), nonce, fee, dryRun: { rawHex: tx.serialize(), postConditionMode: tx.postConditionMode, postConditions } };
+      }
+      opts.onSigned?.({ txid: tx.txid(), rawHex: tx.serialize(), sender: senderAddress, nonce, fee });
+      txid = tx.txid();
+      const result = await broadcastTransaction({ transaction: tx, network: this.networkLit });
+      txid = this.broadcastTxid(result, txid, failurePrefix);
+    } catch (err) {
+      if (txid !== undefined && !(err instanceof BroadcastRejectedError)) {
+        this.nonces?.markBroadcast(senderAddress, Number(nonce), txid);
+      } else if (!replace) {
+        // A failed replacement leaves the original transaction holding the nonce.
+        this.nonces?.release(senderAddress, Number(nonce));
+      }
+      throw err;
+    }
+    this.nonces?.markBroadcast(senderAddress, Number(nonce), txid);
+    return { txid, nonce, fee };
+  }
+
+  /** Rebroadcast a previously signed transaction (hex) without re-signing it; returns its txid. */
+  async broadcastRawTransaction(rawHex: string): Promise<string> {
+    const tx = deserializeTransaction(rawHex);
+    const result = await broadcastTransaction({ transaction: tx, network: this.networkLit });
+    return this.broadcastTxid(result, tx.txid(), "Rebroadcast failed");
+  }
+
+  private broadcastTxid(result: TxBroadcastResult, signedTxid: string, failurePrefix: string): string {
+    if (typeof result === "string") return result;
+    if ("txid" in result && !("error" in result)) return result.txid as string;
+    const reason = (result as any).reason ?? JSON.stringify(result);
+    throw new BroadcastRejectedError(`${failurePrefix}: ${reason}`, signedTxid, String(reason));
+  }
+
+  /** [low, medium, high] fee estimates for a signed transaction; falls back to fixed fees when the node has none. */
+  async estimateFees(tx: StacksTransactionWire, kind: "transfer" | "contract-call"): Promise<FeeEstimates> {
+    try {
+      const estimates = await fetchFeeEstimateTransaction({
+        payload: bytesToHex(serializePayloadBytes(tx.payload)),
+        estimatedLength: estimateTransactionByteLength(tx),
+        network: this.networkLit,
+        client: { baseUrl: this.apiUrl },
+      });
+      return estimates.map((e) => BigInt(Math.ceil(e.fee))) as FeeEstimates;
+    } catch (err) {
+      console.warn(`[fees] estimate unavailable, using defaults:`, (err as Error).message);
+      return FALLBACK_FEES[kind];
+    }
+  }
+
+  private async nextNonce(address: string): Promise<number> {
+    const state = await this.getAccountNonceState(address);
+    return this.nonces ? this.nonces.reserve(address, state) : state.possibleNextNonce;
+  }
+
+  /** Nonce state for transaction building, including gaps and mempool occupancy */
+  async getAccountNonceState(address: string): Promise<AccountNonceState> {
     const res = await fetch(
       `${this.apiUrl}/extended/v1/address/${address}/nonces`,
       { signal: AbortSignal.timeout(10000) }
@@ -278,25 +476,73 @@ export class StacksClient {
     if (!res.ok) throw new Error(`Failed to get nonce: ${res.status}`);
     const data = (await res.json()) as {
       possible_next_nonce: number;
-      last_executed_tx_nonce: number;
+      last_executed_tx_nonce: number | null;
+      detected_missing_nonces?: number[];
+      detected_mempool_nonces?: number[];
+    };
+    return {
+      lastExecutedNonce: data.last_executed_tx_nonce,
+      possibleNextNonce: data.possible_next_nonce,
+      detectedMissingNonces: data.detected_missing_nonces ?? [],
+      detectedMempoolNonces: data.detected_mempool_nonces ?? []
     };
-    return data.possible_next_nonce;
   }
 
-  /** Get transaction status */
+  /** Name of the fungible token a SIP-010 contract defines, needed for ft post-conditions */
+  async getFungibleTokenName(contractAddress: string, contractName: string): Promise<string> {
+    const contractId = `${contractAddress}.${contractName}`;
+    const cached = this.ftNames.get(contractId);
+    if (cached) return cached;
+    const abi = await this.getContractAbi(contractAddress, contractName);
+    const name = abi.fungible_tokens[0]?.name;
+    if (!name) throw new Error(`${contractId} does not define a fungible token`);
+    this.ftNames.set(contractId, name);
+    return name;
+  }
+
+  /** Fetch a deployed contract's interface (functions, maps, variables, tokens) */
+  async getContractAbi(contractAddress: string, contractName: string): Promise<ClarityAbi> {
+    const res = await fetch(`${this.apiUrl}/v2/contracts/interface/${contractAddress}/${contractName}`, {
+      signal: AbortSignal.timeout(10000),
+    });
+    if (res.status === 404) throw new Error(`Contract ${contractAddress}.${contractName} not found`);
+    if (!res.ok) throw new Error(`Hiro API error ${res.status}`);
+    return (await res.json()) as ClarityAbi;
+  }
+
+  /**
+   * On-chain status of a transaction. Hiro reports "pending", "success", "abort_by_response",
+   * "abort_by_post_condition" or a "dropped_*" reason; a txid the API has never seen is "not_found".
+   */
   async getTransactionStatus(txid: string): Promise<{
     status: string;
     block_height?: number;
+    fee_micro_stx?: string;
+    tx_result?: string;
+    nonce?: number;
+    sender_address?: string;
   }> {
     const res = await fetch(`${this.apiUrl}/extended/v1/tx/${txid}`, {
       signal: AbortSignal.timeout(10000),
     });
+    if (res.status === 404) return { status: "not_found" };
     if (!res.ok) throw new Error(`Hiro API error ${res.status}`);
     const data = (await res.json()) as {
       tx_status: string;
       block_height?: number;
+      fee_rate?: string;
+      tx_result?: { hex: string; repr: string };
+      nonce?: number;
+      sender_address?: string;
+    };
+    return {
+      status: data.tx_status,
+      block_height: data.block_height,
+      fee_micro_stx: data.fee_rate,
+      tx_result: data.tx_result?.repr,
+      nonce: data.nonce,
+      sender_address: data.sender_address
     };
-    return { status: data.tx_status, block_height: data.block_height };
   }
 
   /** Get the API URL for external use */
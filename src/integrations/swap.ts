@@ -0,0 +1,238 @@
+/**
+ * Token swaps for DW SWAP and triggered stop-loss / take-profit orders.
+ *
+ * RouterSwapAdapter calls the SWAP_ROUTER contract, which must implement this interface
+ * (checked against the deployed contract's ABI before the first quote):
+ *   (define-read-only (get-amount-out (token-in principal) (token-out principal) (amount-in uint))
+ *     (response uint uint))   ;; or a plain uint
+ *   (define-public (swap-exact-in (token-in principal) (token-out principal) (amount-in uint) (min-out uint))
+ *     (response uint uint))
+ * Tokens are SIP-010 contract principals (the token parameters may also be declared as trait
+ * references); native STX is identified by SWAP_STX_TOKEN. swap-exact-in must take exactly
+ * amount-in of token-in from tx-sender and pay at least min-out of token-out from the router
+ * contract itself: the transaction's deny-mode post-conditions allow nothing else. DEXes that
+ * pay out from a pool or vault contract (ALEX, Velar, Bitflow) need a thin wrapper router
+ * that does this.
+ * MockSwapAdapter prices swaps from the local price cache and moves nothing; it is for
+ * tests and demos (SWAP_ROUTER=mock).
+ */
+import {
+  Pc,
+  PostConditionMode,
+  cvToJSON,
+  getAddressFromPrivateKey,
+  getTypeString,
+  principalCV,
+  uintCV,
+  type ClarityAbi,
+  type ClarityAbiType,
+  type PostCondition,
+} from "@stacks/transactions";
+import { AMOUNT_ASSETS } from "../core/amounts.js";
+import type { AmountAsset } from "../core/amounts.js";
+import type { BroadcastResult, SignedTxHook, StacksClient, TxFeeOptions } from "./stacks.js";
+
+export type SwapParams = {
+  privateKeyHex: string;
+  fromAsset: AmountAsset;
+  toAsset: AmountAsset;
+  amountIn: bigint;
+  minOut: bigint;
+  fees?: TxFeeOptions;
+  onSigned?: SignedTxHook;
+  /** Sign (router) or check (mock) the swap without broadcasting anything. */
+  dryRun?: boolean;
+};
+
+/** `txid` is absent when nothing was signed (mock router); `dryRun` carries the unbroadcast transaction. */
+export type SwapResult = Pick<BroadcastResult, "dryRun"> & { txid?: string; nonce?: bigint; fee: bigint };
+
+export interface SwapAdapter {
+  readonly name: string;
+  /** Expected output, in base units of `toAsset`, for `amountIn` base units of `fromAsset`. */
+  quote(fromAsset: AmountAsset, toAsset: AmountAsset, amountIn: bigint): Promise<bigint>;
+  swap(params: SwapParams): Promise<SwapResult>;
+}
+
+/** Smallest acceptable output for a quote under a slippage bound in basis points. */
+export function minAmountOut(expectedOut: bigint, maxSlippageBps: number): bigint {
+  return (expectedOut * BigInt(10_000 - maxSlippageBps)) / 10_000n;
+}
+
+/** Ways the router's ABI departs from the interface RouterSwapAdapter calls; empty when it complies. */
+export function routerInterfaceProblems(abi: ClarityAbi): string[] {
+  const isToken = (t: ClarityAbiType) => t === "principal" || t === "trait_reference";
+  const isUint = (t: ClarityAbiType) => t === "uint128";
+  const expected = [
+    {
+      name: "get-amount-out",
+      access: "read_only",
+      args: [isToken, isToken, isUint],
+      output: (t: ClarityAbiType) => isUint(t) || (typeof t === "object" && "response" in t && isUint(t.response.ok)),
+      signature: "(get-amount-out principal principal uint) -> uint or (response uint _)"
+    },
+    {
+      name: "swap-exact-in",
+      access: "public",
+      args: [isToken, isToken, isUint, isUint],
+      output: () => true,
+      signature: "(swap-exact-in principal principal uint uint)"
+    }
+  ];
+
+  const access = (a: string) => a.replace("_", "-");
+  const problems: string[] = [];
+  for (const want of expected) {
+    const fn = abi.functions.find((f) => f.name === want.name);
+    if (!fn) {
+      problems.push(`missing ${access(want.access)} function ${want.signature}`);
+      continue;
+    }
+    const args = fn.args.map((a) => a.type);
+    const matches = fn.access === want.access && args.length === want.args.length &&
+      want.args.every((ok, i) => ok(args[i]!)) && want.output(fn.outputs.type);
+    if (!matches) {
+      const actual = `(${fn.name}${args.map((t) => ` ${getTypeString(t)}`).join("")}) -> ${getTypeString(fn.outputs.type)}`;
+      problems.push(`${fn.name} is ${access(fn.access)} ${actual}, expected ${access(want.access)} ${want.signature}`);
+    }
+  }
+  return problems;
+}
+
+export type RouterSwapConfig = {
+  network: string;
+  /** Router contract id, `<address>.<name>`. */
+  router: string;
+  /** Token principal the router uses for each asset; STX maps to the router's native-STX token. */
+  tokens: Partial<Record<AmountAsset, string>>;
+};
+
+export class RouterSwapAdapter implements SwapAdapter {
+  readonly name: string;
+  private network: string;
+  private routerAddress: string;
+  private routerName: string;
+  private tokens: Partial<Record<AmountAsset, string>>;
+  private _stacks?: StacksClient;
+  private interfaceCheck?: Promise<void>;
+
+  constructor(config: RouterSwapConfig) {
+    const [address, name] = config.router.split(".");
+    if (!address || !name) throw new Error(`Invalid swap router contract '${config.router}'`);
+    this.name = config.router;
+    this.network = config.network;
+    this.routerAddress = address;
+    this.routerName = name;
+    this.tokens = config.tokens;
+  }
+
+  setStacksClient(stacks: StacksClient) {
+    this._stacks = stacks;
+  }
+
+  private get stacks(): StacksClient {
+    if (!this._stacks) throw new Error("Swap: StacksClient not set. Call setStacksClient() first.");
+    return this._stacks;
+  }
+
+  private token(asset: AmountAsset): string {
+    const token = this.tokens[asset];
+    if (!token) throw new Error(`Swap router has no token configured for ${AMOUNT_ASSETS[asset].display}`);
+    return token;
+  }
+
+  /** Fails every call until the router's ABI matches the interface above; a failed fetch is retried. */
+  private checkInterface(): Promise<void> {
+    this.interfaceCheck ??= this.stacks.getContractAbi(this.routerAddress, this.routerName).then(
+      (abi) => {
+        const problems = routerInterfaceProblems(abi);
+        if (problems.length) throw new Error(`Swap router ${this.name} does not implement the router interface: ${problems.join("; ")}`);
+      },
+      (err: Error) => {
+        this.interfaceCheck = undefined;
+        throw new Error(`Swap router ${this.name}: could not load its interface: ${err.message}`);
+      }
+    );
+    return this.interfaceCheck;
+  }
+
+  async quote(fromAsset: AmountAsset, toAsset: AmountAsset, amountIn: bigint): Promise<bigint> {
+    await this.checkInterface();
+    const result = await this.stacks.contractRead({
+      contractAddress: this.routerAddress,
+      contractName: this.routerName,
+      functionName: "get-amount-out",
+      functionArgs: [principalCV(this.token(fromAsset)), principalCV(this.token(toAsset)), uintCV(amountIn)],
+      senderAddress: this.routerAddress,
+    });
+    const json = cvToJSON(result);
+    if (json?.success === false) throw new Error(`Swap quote failed: ${JSON.stringify(json.value)}`);
+    return BigInt(json?.value?.value ?? json?.value ?? "0");
+  }
+
+  /**
+   * Deny mode: the wallet sends exactly `amountIn` and the router must send back at least
+   * `minOut`, so slippage beyond the bound aborts on chain rather than filling badly.
+   */
+  async swap(params: SwapParams): Promise<SwapResult> {
+    await this.checkInterface();
+    const sender = getAddressFromPrivateKey(params.privateKeyHex, this.network as "mainnet" | "testnet");
+    const postConditions = [
+      await this.postCondition(Pc.principal(sender).willSendEq(params.amountIn), params.fromAsset),
+      await this.postCondition(Pc.principal(`${this.routerAddress}.${this.routerName}`).willSendGte(params.minOut), params.toAsset),
+    ];
+    const out = await this.stacks.contractCall({
+      privateKeyHex: params.privateKeyHex,
+      contractAddress: this.routerAddress,
+      contractName: this.routerName,
+      functionName: "swap-exact-in",
+      functionArgs: [
+        principalCV(this.token(params.fromAsset)),
+        principalCV(this.token(params.toAsset)),
+        uintCV(params.amountIn),
+        uintCV(params.minOut),
+      ],
+      postConditionMode: PostConditionMode.Deny,
+      postConditions,
+      fees: params.fees,
+      onSigned: params.onSigned,
+      dryRun: params.dryRun,
+    });
+    return { txid: out.txid, nonce: out.nonce, fee: out.fee, dryRun: out.dryRun };
+  }
+
+  private async postCondition(
+    amount: ReturnType<ReturnType<typeof Pc.principal>["willSendEq"]>,
+    asset: AmountAsset
+  ): Promise<PostCondition> {
+    if (asset === "STX") return amount.ustx();
+    const [address, name] = this.token(asset).split(".") as [string, string];
+    const tokenName = await this.stacks.getFungibleTokenName(address, name);
+    return amount.ft(`${address}.${name}`, tokenName);
+  }
+}
+
+/** Prices each leg at its USD price (from the price cache) minus a flat router fee. */
+export class MockSwapAdapter implements SwapAdapter {
+  readonly name = "mock";
+
+  constructor(
+    private priceUsd: (asset: AmountAsset) => number | undefined,
+    private feeBps = 30
+  ) {}
+
+  async quote(fromAsset: AmountAsset, toAsset: AmountAsset, amountIn: bigint): Promise<bigint> {
+    const fromPrice = this.priceUsd(fromAsset);
+    const toPrice = this.priceUsd(toAsset);
+    if (!fromPrice || !toPrice) throw new Error(`Mock router has no price for ${fromAsset}/${toAsset}`);
+    const inUnits = Number(amountIn) / 10 ** AMOUNT_ASSETS[fromAsset].decimals;
+    const outUnits = ((inUnits * fromPrice) / toPrice) * (1 - this.feeBps / 10_000);
+    return BigInt(Math.floor(outUnits * 10 ** AMOUNT_ASSETS[toAsset].decimals));
+  }
+
+  async swap(params: SwapParams): Promise<SwapResult> {
+    const out = await this.quote(params.fromAsset, params.toAsset, params.amountIn);
+    if (out < params.minOut) throw new Error(`Slippage exceeded: would receive ${out}, minimum ${params.minOut}`);
+    return { fee: 0n };
+  }
+}
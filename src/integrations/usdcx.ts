@@ -17,10 +17,12 @@ import {
   someCV,
   bufferCV,
   PostConditionMode,
+  getAddressFromPrivateKey,
   cvToJSON,
   type ClarityValue,
 } from "@stacks/transactions";
-import type { StacksClient } from "./stacks.js";
+import { exactTokenOutflow } from "../core/postconditions.js";
+import type { BroadcastResult, SignedTxHook, StacksClient, TxFeeOptions } from "./stacks.js";
 
 /**
  * USDCx contract addresses on Stacks.
@@ -108,7 +110,10 @@ export class UsdcxClient {
     to: string;
     amount: bigint;
     memo?: string;
-  }): Promise<{ txid: string }> {
+    fees?: TxFeeOptions;
+    onSigned?: SignedTxHook;
+    dryRun?: boolean;
+  }): Promise<BroadcastResult> {
     const args: ClarityValue[] = [
       uintCV(params.amount),
       principalCV(params.to),
@@ -119,13 +124,19 @@ export class UsdcxClient {
       args.push(noneCV());
     }
 
+    const sender = getAddressFromPrivateKey(params.privateKeyHex, this.network as "mainnet" | "testnet");
+    const tokenName = await this.stacks.getFungibleTokenName(this.contractAddress, this.contractName);
     return this.stacks.contractCall({
       privateKeyHex: params.privateKeyHex,
       contractAddress: this.contractAddress,
       contractName: this.contractName,
       functionName: "transfer",
       functionArgs: args,
-      postConditionMode: PostConditionMode.Allow,
+      postConditionMode: PostConditionMode.Deny,
+      postConditions: [exactTokenOutflow(sender, `${this.contractAddress}.${this.contractName}`, tokenName, params.amount)],
+      fees: params.fees,
+      onSigned: params.onSigned,
+      dryRun: params.dryRun,
     });
   }
 
@@ -134,7 +145,10 @@ export class UsdcxClient {
     privateKeyHex: string;
     spender: string;
     amount: bigint;
-  }): Promise<{ txid: string }> {
+    fees?: TxFeeOptions;
+    onSigned?: SignedTxHook;
+    dryRun?: boolean;
+  }): Promise<BroadcastResult> {
     return this.stacks.contractCall({
       privateKeyHex: params.privateKeyHex,
       contractAddress: this.contractAddress,
@@ -142,6 +156,9 @@ export class UsdcxClient {
       functionName: "approve",
       functionArgs: [principalCV(params.spender), uintCV(params.amount)],
       postConditionMode: PostConditionMode.Deny,
+      fees: params.fees,
+      onSigned: params.onSigned,
+      dryRun: params.dryRun,
     });
   }
 
@@ -28,7 +28,8 @@ import {
   type ClarityValue,
 } from "@stacks/transactions";
 import { STACKS_TESTNET, STACKS_MAINNET, TransactionVersion, type StacksNetwork } from "@stacks/network";
-import type { StacksClient } from "./stacks.js";
+import { exactTokenOutflow } from "../core/postconditions.js";
+import type { SignedTxHook, StacksClient } from "./stacks.js";
 
 export type X402Challenge = {
   /** The resource URL */
@@ -98,6 +99,7 @@ export class X402Client {
     body?: unknown;
     headers?: Record<string, string>;
     privateKeyHex: string;
+    onSigned?: SignedTxHook;
   }): Promise<X402Receipt> {
     const method = params.method ?? "GET";
 
@@ -139,6 +141,7 @@ export class X402Client {
     const txid = await this.makePayment({
       privateKeyHex: params.privateKeyHex,
       challenge,
+      onSigned: params.onSigned,
     });
 
     // Step 4: Retry with payment proof
@@ -213,8 +216,9 @@ export class X402Client {
   private async makePayment(params: {
     privateKeyHex: string;
     challenge: X402Challenge;
+    onSigned?: SignedTxHook;
   }): Promise<string> {
-    const { challenge, privateKeyHex } = params;
+    const { challenge, privateKeyHex, onSigned } = params;
     const amount = BigInt(challenge.amount);
 
     if (!challenge.recipient) {
@@ -228,6 +232,7 @@ export class X402Client {
         to: challenge.recipient,
         amountMicroStx: amount,
         memo: challenge.memo ?? `x402:${challenge.challengeId}`,
+        onSigned,
       });
       return txid;
     }
@@ -241,6 +246,9 @@ export class X402Client {
     const contractAddress = parts[0]!;
     const contractName = parts.slice(1).join(".");
 
+    const sender = getAddressFromPrivateKey(privateKeyHex, this.network as "mainnet" | "testnet");
+    const tokenName = await this.stacks.getFungibleTokenName(contractAddress, contractName);
+
     const { txid } = await this.stacks.contractCall({
       privateKeyHex,
       contractAddress,
@@ -250,7 +258,9 @@ export class X402Client {
         uintCV(amount),
         principalCV(challenge.recipient),
       ],
-      postConditionMode: PostConditionMode.Allow,
+      postConditionMode: PostConditionMode.Deny,
+      postConditions: [exactTokenOutflow(sender, challenge.token, tokenName, amount)],
+      onSigned,
     });
 
     return txid;
@@ -3,6 +3,15 @@ import type { docs_v1 } from "googleapis";
 import { Repo } from "./db/repo.js";
 import { loadDocWalletTables, readCommandsTable, updateCommandsRowCells, appendAuditRow } from "./google/docwallet.js";
 import { loadDocSecrets } from "./wallet/store.js";
+import { AMOUNT_ASSETS, describeAmount, formatUnits } from "./core/amounts.js";
+import { formatPostCondition } from "./core/postconditions.js";
+import type { PostConditionSpec } from "./core/postconditions.js";
+import type { AmountAsset } from "./core/amounts.js";
+import { evaluateQuorum } from "./core/quorum.js";
+import { createCsrfToken, verifyApprovalToken, verifyCsrf } from "./core/approval.js";
+import { qrSvg } from "./core/qr.js";
+import type { StacksPaymentRequestRow } from "./db/repo.js";
+import { approvalCommandHash, isStacksSigner, serializeApprovalPayload, verifyApprovalSignature } from "./core/sip018.js";
 
 type ServerDeps = {
   docs: docs_v1.Docs;
@@ -10,6 +19,8 @@ type ServerDeps = {
   masterKey: string;
   port: number;
   publicBaseUrl: string;
+  approvalSecret: Buffer;
+  stxNetwork: string;
   demoMode?: boolean;
 };
 
@@ -55,23 +66,44 @@ export function startServer(deps: ServerDeps) {
       <div style="padding-left:16px; margin-top:8px">
         <code>DW SETUP</code> — Initialize STX + EVM wallets for this document<br>
         <code>DW STATUS</code> — View runtime status<br>
-        <code>DW TREASURY</code> — Show all wallet balances
+        <code>DW TREASURY</code> — Show all wallet balances<br>
+        <code>DW ALERT_THRESHOLD &lt;STX|SBTC|USDCX&gt; BELOW &lt;amount|$usd&gt;</code> — Alert once each time the balance drops below it (0 disables)<br>
+        <code>DW ALERTS [CLEAR]</code> — List or acknowledge balance alerts<br>
+        <code>DW AUTO_REBALANCE ON|OFF</code> — Propose swaps back to <code>REBALANCE_TARGETS</code> (Config, e.g. <code>STX 40% / sBTC 40% / USDCx 20%</code>) once drift exceeds <code>REBALANCE_BAND</code> (default 5%)
+      </div>
+    </details>
+    <details>
+      <summary style="cursor:pointer;font-weight:500">Signers &amp; Quorum</summary>
+      <div style="padding-left:16px; margin-top:8px">
+        <code>DW SIGNER_ADD &lt;stx-address&gt; &lt;weight&gt;</code> — Register or re-weight a signer; signers approve with a SIP-018 signature<br>
+        <code>DW SIGNER_REMOVE &lt;stx-address&gt;</code><br>
+        <code>DW QUORUM &lt;n&gt;</code> — Approving weight required to execute<br>
+        <code>DW SIGNERS</code> — List signers and quorum
       </div>
     </details>
     <details>
       <summary style="cursor:pointer;font-weight:500">STX Transactions</summary>
       <div style="padding-left:16px; margin-top:8px">
-        <code>DW STX_SEND &lt;address&gt; &lt;microSTX&gt;</code><br>
+        <code>DW STX_SEND &lt;address&gt; &lt;amount&gt;</code> — e.g. <code>1.5STX</code>, <code>2500uSTX</code> (bare integer = microSTX)<br>
         <code>DW STX_BALANCE</code> — View STX balance<br>
         <code>DW STX_PRICE</code> — Fetch current STX/USD price<br>
-        <code>DW STX_HISTORY [limit]</code> — Recent transactions
+        <code>DW PRICE &lt;STX|BTC&gt; [range]</code> — Price summary from the oracle history, e.g. <code>DW PRICE STX 7d</code> (default 24h)<br>
+        <code>DW STX_HISTORY [limit]</code> — Recent transactions<br>
+        <code>DW SWAP &lt;qty&gt; &lt;from&gt; &lt;to&gt; [maxSlippage%]</code> — e.g. <code>DW SWAP 100 STX USDCX 0.5%</code> (assets STX, SBTC, USDCX; default 1%)<br>
+        <code>DW TRAILING_STOP &lt;qty&gt; &lt;STX|SBTC&gt; &lt;5%|$1500&gt;</code> — Sell to USDCx once the price falls the trail below its peak<br>
+        <code>DW OCO &lt;qty&gt; &lt;STX|SBTC&gt; SL &lt;price&gt; TP &lt;price&gt;</code> — Stop-loss and take-profit; whichever fires first cancels the other<br>
+        <code>DW LIMIT_BUY &lt;qty&gt; &lt;STX|SBTC&gt; @ &lt;price&gt;</code> — Buy with USDCx once the price is at or below the limit<br>
+        <code>DW SPEED_UP &lt;txid&gt;</code> — Rebroadcast a pending tx with a higher fee<br>
+        <code>DW CANCEL_TX &lt;txid&gt;</code> — Replace a pending tx with a 1 uSTX transfer to the burn address<br>
+        <span class="meta">Append <code>FEE=low|medium|high</code> to any transaction command; <code>POLICY_MAX_FEE_MICROSTX</code> caps the fee per doc.</span><br>
+        <span class="meta">Append <code>DRYRUN</code> (or use <code>DW SIMULATE &lt;command&gt;</code>) to sign and check a send, swap or contract call without broadcasting it. The contract code itself is not run.</span>
       </div>
     </details>
     <details>
       <summary style="cursor:pointer;font-weight:500; color:#f97316">sBTC Commands</summary>
       <div style="padding-left:16px; margin-top:8px">
         <code>DW SBTC_BALANCE</code> — View sBTC balance<br>
-        <code>DW SBTC_SEND &lt;address&gt; &lt;sats&gt;</code><br>
+        <code>DW SBTC_SEND &lt;address&gt; &lt;amount&gt;</code> — e.g. <code>0.01BTC</code>, <code>1000sats</code> (bare integer = sats)<br>
         <code>DW SBTC_INFO</code> — sBTC contract info &amp; supply
       </div>
     </details>
@@ -79,9 +111,13 @@ export function startServer(deps: ServerDeps) {
       <summary style="cursor:pointer;font-weight:500; color:#2563eb">USDCx Commands</summary>
       <div style="padding-left:16px; margin-top:8px">
         <code>DW USDCX_BALANCE</code> — View USDCx balance<br>
-        <code>DW USDCX_SEND &lt;address&gt; &lt;amount&gt;</code><br>
+        <code>DW USDCX_SEND &lt;address&gt; &lt;amount&gt;</code> — e.g. <code>25.50USDCx</code> (bare integer = base units)<br>
         <code>DW USDCX_APPROVE &lt;spender&gt; &lt;amount&gt;</code><br>
-        <code>DW USDCX_PAYMENT &lt;amount&gt; "&lt;description&gt;"</code>
+        <code>DW USDCX_PAYMENT &lt;amount&gt; "&lt;description&gt;"</code> — Payers send the exact amount with the request id as memo; RESULT links a printable invoice page with a QR code<br>
+        <code>DW PAYMENT_REQUEST &lt;amount&gt; &lt;STX|sBTC|USDCx|contractId&gt; &lt;description&gt; [expiry]</code> — e.g. <code>DW PAYMENT_REQUEST 25 STX Logo design 7d</code>; the amount gets a tiny fingerprint so memo-less payments still match<br>
+        <code>DW PAYMENT_CHECK &lt;requestId&gt;</code> — Check a request for payment now<br>
+        <code>DW PAYMENTS [open|paid|expired]</code> — List payment requests<br>
+        Every transfer received shows up in Recent Activity as <code>RECEIVED</code>; set <code>INBOUND_CHAT_MIN_USD</code> in Config to also announce large ones in the chat
       </div>
     </details>
     <details>
@@ -95,7 +131,10 @@ export function startServer(deps: ServerDeps) {
       <summary style="cursor:pointer;font-weight:500; color:#16a34a">Clarity Contracts</summary>
       <div style="padding-left:16px; margin-top:8px">
         <code>DW CONTRACT_CALL &lt;addr&gt;.&lt;name&gt; &lt;function&gt; [args...]</code><br>
-        <code>DW CONTRACT_READ &lt;addr&gt;.&lt;name&gt; &lt;function&gt; [args...]</code>
+        <code>DW CONTRACT_READ &lt;addr&gt;.&lt;name&gt; &lt;function&gt; [args...]</code><br>
+        <code>DW CONTRACT_INFO &lt;addr&gt;.&lt;name&gt;</code> — List functions, maps and variables<br>
+        <span class="meta">Bound a call with <code>POST stx &lt;= 1.5STX; SP….token::name &lt;= 500</code> (principal defaults to the doc wallet); without POST the call may not move any assets.</span><br>
+        <span class="meta">Args use Clarity literals: <code>u100</code> <code>-5</code> <code>true</code> <code>0xbeef</code> <code>"ascii"</code> <code>u"utf8"</code> <code>'ST…</code> <code>none</code> <code>(some u1)</code> <code>(list u1 u2)</code> <code>{amount: u5}</code></span>
       </div>
     </details>
     <details>
@@ -161,6 +200,45 @@ ${commandsRef}
 </table>`);
       }
 
+      const payMatch = matchPath(url.pathname, ["pay", ":requestId"]);
+      if (req.method === "GET" && payMatch) {
+        const request = deps.repo.getStacksPaymentRequest(decodeURIComponent(payMatch.requestId));
+        if (!request) return sendJson(res, 404, { ok: false, error: "Payment request not found" });
+        const merchant = deps.repo.getDoc(request.doc_id)?.name ?? "DocWallet";
+        const status = request.status;
+        const amount = `${formatUnits(BigInt(request.amount_raw), request.decimals)} ${request.token}`;
+        const qr = request.payment_uri && status === "pending" && request.expires_at > Date.now() ? `
+  <div style="text-align:center; margin:16px 0">${qrSvg(request.payment_uri, { sizePx: 260 })}</div>
+  <div class="meta" style="word-break:break-all"><strong>Payment URI:</strong> <code>${escapeHtml(request.payment_uri)}</code></div>` : "";
+        return sendHtml(res, `Invoice ${request.request_id}`, `
+<style>@media print { .no-print { display:none } body { background:#fff } .card { box-shadow:none } }</style>
+<div class="card" style="max-width:520px; margin:0 auto">
+  <div class="meta">Invoice from</div>
+  <h1 style="margin:4px 0 12px">${escapeHtml(merchant)}</h1>
+  <div><strong>Description:</strong> ${escapeHtml(request.description || "—")}</div>
+  <div><strong>Amount:</strong> ${escapeHtml(amount)}</div>
+  <div><strong>Pay to:</strong> <code>${escapeHtml(request.address)}</code></div>
+  <div><strong>Memo:</strong> <code>${escapeHtml(request.request_id)}</code> <span class="meta">(required to match the payment)</span></div>
+  <div><strong>Expires:</strong> ${escapeHtml(new Date(request.expires_at).toISOString())}</div>
+  <div style="margin-top:8px"><strong>Status:</strong> <span id="status">${escapeHtml(invoiceStatusText(request))}</span></div>
+  ${qr}
+  <div class="row no-print" style="margin-top:14px">
+    <button class="btn" onclick="window.print()">Print</button>
+  </div>
+</div>
+${status === "pending" ? `<script>
+const statusUrl = ${JSON.stringify(`/api/pay/${encodeURIComponent(request.request_id)}`)};
+const timer = setInterval(async () => {
+  try {
+    const data = await (await fetch(statusUrl)).json();
+    if (!data.ok || data.status === "pending") return;
+    clearInterval(timer);
+    location.reload();
+  } catch { /* retry on the next tick */ }
+}, 10000);
+</script>` : ""}`);
+      }
+
       const cmdMatch = matchPath(url.pathname, ["cmd", ":docId", ":cmdId"]);
       if (req.method === "GET" && cmdMatch) {
         const docId = decodeURIComponent(cmdMatch.docId);
@@ -171,6 +249,77 @@ ${commandsRef}
         const parsed = cmd.parsed_json ? JSON.parse(cmd.parsed_json) : null;
         const summary = parsed ? describeCommand(parsed) : "Unparsed command";
 
+        // Decisions need the signed link from the APPROVAL_URL cell; without it the page is read-only.
+        const token = url.searchParams.get("token") ?? "";
+        const verified = token ? verifyApprovalToken({ secret: deps.approvalSecret, token, docId, cmdId }) : null;
+        const signers = deps.repo.listSigners(docId);
+        // Every doc reader can open the link, so with signers a decision also needs the signer's SIP-018 signature.
+        const stacksSigners = signers.filter((sg) => isStacksSigner(sg.address));
+        const canDecide = !!verified?.ok && (signers.length === 0 || stacksSigners.length > 0);
+        const csrf = createCsrfToken();
+        if (canDecide) {
+          res.setHeader("set-cookie", `dw_csrf=${csrf}; Path=/api/command-decision; HttpOnly; SameSite=Strict`);
+        }
+
+        const approvals = deps.repo.listCommandApprovals({ docId, cmdId });
+        const tally = evaluateQuorum({ signers, approvals, quorum: deps.repo.getDocQuorum(docId) });
+        const signerSection = signers.length > 0 ? `
+<div class="card" style="margin-top:14px">
+  <div><strong>Quorum:</strong> ${tally.approvedWeight} / ${tally.quorum} approving weight (rejected: ${tally.rejectedWeight}, total: ${tally.totalWeight})</div>
+  <table style="margin-top:8px">
+    <thead><tr><th>Signer</th><th>Weight</th><th>Decision</th></tr></thead>
+    <tbody>
+      ${signers.map((sg) => {
+        const a = approvals.find((x) => x.signer_address === sg.address);
+        const decided = a ? `${a.decision} @ ${new Date(a.created_at).toISOString()}${a.auth === "SIP-018" ? " (SIP-018)" : " (unsigned, not counted)"}` : "—";
+        return `<tr><td><code>${escapeHtml(sg.address)}</code></td><td>${sg.weight}</td><td>${escapeHtml(decided)}</td></tr>`;
+      }).join("\n")}
+    </tbody>
+  </table>
+</div>` : "";
+
+        const conf = deps.repo.getTxConfirmation(cmdId);
+        const confirmationSection = cmd.arc_tx_hash ? `
+<div class="card" style="margin-top:14px">
+  <div><strong>Transaction:</strong> <code>${escapeHtml(cmd.arc_tx_hash)}</code></div>
+  <div class="meta">On-chain: ${escapeHtml(conf?.tx_status ?? "not yet checked")}${conf?.block_height != null ? ` · block #${conf.block_height}` : ""}${conf?.fee_micro_stx ? ` · fee ${escapeHtml(amountText(conf.fee_micro_stx, "STX"))}` : ""}${conf?.tx_result ? ` · result <code>${escapeHtml(conf.tx_result)}</code>` : ""}</div>
+</div>` : "";
+
+        const transitions = deps.repo.listCommandTransitions(cmdId);
+        const historySection = `
+<div class="card" style="margin-top:14px">
+  <div><strong>History</strong></div>
+  <table style="margin-top:8px">
+    <thead><tr><th>Time</th><th>From</th><th>To</th><th>Source</th><th>Actor</th><th>Detail</th></tr></thead>
+    <tbody>
+      ${transitions.map((t) => `<tr><td>${escapeHtml(new Date(t.created_at).toISOString())}</td><td>${escapeHtml(t.from_status ?? "—")}</td><td>${escapeHtml(t.to_status)}</td><td>${escapeHtml(t.source)}</td><td>${escapeHtml(t.actor || "—")}</td><td>${escapeHtml(t.detail ?? "")}</td></tr>`).join("\n") || `<tr><td colspan="6">No recorded transitions.</td></tr>`}
+    </tbody>
+  </table>
+</div>`;
+
+        // Stacks-address signers approve by signing a SIP-018 message over the command hash.
+        const sipExpiresAt = Math.floor(Date.now() / 1000) + 15 * 60;
+        const sipBase = { docId, cmdId, commandHash: approvalCommandHash(cmd.parsed_json, cmd.raw_command), expiresAt: sipExpiresAt };
+        const sipPayloads = stacksSigners.length > 0 ? {
+          APPROVED: serializeApprovalPayload(deps.stxNetwork, { ...sipBase, decision: "APPROVE" }),
+          REJECTED: serializeApprovalPayload(deps.stxNetwork, { ...sipBase, decision: "REJECT" })
+        } : null;
+        const sipSection = sipPayloads && canDecide ? `
+<div class="card" style="margin-top:14px">
+  <div><strong>SIP-018 signature</strong> <span class="meta">(required from the signer, valid until ${new Date(sipExpiresAt * 1000).toISOString()})</span></div>
+  <div style="margin-top:6px">
+    <label for="signer">Signing as:</label>
+    <select id="signer">${stacksSigners.map((sg) => `<option value="${escapeHtml(sg.address)}">${escapeHtml(sg.address)} (weight ${sg.weight})</option>`).join("")}</select>
+  </div>
+  <div class="meta" style="margin-top:6px">Domain: <code>${escapeHtml(sipPayloads.APPROVED.domain)}</code></div>
+  <div class="meta">Approve message: <code style="word-break:break-all">${escapeHtml(sipPayloads.APPROVED.message)}</code></div>
+  <div class="meta">Reject message: <code style="word-break:break-all">${escapeHtml(sipPayloads.REJECTED.message)}</code></div>
+  <div style="margin-top:8px">
+    <label for="signature">Signature (RSV hex) — leave empty to sign with a browser wallet:</label><br>
+    <textarea id="signature" rows="2" style="width:100%"></textarea>
+  </div>
+</div>` : "";
+
         return sendHtml(res, "Command Decision", `
 <h1>Command Decision</h1>
 <p><a href="/activity/${encodeURIComponent(docId)}">← Back</a></p>
@@ -180,16 +329,39 @@ ${commandsRef}
   <div><strong>Raw:</strong> <code>${escapeHtml(cmd.raw_command)}</code></div>
   <div style="margin-top:8px"><strong>Summary:</strong> ${escapeHtml(summary)}</div>
 </div>
+${signerSection}
+${sipSection}
+${confirmationSection}
+${historySection}
+${!canDecide ? `
+<div class="card" style="margin-top:14px">
+  <p class="meta" style="margin:0">${escapeHtml(verified && !verified.ok ? verified.error : verified ? "None of this document's signers is a Stacks address that can sign" : "Read-only view")} — open the approval link from the document's APPROVAL_URL cell to approve or reject.</p>
+</div>` : `
 <div class="row" style="margin-top:14px">
   <button class="btn btn-approve" onclick="decide('APPROVED')">Approve</button>
   <button class="btn btn-reject" onclick="decide('REJECTED')">Reject</button>
 </div>
 <script>
+const sipPayloads = ${JSON.stringify(sipPayloads)};
+async function signWithWallet(payload) {
+  if (!window.LeatherProvider) throw new Error('No Stacks wallet found — paste a signature instead');
+  const resp = await window.LeatherProvider.request('stx_signStructuredMessage', { domain: payload.domain, message: payload.message });
+  return resp.result.signature;
+}
 async function decide(decision) {
+  const signer = sipPayloads ? document.getElementById('signer').value : undefined;
+  let signature;
+  if (sipPayloads) {
+    signature = document.getElementById('signature').value.trim();
+    if (!signature) {
+      try { signature = await signWithWallet(sipPayloads[decision]); }
+      catch (e) { alert(e.message || String(e)); return; }
+    }
+  }
   const res = await fetch('/api/command-decision', {
     method: 'POST',
-    headers: {'content-type': 'application/json'},
-    body: JSON.stringify({ docId: ${JSON.stringify(docId)}, cmdId: ${JSON.stringify(cmdId)}, decision })
+    headers: {'content-type': 'application/json', 'x-csrf-token': ${JSON.stringify(csrf)}},
+    body: JSON.stringify({ docId: ${JSON.stringify(docId)}, cmdId: ${JSON.stringify(cmdId)}, decision, token: ${JSON.stringify(token)}, signer, signature, sipExpiresAt: ${sipExpiresAt} })
   });
   const json = await res.json();
   if (!json.ok) {
@@ -198,7 +370,7 @@ async function decide(decision) {
   }
   location.href = '/activity/' + encodeURIComponent(${JSON.stringify(docId)});
 }
-</script>`);
+</script>`}`);
       }
 
       if (req.method === "GET" && url.pathname === "/api/docs") {
@@ -239,7 +411,23 @@ async function decide(decision) {
         });
       }
 
+      const payStatusMatch = matchPath(url.pathname, ["api", "pay", ":requestId"]);
+      if (req.method === "GET" && payStatusMatch) {
+        const request = deps.repo.getStacksPaymentRequest(decodeURIComponent(payStatusMatch.requestId));
+        if (!request) return sendJson(res, 404, { ok: false, error: "Payment request not found" });
+        return sendJson(res, 200, { ok: true, status: request.status, paidTxid: request.paid_txid, expiresAt: request.expires_at });
+      }
+
       if (req.method === "POST" && url.pathname === "/api/command-decision") {
+        const origin = req.headers.origin;
+        if (origin && origin !== "null" && new URL(origin).host !== req.headers.host) {
+          return sendJson(res, 403, { ok: false, error: "Cross-origin request refused" });
+        }
+        const csrfHeader = req.headers["x-csrf-token"];
+        if (!verifyCsrf(readCookie(req, "dw_csrf"), typeof csrfHeader === "string" ? csrfHeader : undefined)) {
+          return sendJson(res, 403, { ok: false, error: "Missing or invalid CSRF token" });
+        }
+
         const body = await readJson(req);
         const docId = typeof body?.docId === "string" ? body.docId : "";
         const cmdId = typeof body?.cmdId === "string" ? body.cmdId : "";
@@ -253,8 +441,92 @@ async function decide(decision) {
           return sendJson(res, 404, { ok: false, error: "Command not found" });
         }
 
+        const verified = verifyApprovalToken({
+          secret: deps.approvalSecret,
+          token: typeof body?.token === "string" ? body.token : "",
+          docId,
+          cmdId
+        });
+        if (!verified.ok) {
+          return sendJson(res, 403, { ok: false, error: verified.error });
+        }
+
+        if (cmd.status !== "PENDING_APPROVAL") {
+          return sendJson(res, 409, { ok: false, error: `Command is not awaiting approval (status=${cmd.status})` });
+        }
+
+        const signers = deps.repo.listSigners(docId);
+        if (signers.length > 0) {
+          // The link is readable by anyone with the doc; only the signer's SIP-018 signature speaks for them.
+          const signer = typeof body?.signer === "string" ? body.signer : "";
+          if (!signers.some((sg) => sg.address === signer)) {
+            return sendJson(res, 403, { ok: false, error: "Unknown signer for this document" });
+          }
+          if (!isStacksSigner(signer)) {
+            return sendJson(res, 403, { ok: false, error: "Only Stacks-address signers can approve (with a SIP-018 signature)" });
+          }
+          const check = verifyApprovalSignature({
+            network: deps.stxNetwork,
+            signerAddress: signer,
+            signature: typeof body?.signature === "string" ? body.signature : "",
+            message: {
+              docId,
+              cmdId,
+              commandHash: approvalCommandHash(cmd.parsed_json, cmd.raw_command),
+              decision: decision === "APPROVED" ? "APPROVE" : "REJECT",
+              expiresAt: Number(body?.sipExpiresAt)
+            }
+          });
+          if (!check.ok) return sendJson(res, 403, { ok: false, error: check.error });
+          if (!deps.repo.consumeApprovalNonce({ nonce: verified.payload.nonce, docId, cmdId, signerAddress: signer })) {
+            return sendJson(res, 409, { ok: false, error: "Approval link already used" });
+          }
+          deps.repo.recordCommandApproval({
+            docId,
+            cmdId,
+            signerAddress: signer,
+            decision: decision === "APPROVED" ? "APPROVE" : "REJECT",
+            auth: "SIP-018"
+          });
+          const tally = evaluateQuorum({
+            signers,
+            approvals: deps.repo.listCommandApprovals({ docId, cmdId }),
+            quorum: deps.repo.getDocQuorum(docId)
+          });
+          await appendAuditRow({
+            docs: deps.docs,
+            docId,
+            timestampIso: new Date().toISOString(),
+            message: `${cmdId} ${decision === "APPROVED" ? "APPROVE" : "REJECT"} by ${signer} (${tally.approvedWeight}/${tally.quorum}) (SIP-018)`
+          });
+
+          if (tally.status === "APPROVED") {
+            if (!deps.repo.setCommandStatus(cmdId, "APPROVED", { source: "web", actor: signer, detail: `quorum ${tally.approvedWeight}/${tally.quorum}` })) {
+              return sendJson(res, 409, { ok: false, error: "Command status changed concurrently" });
+            }
+            await writeDocCommandStatus(deps.docs, docId, cmdId, "APPROVED", "");
+            await appendAuditRow({ docs: deps.docs, docId, timestampIso: new Date().toISOString(), message: `${cmdId} APPROVED (quorum ${tally.approvedWeight}/${tally.quorum})` });
+          } else if (tally.status === "REJECTED") {
+            const reason = `Rejected by signers (quorum ${tally.quorum} unreachable)`;
+            if (!deps.repo.setCommandStatus(cmdId, "REJECTED", { source: "web", actor: signer, detail: reason, errorText: reason })) {
+              return sendJson(res, 409, { ok: false, error: "Command status changed concurrently" });
+            }
+            await writeDocCommandStatus(deps.docs, docId, cmdId, "REJECTED", reason);
+            await appendAuditRow({ docs: deps.docs, docId, timestampIso: new Date().toISOString(), message: `${cmdId} REJECTED (${reason})` });
+          } else {
+            await writeDocCommandResult(deps.docs, docId, cmdId, `Approvals ${tally.approvedWeight}/${tally.quorum}`);
+          }
+          return sendJson(res, 200, { ok: true, status: tally.status, approvedWeight: tally.approvedWeight, quorum: tally.quorum });
+        }
+
+        if (!deps.repo.consumeApprovalNonce({ nonce: verified.payload.nonce, docId, cmdId })) {
+          return sendJson(res, 409, { ok: false, error: "Approval link already used" });
+        }
+
         if (decision === "APPROVED") {
-          deps.repo.setCommandStatus(cmdId, "APPROVED");
+          if (!deps.repo.setCommandStatus(cmdId, "APPROVED", { source: "web", actor: "web" })) {
+            return sendJson(res, 409, { ok: false, error: "Command status changed concurrently" });
+          }
           await writeDocCommandStatus(deps.docs, docId, cmdId, "APPROVED", "");
           await appendAuditRow({
             docs: deps.docs,
@@ -265,7 +537,9 @@ async function decide(decision) {
           return sendJson(res, 200, { ok: true });
         }
 
-        deps.repo.setCommandStatus(cmdId, "REJECTED", { errorText: "Rejected via web UI" });
+        if (!deps.repo.setCommandStatus(cmdId, "REJECTED", { source: "web", actor: "web", errorText: "Rejected via web UI" })) {
+          return sendJson(res, 409, { ok: false, error: "Command status changed concurrently" });
+        }
         await writeDocCommandStatus(deps.docs, docId, cmdId, "REJECTED", "Rejected via web UI");
         await appendAuditRow({
           docs: deps.docs,
@@ -285,6 +559,7 @@ async function decide(decision) {
   server.listen(deps.port, () => {
     console.log(`[server] listening on ${deps.publicBaseUrl}`);
   });
+  return server;
 }
 
 async function writeDocCommandStatus(
@@ -307,8 +582,23 @@ async function writeDocCommandStatus(
   });
 }
 
+async function writeDocCommandResult(docs: docs_v1.Docs, docId: string, cmdId: string, result: string) {
+  const tables = await loadDocWalletTables({ docs, docId });
+  const rows = readCommandsTable(tables.commands.table);
+  const row = rows.find((r) => r.id === cmdId);
+  if (!row) return;
+  await updateCommandsRowCells({
+    docs,
+    docId,
+    commandsTable: tables.commands.table,
+    rowIndex: row.rowIndex,
+    updates: { result }
+  });
+}
+
 function describeCommand(cmd: any): string {
   if (!cmd || typeof cmd !== "object" || typeof cmd.type !== "string") return "Unknown command";
+  if (typeof cmd.feeTier === "string") return `${describeCommand({ ...cmd, feeTier: undefined })} (fee tier: ${cmd.feeTier})`;
   switch (cmd.type) {
     case "SETUP":
       return "Create STX + EVM wallets for this document";
@@ -319,40 +609,69 @@ function describeCommand(cmd: any): string {
     // STX
     case "STX_PRICE":
       return "Fetch STX/USD price";
+    case "PRICE":
+      return `Summarize ${cmd.pair} price history`;
     case "STX_BALANCE":
       return "View STX balance";
     case "STX_SEND":
-      return `Send ${cmd.amountMicroStx ?? "?"} microSTX to ${shortAddress(cmd.to)}`;
+      return `Send ${amountText(cmd.amountMicroStx, "STX")} to ${shortAddress(cmd.to)}`;
     case "STX_HISTORY":
       return `Show last ${cmd.limit ?? 10} transactions`;
     case "STX_STOP_LOSS":
-      return `Create STX stop-loss at $${cmd.triggerPrice}`;
+      return `Create STX stop-loss at $${cmd.triggerPrice} (swaps ${cmd.qty} STX to USDCx when hit)`;
     case "STX_TAKE_PROFIT":
-      return `Create STX take-profit at $${cmd.triggerPrice}`;
+      return `Create STX take-profit at $${cmd.triggerPrice} (swaps ${cmd.qty} STX to USDCx when hit)`;
+    case "TRAILING_STOP":
+      return `Create ${AMOUNT_ASSETS[cmd.asset as AmountAsset]?.display ?? cmd.asset} trailing stop ${cmd.trailPct !== undefined ? `${cmd.trailPct}%` : `$${cmd.trailAbs}`} below peak (swaps ${cmd.qty} to USDCx when hit)`;
+    case "OCO":
+      return `Create ${AMOUNT_ASSETS[cmd.asset as AmountAsset]?.display ?? cmd.asset} OCO: stop-loss $${cmd.stopPrice} / take-profit $${cmd.takeProfitPrice} (swaps ${cmd.qty} to USDCx)`;
+    case "LIMIT_BUY":
+      return `Create ${AMOUNT_ASSETS[cmd.asset as AmountAsset]?.display ?? cmd.asset} limit buy of ${cmd.qty} at $${cmd.limitPrice} (paid in USDCx)`;
+    case "SWAP":
+      return `Swap ${amountText(cmd.amountIn, cmd.fromAsset)} to ${AMOUNT_ASSETS[cmd.toAsset as AmountAsset]?.display ?? cmd.toAsset} (max slippage ${Number(cmd.maxSlippageBps) / 100}%)`;
     // sBTC
     case "SBTC_BALANCE":
       return "View sBTC balance";
     case "SBTC_SEND":
-      return `Send ${cmd.amountSats ?? "?"} sats sBTC to ${shortAddress(cmd.to)}`;
+      return `Send ${amountText(cmd.amountSats, "SBTC")} to ${shortAddress(cmd.to)}`;
     case "SBTC_INFO":
       return "sBTC contract info and total supply";
     // USDCx
     case "USDCX_BALANCE":
       return "View USDCx balance";
     case "USDCX_SEND":
-      return `Send ${cmd.amount ?? "?"} USDCx to ${shortAddress(cmd.to)}`;
+      return `Send ${amountText(cmd.amount, "USDCX")} to ${shortAddress(cmd.to)}`;
     case "USDCX_APPROVE":
-      return `Approve ${cmd.amount ?? "?"} USDCx for ${shortAddress(cmd.spender)}`;
+      return `Approve ${amountText(cmd.amount, "USDCX")} for ${shortAddress(cmd.spender)}`;
     case "USDCX_PAYMENT":
       return `Create USDCx payment request for $${cmd.amount ?? "?"}: "${cmd.description ?? ""}"`;
+    case "PAYMENT_REQUEST":
+      return `Create payment request for ${cmd.amount ?? "?"} ${AMOUNT_ASSETS[cmd.token as AmountAsset]?.display ?? cmd.token ?? "?"}: "${cmd.description ?? ""}"`;
+    case "PAYMENT_CHECK":
+      return `Check payment request ${cmd.requestId ?? "?"}`;
+    case "PAYMENTS":
+      return `List ${cmd.status ? `${cmd.status === "pending" ? "open" : cmd.status} ` : ""}payment requests`;
     // x402
     case "X402_CALL":
       return `Pay-and-call ${cmd.url ?? "?"} via x402 protocol`;
     case "X402_STATUS":
       return `Check x402 payment status for txid ${shortAddress(cmd.txid)}`;
+    case "SIMULATE":
+      return `Dry run, nothing is broadcast: ${describeCommand(cmd.command)}`;
+    // Fee replacement
+    case "SPEED_UP":
+      return `Rebroadcast ${shortAddress(cmd.txid)} at the same nonce with a higher fee`;
+    case "CANCEL_TX":
+      return `Cancel ${shortAddress(cmd.txid)} by replacing it with a 1 uSTX transfer to the burn address`;
     // Contracts
-    case "CONTRACT_CALL":
-      return `Call ${shortAddress(cmd.contractAddress)}.${cmd.contractName ?? "?"}::${cmd.functionName ?? "?"}`;
+    case "CONTRACT_CALL": {
+      const post = Array.isArray(cmd.postConditions) && cmd.postConditions.length > 0
+        ? ` (post-conditions: ${cmd.postConditions.map((pc: PostConditionSpec) => formatPostCondition(pc)).join("; ")})`
+        : " (deny mode: no asset transfers allowed)";
+      return `Call ${shortAddress(cmd.contractAddress)}.${cmd.contractName ?? "?"}::${cmd.functionName ?? "?"}${post}`;
+    }
+    case "CONTRACT_INFO":
+      return `Describe contract ${shortAddress(cmd.contractAddress)}.${cmd.contractName ?? "?"}`;
     case "CONTRACT_READ":
       return `Read ${shortAddress(cmd.contractAddress)}.${cmd.contractName ?? "?"}::${cmd.functionName ?? "?"}`;
     // Stacking
@@ -366,22 +685,53 @@ function describeCommand(cmd: any): string {
     case "CANCEL_SCHEDULE":
       return `Cancel schedule ${cmd.scheduleId ?? "?"}`;
     case "ALERT_THRESHOLD":
-      return `Alert when ${cmd.coinType ?? "?"} < ${cmd.below ?? "?"}`;
+      return `Alert when ${cmd.coinType ?? "?"} balance < ${cmd.usd ? "$" : ""}${cmd.below ?? "?"}`;
+    case "ALERTS":
+      return cmd.clear ? "Clear balance alerts" : "List balance alerts";
     case "AUTO_REBALANCE":
       return `Auto-rebalance ${cmd.enabled ? "ON" : "OFF"}`;
     case "CANCEL_ORDER":
       return `Cancel order ${cmd.orderId ?? "?"}`;
+    // Signers
+    case "SIGNER_ADD":
+      return `Add signer ${cmd.signerId ?? "?"} with weight ${cmd.weight ?? "?"}`;
+    case "SIGNER_REMOVE":
+      return `Remove signer ${cmd.signerId ?? "?"}`;
+    case "QUORUM":
+      return `Set approval quorum to ${cmd.quorum ?? "?"}`;
+    case "SIGNERS":
+      return "List signers and quorum";
     default:
       return `${cmd.type} command`;
   }
 }
 
+/**
+ * The status follows the payment watcher, which can still settle a payment that arrived before
+ * expiry; until it marks the request, a pending request past its expiry awaits confirmation.
+ */
+function invoiceStatusText(r: StacksPaymentRequestRow): string {
+  if (r.status === "paid") return `✅ Paid${r.paid_txid ? ` (txid ${r.paid_txid})` : ""}`;
+  if (r.status === "expired") return "⌛ Expired — unpaid";
+  if (r.expires_at <= Date.now()) return "⏳ Expired — pending confirmation of any payment sent in time";
+  return "⏳ Awaiting payment";
+}
+
 function shortAddress(addr?: string): string {
   if (!addr) return "(none)";
   if (addr.length <= 18) return addr;
   return `${addr.slice(0, 10)}…${addr.slice(-6)}`;
 }
 
+function amountText(value: unknown, asset: AmountAsset): string {
+  if (typeof value !== "string" && typeof value !== "number" && typeof value !== "bigint") return "?";
+  try {
+    return describeAmount(BigInt(value), asset);
+  } catch {
+    return String(value);
+  }
+}
+
 function readJson(req: http.IncomingMessage): Promise<any> {
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
@@ -398,6 +748,14 @@ function readJson(req: http.IncomingMessage): Promise<any> {
   });
 }
 
+function readCookie(req: http.IncomingMessage, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const idx = part.indexOf("=");
+    if (idx > 0 && part.slice(0, idx).trim() === name) return decodeURIComponent(part.slice(idx + 1).trim());
+  }
+  return undefined;
+}
+
 function sendJson(res: http.ServerResponse, status: number, payload: unknown) {
   const body = JSON.stringify(payload);
   res.statusCode = status;
@@ -0,0 +1,59 @@
+import type { Repo } from "../db/repo.js";
+
+/** Nonce view of an account as reported by Hiro's /extended/v1/address/:addr/nonces. */
+export type AccountNonceState = {
+  lastExecutedNonce: number | null;
+  possibleNextNonce: number;
+  detectedMissingNonces: number[];
+  detectedMempoolNonces: number[];
+};
+
+/** A reservation that never reached broadcast (crash while signing) is reclaimed after this. */
+const RESERVATION_TTL_MS = 5 * 60_000;
+/** A broadcast tx the node reports as missing for this long is treated as dropped. */
+const BROADCAST_GRACE_MS = 2 * 60_000;
+
+/**
+ * Per-address nonce allocator persisted in SQLite, so several transactions from the same
+ * wallet (two approvals in one executor tick, a schedule next to a manual send) get distinct
+ * nonces. Allocation is synchronous against the repo, which makes it atomic within the process.
+ */
+export class NonceManager {
+  constructor(private repo: Repo) {}
+
+  /** Reserve the lowest nonce that is neither executed, in the mempool nor held locally; gaps are filled first. */
+  reserve(address: string, chain: AccountNonceState, now = Date.now()): number {
+    this.reconcile(address, chain, now);
+    const base = chain.lastExecutedNonce === null ? 0 : chain.lastExecutedNonce + 1;
+    const taken = new Set<number>(chain.detectedMempoolNonces);
+    for (const r of this.repo.listNonceReservations(address)) taken.add(r.nonce);
+
+    let nonce = base;
+    while (taken.has(nonce)) nonce++;
+    this.repo.insertNonceReservation(address, nonce);
+    return nonce;
+  }
+
+  markBroadcast(address: string, nonce: number, txid: string) {
+    this.repo.markNonceBroadcast(address, nonce, txid);
+  }
+
+  /** Give a nonce back after a failed broadcast so the next transaction fills the gap. */
+  release(address: string, nonce: number) {
+    this.repo.deleteNonceReservation(address, nonce);
+  }
+
+  /** Align local reservations with the chain: forget executed nonces and reclaim abandoned or dropped ones. */
+  reconcile(address: string, chain: AccountNonceState, now = Date.now()) {
+    if (chain.lastExecutedNonce !== null) this.repo.pruneNonceReservations(address, chain.lastExecutedNonce);
+    const missing = new Set(chain.detectedMissingNonces);
+    const mempool = new Set(chain.detectedMempoolNonces);
+    for (const r of this.repo.listNonceReservations(address)) {
+      const age = now - r.updated_at;
+      const abandoned = r.status === "RESERVED" && age > RESERVATION_TTL_MS;
+      const dropped = r.status === "BROADCAST" && !mempool.has(r.nonce) && age > BROADCAST_GRACE_MS &&
+        (missing.has(r.nonce) || r.nonce >= chain.possibleNextNonce);
+      if (abandoned || dropped) this.repo.deleteNonceReservation(address, r.nonce);
+    }
+  }
+}
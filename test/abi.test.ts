@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ClarityAbi } from "@stacks/transactions";
+import { describeContractAbi, validateContractArgs } from "../src/core/abi.js";
+import { parseClarityArgs } from "../src/core/clarity.js";
+import type { ClarityLiteral } from "../src/core/clarity.js";
+import type { StacksClient } from "../src/integrations/stacks.js";
+import { fakeDoc } from "./fake-docwallet.js";
+import { makeEngine } from "./helpers.js";
+
+vi.mock("../src/google/docwallet.js", () => import("./fake-docwallet.js"));
+
+const abi: ClarityAbi = {
+  functions: [
+    {
+      name: "transfer",
+      access: "public",
+      args: [
+        { name: "amount", type: "uint128" },
+        { name: "recipient", type: "principal" },
+        { name: "memo", type: { optional: { buffer: { length: 34 } } } }
+      ],
+      outputs: { type: { response: { ok: "bool", error: "uint128" } } }
+    },
+    {
+      name: "set-meta",
+      access: "public",
+      args: [{ name: "meta", type: { tuple: [{ name: "label", type: { "string-ascii": { length: 8 } } }, { name: "delta", type: "int128" }] } }],
+      outputs: { type: { response: { ok: "bool", error: "uint128" } } }
+    },
+    { name: "get-balance", access: "read_only", args: [{ name: "who", type: "principal" }], outputs: { type: "uint128" } },
+    { name: "internal", access: "private", args: [], outputs: { type: "bool" } }
+  ],
+  variables: [{ name: "owner", access: "constant", type: "principal" }],
+  maps: [{ name: "balances", key: "principal", value: "uint128" }],
+  fungible_tokens: [{ name: "token" }],
+  non_fungible_tokens: []
+};
+
+const ADDR = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+function args(src: string): ClarityLiteral[] {
+  const r = parseClarityArgs(src);
+  if (!r.ok) throw new Error(r.error);
+  return r.value;
+}
+
+describe("validateContractArgs", () => {
+  it("coerces literals to the declared types", () => {
+    const r = validateContractArgs({ abi, functionName: "transfer", mode: "CONTRACT_CALL", args: args(`100 '${ADDR} 0x01`) });
+    expect(r).toEqual({
+      ok: true,
+      args: [
+        { type: "uint", value: "100" },
+        { type: "principal", value: ADDR },
+        { type: "some", value: { type: "buffer", hex: "01" } }
+      ]
+    });
+  });
+
+  it("rejects unknown functions, wrong access and wrong arity", () => {
+    expect(validateContractArgs({ abi, functionName: "transfr", mode: "CONTRACT_CALL", args: [] }).ok).toBe(false);
+    expect(validateContractArgs({ abi, functionName: "get-balance", mode: "CONTRACT_CALL", args: args(`'${ADDR}`) }).ok).toBe(false);
+    expect(validateContractArgs({ abi, functionName: "transfer", mode: "CONTRACT_READ", args: args(`u1 '${ADDR} none`) }).ok).toBe(false);
+    expect(validateContractArgs({ abi, functionName: "internal", mode: "CONTRACT_CALL", args: [] }).ok).toBe(false);
+    const arity = validateContractArgs({ abi, functionName: "transfer", mode: "CONTRACT_CALL", args: args("u1") });
+    expect(!arity.ok && arity.error).toMatch(/expects 3 argument/);
+  });
+
+  it("reports type mismatches with the argument path", () => {
+    const neg = validateContractArgs({ abi, functionName: "transfer", mode: "CONTRACT_CALL", args: args(`-1 '${ADDR} none`) });
+    expect(!neg.ok && neg.error).toMatch(/'amount'/);
+    const tuple = validateContractArgs({ abi, functionName: "set-meta", mode: "CONTRACT_CALL", args: args(`{label: "toolonglabel", delta: u2}`) });
+    expect(!tuple.ok && tuple.error).toMatch(/meta/);
+    const ok = validateContractArgs({ abi, functionName: "set-meta", mode: "CONTRACT_CALL", args: args(`{delta: u2, label: "x"}`) });
+    expect(ok.ok && ok.args[0]).toEqual({ type: "tuple", fields: { label: { type: "string-ascii", value: "x" }, delta: { type: "int", value: "2" } } });
+  });
+});
+
+describe("describeContractAbi", () => {
+  it("lists functions, maps, variables and tokens", () => {
+    const text = describeContractAbi(`${ADDR}.token`, abi);
+    expect(text).toContain("transfer(amount: uint, recipient: principal");
+    expect(text).toContain("get-balance(who: principal) -> uint");
+    expect(text).toContain("balances: principal => uint");
+    expect(text).toContain("owner (constant): principal");
+    expect(text).not.toContain("internal");
+  });
+});
+
+describe("contract interface check in the engine", () => {
+  const setup = () => {
+    const stacks = { getContractAbi: vi.fn(async () => abi) } as unknown as StacksClient;
+    const { engine, repo } = makeEngine({ stacks });
+    repo.upsertDoc({ docId: "doc1", name: "Treasury" });
+    return { engine, repo };
+  };
+  const storedArgs = (json: string | null | undefined) => (JSON.parse(json ?? "{}") as { args?: ClarityLiteral[] }).args;
+
+  it("checks contract calls typed in chat like those in the Commands table", async () => {
+    const { engine, repo } = setup();
+    const doc = fakeDoc("doc1", {
+      chat: [
+        { user: `!execute DW CONTRACT_CALL ${ADDR}.token transfer 100 '${ADDR} 0x01`, agent: "" },
+        { user: `!execute DW CONTRACT_CALL ${ADDR}.token transfr u1`, agent: "" }
+      ]
+    });
+
+    await engine.chatTick();
+
+    expect(doc.commands).toHaveLength(1);
+    expect(storedArgs(repo.getCommand(doc.commands[0]!.id)?.parsed_json)?.[0]).toEqual({ type: "uint", value: "100" });
+    expect(doc.chat[1]!.agent).toMatch(/^Invalid command: Unknown function 'transfr'/);
+  });
+
+  it("checks a schedule's contract call each time it runs", async () => {
+    const { engine, repo } = setup();
+    const doc = fakeDoc("doc1");
+    repo.insertSchedule({ scheduleId: "sched_ok", docId: "doc1", intervalHours: 1, innerCommand: `DW CONTRACT_CALL ${ADDR}.token transfer 5 '${ADDR} none`, nextRunAt: 0 });
+    repo.insertSchedule({ scheduleId: "sched_bad", docId: "doc1", intervalHours: 1, innerCommand: `DW CONTRACT_CALL ${ADDR}.token get-balance '${ADDR}`, nextRunAt: 0 });
+
+    await engine.schedulerTick();
+
+    expect(doc.commands).toHaveLength(1);
+    const cmd = repo.getCommand(doc.commands[0]!.id);
+    expect(cmd?.status).toBe("APPROVED");
+    expect(storedArgs(cmd?.parsed_json)?.[0]).toEqual({ type: "uint", value: "5" });
+    expect(repo.getSchedule("sched_bad")?.status).toBe("CANCELLED");
+    expect(doc.audit.at(-1)).toMatch(/sched_bad CANCELLED \(invalid inner command: 'get-balance' is read-only/);
+  });
+});
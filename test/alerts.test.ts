@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { parseCommand } from "../src/core/commands.js";
+import { alertThresholdKey, alertTransition, readAlertThresholds } from "../src/core/alerts.js";
+import { makeRepo } from "./helpers.js";
+
+describe("balance alerts", () => {
+  it("parses USD thresholds and DW ALERTS", () => {
+    expect(parseCommand("DW ALERT_THRESHOLD STX BELOW $50")).toEqual({
+      ok: true, value: { type: "ALERT_THRESHOLD", coinType: "STX", below: 50, usd: true }
+    });
+    expect(parseCommand("DW ALERT sbtc BELOW 250USD")).toEqual({
+      ok: true, value: { type: "ALERT_THRESHOLD", coinType: "SBTC", below: 250, usd: true }
+    });
+    expect(parseCommand("DW ALERTS")).toEqual({ ok: true, value: { type: "ALERTS", clear: false } });
+    expect(parseCommand("DW ALERTS clear")).toEqual({ ok: true, value: { type: "ALERTS", clear: true } });
+    expect(parseCommand("DW ALERTS ALL").ok).toBe(false);
+  });
+
+  it("reads thresholds from doc config in both units", () => {
+    const rows = [
+      { key: alertThresholdKey("STX", "TOKEN"), value: "100" },
+      { key: alertThresholdKey("SBTC", "USD"), value: "500" },
+      { key: "alert_threshold_usdcx", value: "0" },
+      { key: "alert_threshold_bch", value: "1" },
+      { key: "auto_rebalance", value: "1" }
+    ];
+    expect(readAlertThresholds(rows)).toEqual([
+      { asset: "STX", unit: "TOKEN", below: 100 },
+      { asset: "SBTC", unit: "USD", below: 500 }
+    ]);
+  });
+
+  it("fires once per crossing and re-arms on recovery", () => {
+    expect(alertTransition(90, 100, false)).toBe("FIRE");
+    expect(alertTransition(80, 100, true)).toBeNull();
+    expect(alertTransition(100, 100, true)).toBe("REARM");
+    expect(alertTransition(120, 100, false)).toBeNull();
+  });
+
+  it("tracks tripped alerts separately from acknowledgement", () => {
+    const repo = makeRepo();
+    repo.insertBalanceAlert({ docId: "doc", asset: "STX", unit: "TOKEN", threshold: 100, value: 90, message: "STX balance 90 fell below 100" });
+    const tripped = repo.getTrippedBalanceAlert("doc", "STX", "TOKEN");
+    expect(tripped).toMatchObject({ threshold: 100, value: 90 });
+    expect(repo.getTrippedBalanceAlert("doc", "STX", "USD")).toBeUndefined();
+
+    expect(repo.clearBalanceAlerts("doc")).toBe(1);
+    expect(repo.listBalanceAlerts("doc")).toEqual([]);
+    expect(repo.getTrippedBalanceAlert("doc", "STX", "TOKEN")?.alert_id).toBe(tripped!.alert_id);
+
+    repo.rearmBalanceAlert(tripped!.alert_id);
+    expect(repo.getTrippedBalanceAlert("doc", "STX", "TOKEN")).toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { describeAmount, formatUnits, parseAmount } from "../src/core/amounts.js";
+import { parseCommand, tryAutoDetect } from "../src/core/commands.js";
+
+const ADDR = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+describe("unit-suffixed amounts", () => {
+  it("converts decimals exactly", () => {
+    expect(parseAmount("1.5STX", "STX")).toEqual({ ok: true, value: 1_500_000n });
+    expect(parseAmount("2500uSTX", "STX")).toEqual({ ok: true, value: 2500n });
+    expect(parseAmount("0.01BTC", "SBTC")).toEqual({ ok: true, value: 1_000_000n });
+    expect(parseAmount("1000sats", "SBTC")).toEqual({ ok: true, value: 1000n });
+    expect(parseAmount("25.50USDCx", "USDCX")).toEqual({ ok: true, value: 25_500_000n });
+    // 0.1 + 0.2 style float drift must not leak in
+    expect(parseAmount("0.3 stx", "STX")).toEqual({ ok: true, value: 300_000n });
+    expect(parseAmount("123456789012.123456STX", "STX")).toEqual({ ok: true, value: 123_456_789_012_123_456n });
+  });
+
+  it("keeps bare integers in base units", () => {
+    expect(parseAmount("2500", "STX")).toEqual({ ok: true, value: 2500n });
+    expect(parseAmount("9007199254740993", "SBTC")).toEqual({ ok: true, value: 9_007_199_254_740_993n });
+  });
+
+  it("rejects excess precision, wrong units and bare decimals", () => {
+    expect(parseAmount("1.0000001STX", "STX").ok).toBe(false);
+    expect(parseAmount("1.5uSTX", "STX").ok).toBe(false);
+    expect(parseAmount("1BTC", "STX").ok).toBe(false);
+    expect(parseAmount("1.5", "STX").ok).toBe(false);
+    expect(parseAmount("0STX", "STX").ok).toBe(false);
+    expect(parseAmount("-1STX", "STX").ok).toBe(false);
+  });
+
+  it("formats both units", () => {
+    expect(formatUnits(1_500_000n, 6)).toBe("1.5");
+    expect(formatUnits(1n, 8)).toBe("0.00000001");
+    expect(describeAmount(1_500_000n, "STX")).toBe("1.5 STX (1500000 uSTX)");
+    expect(describeAmount("1000", "SBTC")).toBe("0.00001 sBTC (1000 sats)");
+  });
+
+  it("parses suffixed amounts in send commands", () => {
+    expect(parseCommand(`DW STX_SEND ${ADDR} 1.5STX`)).toEqual({
+      ok: true,
+      value: { type: "STX_SEND", to: ADDR, amountMicroStx: 1_500_000n }
+    });
+    expect(parseCommand(`DW SBTC_SEND ${ADDR} 0.01 BTC`)).toEqual({
+      ok: true,
+      value: { type: "SBTC_SEND", to: ADDR, amountSats: 1_000_000n }
+    });
+    expect(parseCommand(`DW USDCX_APPROVE ${ADDR} 25.50USDCx`)).toEqual({
+      ok: true,
+      value: { type: "USDCX_APPROVE", spender: ADDR, amount: 25_500_000n }
+    });
+    expect(parseCommand(`DW STX_SEND ${ADDR} 1.5sats`).ok).toBe(false);
+  });
+
+  it("routes natural-language sends through exact conversion", () => {
+    expect(tryAutoDetect(`send 0.1 STX to ${ADDR}`)).toEqual({
+      ok: true,
+      value: { type: "STX_SEND", to: ADDR, amountMicroStx: 100_000n }
+    });
+    expect(tryAutoDetect(`send 0.29 USDCx to ${ADDR}`)).toEqual({
+      ok: true,
+      value: { type: "USDCX_SEND", to: ADDR, amount: 290_000n }
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { createApprovalToken, deriveApprovalSecret, verifyApprovalToken, verifyCsrf } from "../src/core/approval.js";
+
+const secret = deriveApprovalSecret("a".repeat(64));
+
+describe("approval tokens", () => {
+  it("round-trips a token bound to doc, command and signer", () => {
+    const token = createApprovalToken({ secret, docId: "doc1", cmdId: "cmd_1", signer: "alice" });
+    const r = verifyApprovalToken({ secret, token, docId: "doc1", cmdId: "cmd_1" });
+    expect(r.ok).toBe(true);
+    if (r.ok) {
+      expect(r.payload.signer).toBe("alice");
+      expect(r.payload.nonce.length).toBeGreaterThan(0);
+    }
+  });
+
+  it("rejects tokens for a different command", () => {
+    const token = createApprovalToken({ secret, docId: "doc1", cmdId: "cmd_1" });
+    expect(verifyApprovalToken({ secret, token, docId: "doc1", cmdId: "cmd_2" }).ok).toBe(false);
+  });
+
+  it("rejects expired tokens", () => {
+    const token = createApprovalToken({ secret, docId: "doc1", cmdId: "cmd_1", ttlMs: 1000, now: 0 });
+    const r = verifyApprovalToken({ secret, token, docId: "doc1", cmdId: "cmd_1", now: 5000 });
+    expect(r).toEqual({ ok: false, error: "Approval token expired" });
+  });
+
+  it("rejects tampered payloads and foreign secrets", () => {
+    const token = createApprovalToken({ secret, docId: "doc1", cmdId: "cmd_1" });
+    const [v, body, mac] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(body!, "base64url").toString()), signer: "mallory" })
+    ).toString("base64url");
+    expect(verifyApprovalToken({ secret, token: `${v}.${forged}.${mac}`, docId: "doc1", cmdId: "cmd_1" }).ok).toBe(false);
+
+    const other = deriveApprovalSecret("b".repeat(64));
+    expect(verifyApprovalToken({ secret: other, token, docId: "doc1", cmdId: "cmd_1" }).ok).toBe(false);
+  });
+});
+
+describe("verifyCsrf", () => {
+  it("requires matching cookie and header values", () => {
+    expect(verifyCsrf("abc", "abc")).toBe(true);
+    expect(verifyCsrf("abc", "abd")).toBe(false);
+    expect(verifyCsrf(undefined, "abc")).toBe(false);
+  });
+});
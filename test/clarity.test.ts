@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { Cl } from "@stacks/transactions";
+import { formatClarityLiteral, parseClarityArgs, toClarityValue } from "../src/core/clarity.js";
+import { parseCommand } from "../src/core/commands.js";
+
+const ADDR = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+function parse(src: string) {
+  const r = parseClarityArgs(src);
+  if (!r.ok) throw new Error(r.error);
+  return r.value;
+}
+
+describe("parseClarityArgs", () => {
+  it("parses scalar literals", () => {
+    expect(parse(`u100 -5 true 0xDEADbeef "a  b" u"héllo" none`)).toEqual([
+      { type: "uint", value: "100" },
+      { type: "int", value: "-5" },
+      { type: "bool", value: true },
+      { type: "buffer", hex: "deadbeef" },
+      { type: "string-ascii", value: "a  b" },
+      { type: "string-utf8", value: "héllo" },
+      { type: "none" }
+    ]);
+  });
+
+  it("reads bare integers as int, as Clarity does", () => {
+    expect(parse("100 -100 u100")).toEqual([
+      { type: "int", value: "100" },
+      { type: "int", value: "-100" },
+      { type: "uint", value: "100" }
+    ]);
+    expect(toClarityValue(parse("7")[0]!)).toEqual(Cl.int(7));
+    expect(parseClarityArgs(`${(1n << 127n).toString()}`).ok).toBe(false);
+  });
+
+  it("parses principals, optionals, lists and tuples", () => {
+    const [p, c, some, list, tuple] = parse(`'${ADDR} ${ADDR}.my-token (some u1) (list u1 u2) {amount: u5, to: '${ADDR}}`);
+    expect(p).toEqual({ type: "principal", value: ADDR });
+    expect(c).toEqual({ type: "principal", value: `${ADDR}.my-token` });
+    expect(some).toEqual({ type: "some", value: { type: "uint", value: "1" } });
+    expect(list).toEqual({ type: "list", items: [{ type: "uint", value: "1" }, { type: "uint", value: "2" }] });
+    expect(toClarityValue(tuple!)).toEqual(Cl.tuple({ amount: Cl.uint(5), to: Cl.principal(ADDR) }));
+  });
+
+  it("rejects ambiguous or malformed input", () => {
+    expect(parseClarityArgs("hello").ok).toBe(false);
+    expect(parseClarityArgs(`"héllo"`).ok).toBe(false);
+    expect(parseClarityArgs("0xabc").ok).toBe(false);
+    expect(parseClarityArgs("(some u1 u2)").ok).toBe(false);
+    expect(parseClarityArgs("{a: u1").ok).toBe(false);
+    expect(parseClarityArgs(`u${(1n << 128n).toString()}`).ok).toBe(false);
+    expect(parseClarityArgs("'SPNOTANADDRESS").ok).toBe(false);
+  });
+
+  it("round-trips through formatClarityLiteral", () => {
+    const src = `u7 7 -1 false 0x00 "q\\"uote" u"ü" '${ADDR} none (ok (list u1)) {a: (some true)}`;
+    const lits = parse(src);
+    expect(parse(lits.map(formatClarityLiteral).join(" "))).toEqual(lits);
+    expect(lits.slice(0, 2).map(formatClarityLiteral)).toEqual(["u7", "7"]);
+  });
+});
+
+describe("CONTRACT_CALL arguments", () => {
+  it("keeps typed args and string spacing from the raw cell", () => {
+    const r = parseCommand(`DW CONTRACT_CALL ${ADDR}.counter set-label "two  spaces" u3`);
+    expect(r.ok && r.value.type === "CONTRACT_CALL" && r.value.args).toEqual([
+      { type: "string-ascii", value: "two  spaces" },
+      { type: "uint", value: "3" }
+    ]);
+  });
+
+  it("rejects invalid literals before approval", () => {
+    expect(parseCommand(`DW CONTRACT_READ ${ADDR}.counter get-count bare`).ok).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * In-memory stand-in for src/google/docwallet.ts, for engine and server tests:
+ *   vi.mock("../src/google/docwallet.js", () => import("./fake-docwallet.js"));
+ * Each doc is plain rows; every "table" handed to the engine is the doc itself.
+ */
+import type { docs_v1 } from "googleapis";
+import type { CommandRow, OpenOrderRow } from "../src/google/docwallet.js";
+
+type Cells<T> = Omit<T, "rowIndex">;
+
+export type FakeDoc = {
+  docId: string;
+  config: Record<string, string>;
+  commands: Array<Cells<CommandRow>>;
+  chat: Array<{ user: string; agent: string }>;
+  /** Fixed number of rows, like the template's table. */
+  openOrders: Array<Cells<OpenOrderRow>>;
+  /** Number of updateOpenOrdersTable calls. */
+  openOrdersWrites: number;
+  balances: Array<{ location: string; asset: string; balance: string }>;
+  audit: string[];
+  recentActivity: Array<{ type: string; details: string; tx: string }>;
+  /** Makes appendRecentActivityRow throw for matching rows, to simulate a Docs API failure. */
+  failRecentActivity?: (row: { type: string; details: string; tx: string }) => boolean;
+};
+
+const docs = new Map<string, FakeDoc>();
+
+const BLANK_ORDER = { orderId: "", side: "", price: "", qty: "", status: "", updatedAt: "", tx: "" };
+
+/** A fresh, empty doc; replaces any earlier doc with the same id. */
+export function fakeDoc(docId: string, init: Partial<Omit<FakeDoc, "docId">> = {}): FakeDoc {
+  const doc: FakeDoc = {
+    docId,
+    config: {},
+    commands: [],
+    chat: [],
+    openOrders: Array.from({ length: 5 }, () => ({ ...BLANK_ORDER })),
+    openOrdersWrites: 0,
+    balances: [],
+    audit: [],
+    recentActivity: [],
+    ...init
+  };
+  docs.set(docId, doc);
+  return doc;
+}
+
+function docOf(ref: { docId: string } | docs_v1.Schema$Table): FakeDoc {
+  const doc = docs.get((ref as { docId: string }).docId);
+  if (!doc) throw new Error(`No fake doc ${(ref as { docId: string }).docId}`);
+  return doc;
+}
+
+function table(doc: FakeDoc) {
+  return { table: doc as docs_v1.Schema$Table, tableStartIndex: 0 };
+}
+
+export function invalidateTemplateCache() {}
+
+export async function loadDocWalletTables(params: { docId: string }) {
+  const doc = docOf(params);
+  return {
+    doc: {},
+    config: table(doc),
+    commands: table(doc),
+    chat: table(doc),
+    balances: table(doc),
+    openOrders: table(doc),
+    recentActivity: table(doc),
+    sessions: table(doc),
+    audit: table(doc)
+  };
+}
+
+export function readConfig(t: docs_v1.Schema$Table) {
+  return Object.fromEntries(Object.entries(docOf(t).config).map(([key, value], i) => [key, { key, value, rowIndex: i + 1 }]));
+}
+
+export async function writeConfigValue(params: { docId: string; key: string; value: string }) {
+  docOf(params).config[params.key] = params.value;
+}
+
+export async function writeConfigBatch(params: { docId: string; entries: Array<{ key: string; value: string }> }) {
+  for (const { key, value } of params.entries) docOf(params).config[key] = value;
+}
+
+export function readCommandsTable(t: docs_v1.Schema$Table): CommandRow[] {
+  return docOf(t).commands.map((row, i) => ({ ...row, rowIndex: i + 1 }));
+}
+
+export function userEditableCommandsHash(t: docs_v1.Schema$Table): string {
+  return docOf(t).commands.map((row, i) => `${i + 1}:${row.command}`).join("\n");
+}
+
+export async function appendCommandRow(params: { docId: string; id: string; command: string; status: string; approvalUrl?: string; result?: string; error?: string }) {
+  const { id, command, status, approvalUrl = "", result = "", error = "" } = params;
+  docOf(params).commands.push({ id, command, status, approvalUrl, result, error });
+}
+
+export async function updateCommandsRowCells(params: { docId: string; rowIndex: number; updates: Partial<Cells<CommandRow>> }) {
+  const row = docOf(params).commands[params.rowIndex - 1];
+  if (!row) throw new Error(`Commands rowIndex out of range: ${params.rowIndex}`);
+  for (const [key, value] of Object.entries(params.updates)) {
+    if (value !== undefined) row[key as keyof typeof row] = value;
+  }
+}
+
+export function readChatTable(t: docs_v1.Schema$Table) {
+  return docOf(t).chat.map((row, i) => ({ ...row, rowIndex: i + 1 }));
+}
+
+export async function updateChatRowCells(params: { docId: string; rowIndex: number; agent?: string }) {
+  const row = docOf(params).chat[params.rowIndex - 1];
+  if (row && params.agent !== undefined) row.agent = params.agent;
+}
+
+export async function appendChatRow(params: { docId: string; user: string; agent: string }) {
+  docOf(params).chat.push({ user: params.user, agent: params.agent });
+}
+
+export async function appendAuditRow(params: { docId: string; message: string }) {
+  docOf(params).audit.push(params.message);
+}
+
+export async function appendRecentActivityRow(params: { docId: string; type: string; details: string; tx: string }) {
+  const doc = docOf(params);
+  const row = { type: params.type, details: params.details, tx: params.tx };
+  if (doc.failRecentActivity?.(row)) throw new Error("Docs API unavailable");
+  doc.recentActivity.push(row);
+}
+
+export async function updateBalancesTable(params: { docId: string; entries: FakeDoc["balances"] }) {
+  docOf(params).balances = params.entries;
+}
+
+export function readOpenOrdersTable(t: docs_v1.Schema$Table): OpenOrderRow[] {
+  return docOf(t).openOrders.map((row, i) => ({ ...row, rowIndex: i + 1 }));
+}
+
+export async function updateOpenOrdersTable(params: { docId: string; orders: Array<Cells<OpenOrderRow>> }) {
+  const doc = docOf(params);
+  doc.openOrders = doc.openOrders.map((_, i) => ({ ...(params.orders[i] ?? BLANK_ORDER) }));
+  doc.openOrdersWrites++;
+}
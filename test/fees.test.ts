@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+import { bumpFee, chooseFee } from "../src/core/fees.js";
+import type { FeeEstimates } from "../src/core/fees.js";
+import { parseCommand } from "../src/core/commands.js";
+import { loadPolicyFromConfig } from "../src/core/policy.js";
+import type { StacksClient } from "../src/integrations/stacks.js";
+import { createAndStoreDocSecrets } from "../src/wallet/store.js";
+import { fakeDoc } from "./fake-docwallet.js";
+import { TEST_MASTER_KEY, makeEngine, seedCommand } from "./helpers.js";
+
+vi.mock("../src/google/docwallet.js", () => import("./fake-docwallet.js"));
+
+const ADDR = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const TXID = "AB".repeat(32);
+const estimates: FeeEstimates = [180n, 400n, 900n];
+
+describe("fee tiers", () => {
+  it("picks the tier estimate and clamps to the doc cap", () => {
+    expect(chooseFee(estimates)).toBe(400n);
+    expect(chooseFee(estimates, "high")).toBe(900n);
+    expect(chooseFee(estimates, "high", 500n)).toBe(500n);
+  });
+
+  it("bumps replacements strictly above the previous fee", () => {
+    expect(bumpFee(2000n, estimates)).toEqual({ ok: true, fee: 3000n });
+    expect(bumpFee(100n, estimates)).toEqual({ ok: true, fee: 900n });
+    expect(bumpFee(2000n, estimates, "high", 2500n)).toEqual({ ok: true, fee: 2500n });
+    expect(bumpFee(2000n, estimates, "high", 2000n).ok).toBe(false);
+  });
+
+  it("parses a trailing FEE= on transaction commands only", () => {
+    expect(parseCommand(`DW STX_SEND ${ADDR} 1STX FEE=high`)).toEqual({
+      ok: true,
+      value: { type: "STX_SEND", to: ADDR, amountMicroStx: 1_000_000n, feeTier: "high" }
+    });
+    expect(parseCommand(`DW STX_SEND ${ADDR} 1STX FEE=turbo`).ok).toBe(false);
+    expect(parseCommand("DW STX_BALANCE FEE=low")).toEqual({ ok: false, error: "FEE= does not apply to STX_BALANCE" });
+    const scheduled = parseCommand(`DW SCHEDULE EVERY 4h: STX_SEND ${ADDR} 1STX FEE=low`);
+    expect(scheduled.ok && scheduled.value.type === "SCHEDULE" && scheduled.value.innerCommand).toMatch(/FEE=low$/);
+  });
+
+  it("parses SPEED_UP and CANCEL_TX", () => {
+    expect(parseCommand(`DW SPEED_UP ${TXID}`)).toEqual({ ok: true, value: { type: "SPEED_UP", txid: `0x${"ab".repeat(32)}` } });
+    expect(parseCommand(`DW CANCEL_TX 0x${TXID} FEE=medium`)).toEqual({
+      ok: true,
+      value: { type: "CANCEL_TX", txid: `0x${"ab".repeat(32)}`, feeTier: "medium" }
+    });
+    expect(parseCommand("DW SPEED_UP 0x1234").ok).toBe(false);
+  });
+
+  it("reads the per-doc fee cap from policy config", () => {
+    const loaded = loadPolicyFromConfig({ POLICY_MAX_FEE_MICROSTX: { value: "50_000" } });
+    expect(loaded.ok && loaded.policy.maxFeeMicroStx).toBe(50_000);
+  });
+});
+
+describe("SPEED_UP and CANCEL_TX execution", () => {
+  const NEW_TXID = "CD".repeat(32);
+
+  /** A doc wallet with TXID pending at nonce 7 (fee 1000 uSTX), and a stub that re-signs it as NEW_TXID. */
+  const setup = (pending = true) => {
+    const stacks = {
+      getTransactionStatus: vi.fn(async () => ({ status: pending ? "pending" : "success", nonce: 7, fee_micro_stx: "1000", sender_address: wallet })),
+      sendStx: vi.fn(async (p: Parameters<StacksClient["sendStx"]>[0]) => {
+        p.onSigned?.({ txid: NEW_TXID, rawHex: "00", sender: wallet, nonce: p.fees!.replace!.nonce, fee: 3000n });
+        return { txid: NEW_TXID, nonce: p.fees!.replace!.nonce, fee: 3000n };
+      })
+    };
+    const { engine, repo } = makeEngine({ stacks: stacks as unknown as StacksClient });
+    const wallet = createAndStoreDocSecrets({ repo, masterKey: TEST_MASTER_KEY, docId: "doc1", stxNetwork: "testnet" }).stx!.stxAddress;
+    repo.upsertDoc({ docId: "doc1", name: "Treasury" });
+    const doc = fakeDoc("doc1");
+    return { engine, repo, stacks, doc };
+  };
+
+  it("cancels with a 1 uSTX transfer to another address at the same nonce and a bumped fee", async () => {
+    const { engine, repo, stacks } = setup();
+    seedCommand(repo, { cmdId: "cmd_cancel", docId: "doc1", command: `DW CANCEL_TX ${TXID}`, status: "APPROVED" });
+
+    await engine.executorTick();
+
+    const sent = stacks.sendStx.mock.calls[0]![0];
+    expect(sent).toMatchObject({ to: "ST000000000000000000002AMW42H", amountMicroStx: 1n, fees: { feeTier: "high", replace: { nonce: 7n, previousFee: 1000n } } });
+    const cmd = repo.getCommand("cmd_cancel");
+    expect(cmd?.status).toBe("EXECUTED");
+    expect(cmd?.arc_tx_hash).toBe(NEW_TXID);
+    expect(repo.getSignedTransaction(NEW_TXID)?.status).toBe("BROADCAST");
+  });
+
+  it("speeds up by re-signing the original command and pointing it at the replacement", async () => {
+    const { engine, repo, stacks } = setup();
+    seedCommand(repo, { cmdId: "cmd_send", docId: "doc1", command: `DW STX_SEND ${ADDR} 2STX`, status: "EXECUTED", txId: TXID });
+    seedCommand(repo, { cmdId: "cmd_speed", docId: "doc1", command: `DW SPEED_UP ${TXID} FEE=medium`, status: "APPROVED" });
+
+    await engine.executorTick();
+
+    expect(stacks.sendStx.mock.calls[0]![0]).toMatchObject({ to: ADDR, amountMicroStx: 2_000_000n, fees: { feeTier: "medium", replace: { nonce: 7n, previousFee: 1000n } } });
+    expect(repo.getCommand("cmd_speed")).toMatchObject({ status: "EXECUTED", arc_tx_hash: NEW_TXID });
+    expect(repo.getCommand("cmd_send")?.arc_tx_hash).toBe(NEW_TXID);
+  });
+
+  it("refuses to replace a transaction that is no longer pending", async () => {
+    const { engine, repo, stacks, doc } = setup(false);
+    seedCommand(repo, { cmdId: "cmd_cancel", docId: "doc1", command: `DW CANCEL_TX ${TXID}`, status: "APPROVED" });
+
+    await engine.executorTick();
+
+    expect(stacks.sendStx).not.toHaveBeenCalled();
+    expect(repo.getCommand("cmd_cancel")?.status).toBe("FAILED");
+    expect(doc.audit.at(-1)).toMatch(/is success; only pending transactions can be replaced/);
+  });
+});
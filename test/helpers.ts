@@ -0,0 +1,65 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { onTestFinished, vi } from "vitest";
+import { parseCommand } from "../src/core/commands.js";
+import { loadConfig } from "../src/config.js";
+import type { AppConfig } from "../src/config.js";
+import { Engine } from "../src/engine.js";
+import { Repo } from "../src/db/repo.js";
+
+/** Path to a database file in a fresh temp dir, removed when the calling test finishes. */
+export function tempDbFile(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "frankydocs-"));
+  onTestFinished(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return path.join(dir, "test.db");
+}
+
+/** A Repo on a fresh temp database, closed and removed when the calling test finishes. */
+export function makeRepo() {
+  const repo = new Repo(tempDbFile());
+  onTestFinished(() => repo.close());
+  return repo;
+}
+
+export const TEST_MASTER_KEY = "a".repeat(64);
+
+/** The default config, as loadConfig parses it from an environment with only the required keys. */
+export function testConfig(overrides: Partial<AppConfig> = {}): AppConfig {
+  vi.stubEnv("GOOGLE_SERVICE_ACCOUNT_JSON", "{}");
+  vi.stubEnv("DOCWALLET_MASTER_KEY", TEST_MASTER_KEY);
+  try {
+    return { ...loadConfig(), ...overrides };
+  } finally {
+    vi.unstubAllEnvs();
+  }
+}
+
+/**
+ * An Engine on a fresh repo, for tests that mock src/google/docwallet.js with fake-docwallet.ts.
+ * Integrations are whatever the test passes in, usually stubs cast to their client types.
+ */
+export function makeEngine(ctx: Omit<Partial<ConstructorParameters<typeof Engine>[0]>, "config"> & { config?: Partial<AppConfig> } = {}) {
+  const repo = ctx.repo ?? makeRepo();
+  const config = testConfig(ctx.config);
+  const engine = new Engine({ docs: {} as never, drive: {} as never, ...ctx, config, repo });
+  return { engine, repo, config };
+}
+
+/** Store a DW command in `status`, parsed and serialized the way the engine stores commands. */
+export function seedCommand(repo: Repo, params: { cmdId: string; docId: string; command: string; status: string; txId?: string }) {
+  const parsed = parseCommand(params.command);
+  if (!parsed.ok) throw new Error(parsed.error);
+  repo.upsertCommand({
+    cmd_id: params.cmdId,
+    doc_id: params.docId,
+    raw_command: params.command,
+    parsed_json: JSON.stringify(parsed.value, (_k, v) => typeof v === "bigint" ? v.toString() : v),
+    status: params.status,
+    yellow_intent_id: null,
+    sui_tx_digest: null,
+    arc_tx_hash: params.txId ?? null,
+    result_text: null,
+    error_text: null
+  }, { source: "cell-edit", actor: "doc-editor" });
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from "vitest";
+import { fetchSinceCursor, newestTransferTxid, parseInboundChatMinUsd, transfersSinceCursor } from "../src/core/inbound.js";
+import type { InboundTransfer } from "../src/core/inbound.js";
+import type { StacksClient } from "../src/integrations/stacks.js";
+import { createAndStoreDocSecrets } from "../src/wallet/store.js";
+import { fakeDoc } from "./fake-docwallet.js";
+import { TEST_MASTER_KEY, makeEngine, makeRepo } from "./helpers.js";
+
+vi.mock("../src/google/docwallet.js", () => import("./fake-docwallet.js"));
+
+const ADDR = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+function transfer(txid: string, asset = "STX") {
+  return { txid, asset, amount: 1_000_000n, sender: "SP000000000000000000002Q6VF78", timestamp: 1_700_000_000 };
+}
+
+describe("inbound transfer feed", () => {
+  it("returns transfers newer than the cursor, oldest transaction first", () => {
+    // Newest first, as the API lists them; 0x03 moved two assets in one transaction.
+    const page = [transfer("0x04"), transfer("0x03"), transfer("0x03", `${ADDR}.usdcx`), transfer("0x02"), transfer("0x01")];
+    expect(transfersSinceCursor(page, "0x02").map((g) => [g.txid, g.transfers.map((t) => t.asset)])).toEqual([
+      ["0x03", [`${ADDR}.usdcx`, "STX"]],
+      ["0x04", ["STX"]]
+    ]);
+    expect(transfersSinceCursor(page, "0x04")).toEqual([]);
+    expect(transfersSinceCursor(page, "").map((g) => g.txid)).toEqual(["0x01", "0x02", "0x03", "0x04"]);
+  });
+
+  it("pages back until it finds the cursor and reports when it cannot", async () => {
+    // Two transactions per page, newest first; 0x05 and 0x03 were outgoing and left no transfer.
+    const history = ["0x07", "0x06", "0x05", "0x04", "0x03", "0x02", "0x01"];
+    const offsets: number[] = [];
+    const fetchPage = async (offset: number) => {
+      offsets.push(offset);
+      const txids = history.slice(offset, offset + 2).filter((txid) => txid !== "0x05" && txid !== "0x03");
+      return { transfers: txids.map((txid) => transfer(txid)), nextOffset: offset + 2 < history.length ? offset + 2 : undefined };
+    };
+
+    const since = await fetchSinceCursor(fetchPage, "0x02");
+    expect(since.found).toBe(true);
+    expect(offsets).toEqual([0, 2, 4]);
+    expect(transfersSinceCursor(since.transfers, "0x02").map((g) => g.txid)).toEqual(["0x04", "0x06", "0x07"]);
+
+    expect(await fetchSinceCursor(fetchPage, "")).toMatchObject({ found: true });
+    expect(await fetchSinceCursor(fetchPage, "0x00")).toMatchObject({ found: false });
+    const capped = await fetchSinceCursor(fetchPage, "0x01", 2);
+    expect(capped.found).toBe(false);
+    expect(capped.transfers.map((t) => t.txid)).toEqual(["0x07", "0x06", "0x04"]);
+
+    expect(await newestTransferTxid(fetchPage)).toBe("0x07");
+    expect(await newestTransferTxid(async () => ({ transfers: [] }))).toBe("");
+    expect(await newestTransferTxid(async (offset) => ({ transfers: [], nextOffset: offset + 2 }), 3)).toBeUndefined();
+  });
+
+  it("parses the chat threshold", () => {
+    expect(parseInboundChatMinUsd("$500")).toBe(500);
+    expect(parseInboundChatMinUsd(" 25.5 ")).toBe(25.5);
+    expect(parseInboundChatMinUsd("")).toBeNull();
+    expect(parseInboundChatMinUsd("0")).toBeNull();
+    expect(parseInboundChatMinUsd(undefined)).toBeNull();
+  });
+
+  it("keeps one cursor per address", () => {
+    const repo = makeRepo();
+    expect(repo.getInboundCursor(ADDR)).toBeUndefined();
+    repo.setInboundCursor(ADDR, "");
+    expect(repo.getInboundCursor(ADDR)).toBe("");
+    repo.setInboundCursor(ADDR, "0x02");
+    expect(repo.getInboundCursor(ADDR)).toBe("0x02");
+  });
+
+  describe("watcher tick", () => {
+    /** A doc whose address has `history` (transactions, newest first), served 50 transactions a page. */
+    const setup = (history: Array<{ txid: string; transfers: InboundTransfer[] }>) => {
+      const stacks = {
+        getIncomingTransfers: async (_address: string, limit: number, offset: number) => ({
+          transfers: history.slice(offset, offset + limit).flatMap((tx) => tx.transfers),
+          nextOffset: offset + limit < history.length ? offset + limit : undefined
+        })
+      } as unknown as StacksClient;
+      const { engine, repo } = makeEngine({ stacks });
+      repo.upsertDoc({ docId: "doc1", name: "Treasury" });
+      const address = createAndStoreDocSecrets({ repo, masterKey: TEST_MASTER_KEY, docId: "doc1", stxNetwork: "testnet" }).stx!.stxAddress;
+      return { engine, repo, address, doc: fakeDoc("doc1") };
+    };
+    const received = (txid: string, asset = "STX") => ({ txid, transfers: [transfer(txid, asset)] });
+
+    it("starts after the newest incoming transfer, past a first page that received nothing", async () => {
+      const calls = Array.from({ length: 50 }, (_, i) => ({ txid: `0xcall${i}`, transfers: [] }));
+      const history = [...calls, received("0x02"), received("0x01")];
+      const { engine, repo, address, doc } = setup(history);
+
+      await engine.inboundTransfersTick();
+      expect(repo.getInboundCursor(address)).toBe("0x02");
+      expect(doc.recentActivity).toEqual([]);
+
+      history.unshift(received("0x03"));
+      await engine.inboundTransfersTick();
+      expect(doc.recentActivity.map((r) => r.tx)).toEqual(["0x03"]);
+      expect(doc.audit).toEqual([]);
+      expect(repo.getInboundCursor(address)).toBe("0x03");
+    });
+
+    it("posts each transfer of a transaction once when a Docs write fails partway through it", async () => {
+      const history = [{ txid: "0x02", transfers: [transfer("0x02"), transfer("0x02", `${ADDR}.usdcx`)] }, received("0x01")];
+      const { engine, repo, address, doc } = setup(history);
+      repo.setInboundCursor(address, "0x01");
+      doc.failRecentActivity = () => doc.recentActivity.length > 0;
+
+      await engine.inboundTransfersTick();
+      expect(doc.recentActivity).toHaveLength(1);
+      expect(repo.getInboundCursor(address)).toBe("0x01");
+
+      doc.failRecentActivity = undefined;
+      await engine.inboundTransfersTick();
+      expect(doc.recentActivity.map((r) => r.details.split(" ")[1])).toEqual(["usdcx", "STX"]);
+      expect(repo.getInboundCursor(address)).toBe("0x02");
+      expect(repo.getInboundPosted(address)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { makeRepo } from "./helpers.js";
+import { NonceManager } from "../src/wallet/nonces.js";
+import type { AccountNonceState } from "../src/wallet/nonces.js";
+
+const ADDR = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+function chain(partial: Partial<AccountNonceState> = {}): AccountNonceState {
+  return { lastExecutedNonce: 4, possibleNextNonce: 5, detectedMissingNonces: [], detectedMempoolNonces: [], ...partial };
+}
+
+describe("NonceManager", () => {
+  it("hands out distinct nonces against the same chain snapshot", () => {
+    const repo = makeRepo();
+    const nonces = new NonceManager(repo);
+    expect(nonces.reserve(ADDR, chain())).toBe(5);
+    expect(nonces.reserve(ADDR, chain())).toBe(6);
+    expect(nonces.reserve(ADDR, chain({ detectedMempoolNonces: [7] }))).toBe(8);
+  });
+
+  it("fills a released nonce before extending the sequence", () => {
+    const repo = makeRepo();
+    const nonces = new NonceManager(repo);
+    const a = nonces.reserve(ADDR, chain());
+    const b = nonces.reserve(ADDR, chain());
+    nonces.markBroadcast(ADDR, b, "0xb");
+    nonces.release(ADDR, a);
+    expect(nonces.reserve(ADDR, chain())).toBe(a);
+  });
+
+  it("forgets executed nonces and reclaims dropped broadcasts", () => {
+    const repo = makeRepo();
+    const nonces = new NonceManager(repo);
+    const t0 = Date.now();
+    for (let i = 0; i < 3; i++) nonces.markBroadcast(ADDR, nonces.reserve(ADDR, chain(), t0), `0x${i}`);
+
+    // 5 executed, 6 vanished from the mempool, 7 still pending
+    const later = chain({ lastExecutedNonce: 5, possibleNextNonce: 8, detectedMissingNonces: [6], detectedMempoolNonces: [7] });
+    nonces.reconcile(ADDR, later, t0 + 10 * 60_000);
+    expect(repo.listNonceReservations(ADDR).map((r) => r.nonce)).toEqual([7]);
+    expect(nonces.reserve(ADDR, later, t0 + 10 * 60_000)).toBe(6);
+  });
+
+  it("keeps fresh broadcasts the API has not indexed yet", () => {
+    const repo = makeRepo();
+    const nonces = new NonceManager(repo);
+    nonces.markBroadcast(ADDR, nonces.reserve(ADDR, chain()), "0xa");
+    expect(nonces.reserve(ADDR, chain())).toBe(6);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, expect, it, onTestFinished, vi } from "vitest";
+import { parseCommand, tryAutoDetect } from "../src/core/commands.js";
+import { evaluateOrder, orderSwapCommand } from "../src/core/orders.js";
+import type { OrderState } from "../src/core/orders.js";
+import { MockSwapAdapter } from "../src/integrations/swap.js";
+import { fakeDoc } from "./fake-docwallet.js";
+import { makeEngine, makeRepo, seedCommand } from "./helpers.js";
+
+vi.mock("../src/google/docwallet.js", () => import("./fake-docwallet.js"));
+
+function order(fields: Partial<OrderState>): OrderState {
+  return {
+    type: "STOP_LOSS", base: "STX", quote: "USDCX", qty: 100, trigger_price: 1,
+    trail_pct: null, trail_abs: null, peak_price: null, oco_group: null, ...fields
+  };
+}
+
+describe("conditional orders", () => {
+  it("parses trailing stops, OCO brackets and limit buys", () => {
+    expect(parseCommand("DW TRAILING_STOP 100 STX 5%")).toEqual({
+      ok: true, value: { type: "TRAILING_STOP", asset: "STX", qty: 100, trailPct: 5 }
+    });
+    expect(parseCommand("DW TRAILING_STOP 0.01 btc $1500")).toEqual({
+      ok: true, value: { type: "TRAILING_STOP", asset: "SBTC", qty: 0.01, trailAbs: 1500 }
+    });
+    expect(parseCommand("DW OCO 50 STX SL 0.4 TP 0.9")).toEqual({
+      ok: true, value: { type: "OCO", asset: "STX", qty: 50, stopPrice: 0.4, takeProfitPrice: 0.9 }
+    });
+    expect(parseCommand("DW LIMIT_BUY 0.5 SBTC @ 60000")).toEqual({
+      ok: true, value: { type: "LIMIT_BUY", asset: "SBTC", qty: 0.5, limitPrice: 60000 }
+    });
+    expect(parseCommand("DW TRAILING_STOP 100 STX 120%").ok).toBe(false);
+    expect(parseCommand("DW OCO 50 STX SL 0.9 TP 0.4").ok).toBe(false);
+    expect(parseCommand("DW LIMIT_BUY 1 DOGE @ 1").ok).toBe(false);
+    expect(tryAutoDetect("cancel sbtc_oco_1700000000000_ab12cd34_sl")).toEqual({
+      ok: true, value: { type: "CANCEL_ORDER", orderId: "sbtc_oco_1700000000000_ab12cd34_sl" }
+    });
+  });
+
+  it("ratchets a trailing stop up with the peak and never down", () => {
+    const ts = order({ type: "TRAILING_STOP", trail_pct: 10, peak_price: 1, trigger_price: 0.9 });
+    expect(evaluateOrder(ts, 1.2)).toEqual({ triggered: false, peakPrice: 1.2, triggerPrice: 1.08 });
+    expect(evaluateOrder(ts, 0.95)).toEqual({ triggered: false });
+    expect(evaluateOrder(ts, 0.9)).toEqual({ triggered: true });
+
+    const abs = order({ type: "TRAILING_STOP", base: "SBTC", trail_abs: 1500, peak_price: 60000, trigger_price: 58500 });
+    expect(evaluateOrder(abs, 61000)).toMatchObject({ triggered: false, triggerPrice: 59500 });
+  });
+
+  it("turns triggered orders into swaps", () => {
+    expect(evaluateOrder(order({ type: "TAKE_PROFIT", trigger_price: 2 }), 2.1).triggered).toBe(true);
+    expect(evaluateOrder(order({ type: "LIMIT_BUY", trigger_price: 0.5 }), 0.6).triggered).toBe(false);
+    expect(orderSwapCommand(order({ qty: 1e-7, base: "SBTC" }))).toBe("DW SWAP 0.0000001 SBTC USDCX");
+    expect(orderSwapCommand(order({ qty: 250, quote: "USD" }))).toBe("DW SWAP 250 STX USDCX");
+    expect(orderSwapCommand(order({ type: "LIMIT_BUY", qty: 0.5, base: "SBTC", trigger_price: 60000 })))
+      .toBe("DW SWAP 30000 USDCX SBTC");
+  });
+
+  it("persists trailing state and cancels OCO siblings", () => {
+    const repo = makeRepo();
+    repo.insertConditionalOrder({
+      orderId: "stx_ts_1", docId: "doc", type: "TRAILING_STOP", base: "STX", quote: "USDCX",
+      triggerPrice: 0.9, qty: 10, trailPct: 10, peakPrice: 1
+    });
+    repo.updateTrailingStop("stx_ts_1", 1.5, 1.35);
+    expect(repo.getConditionalOrder("stx_ts_1")).toMatchObject({ peak_price: 1.5, trigger_price: 1.35, trail_pct: 10 });
+
+    for (const [orderId, type] of [["g_sl", "STOP_LOSS"], ["g_tp", "TAKE_PROFIT"]] as const) {
+      repo.insertConditionalOrder({ orderId, docId: "doc", type, base: "STX", quote: "USDCX", triggerPrice: 1, qty: 10, ocoGroup: "g" });
+    }
+    expect(repo.cancelOcoSiblings("g", "g_sl")).toEqual(["g_tp"]);
+    expect(repo.getConditionalOrder("g_tp")?.status).toBe("CANCELLED");
+    expect(repo.getConditionalOrder("g_sl")?.status).toBe("ACTIVE");
+  });
+
+  const submitStopLoss = async (swap?: MockSwapAdapter) => {
+    const { engine, repo } = makeEngine({ swap });
+    repo.upsertDoc({ docId: "doc1", name: "Treasury" });
+    const doc = fakeDoc("doc1", { commands: [{ id: "cmd_sl", command: "DW STX_STOP_LOSS 100 @ 0.5", status: "APPROVED", approvalUrl: "", result: "", error: "" }] });
+    seedCommand(repo, { cmdId: "cmd_sl", docId: "doc1", command: "DW STX_STOP_LOSS 100 @ 0.5", status: "APPROVED" });
+    await engine.executorTick();
+    return { repo, doc };
+  };
+
+  it("refuses to create an order when no swap adapter could fill it", async () => {
+    const { repo, doc } = await submitStopLoss();
+    expect(repo.getCommand("cmd_sl")?.status).toBe("FAILED");
+    expect(doc.commands[0]).toMatchObject({ status: "FAILED", error: expect.stringMatching(/swaps are disabled \(set SWAP_ROUTER\)/) });
+    expect(repo.listActiveConditionalOrders()).toHaveLength(0);
+
+    const withSwaps = await submitStopLoss(new MockSwapAdapter(() => 1));
+    expect(withSwaps.repo.getCommand("cmd_sl")?.status).toBe("EXECUTED");
+    expect(withSwaps.repo.listActiveConditionalOrders()).toHaveLength(1);
+  });
+});
+
+describe("Open Orders table", () => {
+  const setup = () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    onTestFinished(() => { vi.useRealTimers(); });
+    vi.setSystemTime(Date.UTC(2026, 0, 1));
+    const { engine, repo } = makeEngine();
+    repo.upsertDoc({ docId: "doc1", name: "Treasury" });
+    const doc = fakeDoc("doc1");
+    /** Insert an order one second after the previous one, so table order is deterministic. */
+    const place = (orderId: string, fields: Partial<Parameters<typeof repo.insertConditionalOrder>[0]> = {}) => {
+      vi.advanceTimersByTime(1000);
+      repo.insertConditionalOrder({ orderId, docId: "doc1", type: "STOP_LOSS", base: "STX", quote: "USDCX", triggerPrice: 0.5, qty: 100, ...fields });
+    };
+    return { engine, repo, doc, place };
+  };
+
+  it("mirrors the doc's orders into the table and rewrites it only when a cell changes", async () => {
+    const { engine, repo, doc, place } = setup();
+    place("stx_sl_1");
+    place("stx_tp_1", { type: "TAKE_PROFIT", triggerPrice: 0.9 });
+    seedCommand(repo, { cmdId: "cmd_fill", docId: "doc1", command: "DW SWAP 100 STX USDCX", status: "APPROVED", txId: "0xfill" });
+    vi.advanceTimersByTime(1000);
+    repo.triggerConditionalOrder("stx_sl_1", "cmd_fill");
+
+    await engine.pollTick();
+
+    expect(doc.openOrders.slice(0, 3)).toEqual([
+      { orderId: "stx_tp_1", side: "SELL (TAKE_PROFIT)", price: "≥ $0.9", qty: "100 STX", status: "ACTIVE", updatedAt: "2026-01-01T00:00:02.000Z", tx: "" },
+      { orderId: "stx_sl_1", side: "SELL (STOP_LOSS)", price: "≤ $0.5", qty: "100 STX", status: "TRIGGERED (APPROVED)", updatedAt: "2026-01-01T00:00:03.000Z", tx: "0xfill" },
+      { orderId: "", side: "", price: "", qty: "", status: "", updatedAt: "", tx: "" }
+    ]);
+    expect(doc.openOrdersWrites).toBe(1);
+
+    await engine.pollTick();
+    expect(doc.openOrdersWrites).toBe(1);
+  });
+
+  it("cancels an order, and its OCO sibling, when CANCEL is typed into its STATUS cell", async () => {
+    const { engine, repo, doc, place } = setup();
+    place("stx_oco_1_sl", { ocoGroup: "stx_oco_1" });
+    place("stx_oco_1_tp", { type: "TAKE_PROFIT", triggerPrice: 0.9, ocoGroup: "stx_oco_1" });
+    place("stx_sl_2");
+    await engine.pollTick();
+
+    doc.openOrders[0]!.status = "cancel";
+    vi.advanceTimersByTime(1000);
+    await engine.pollTick();
+
+    expect(repo.getConditionalOrder("stx_oco_1_sl")?.status).toBe("CANCELLED");
+    expect(repo.getConditionalOrder("stx_oco_1_tp")?.status).toBe("CANCELLED");
+    expect(repo.getConditionalOrder("stx_sl_2")?.status).toBe("ACTIVE");
+    expect(doc.audit).toContain("stx_oco_1_sl, stx_oco_1_tp CANCELLED (cell-edit)");
+    expect(doc.openOrders.slice(0, 3).map((r) => `${r.orderId} ${r.status}`)).toEqual([
+      "stx_sl_2 ACTIVE",
+      "stx_oco_1_sl CANCELLED",
+      "stx_oco_1_tp CANCELLED"
+    ]);
+  });
+
+  it("fills only the table's rows: active orders first, oldest first, then the latest closed ones", async () => {
+    const { engine, repo, doc, place } = setup();
+    for (const id of ["a", "b", "c", "d", "e", "f", "g"]) place(`stx_sl_${id}`);
+    vi.advanceTimersByTime(1000);
+    repo.cancelConditionalOrder("stx_sl_a");
+    vi.advanceTimersByTime(1000);
+    repo.cancelConditionalOrder("stx_sl_b");
+    fakeDoc("doc2");
+    repo.upsertDoc({ docId: "doc2", name: "Other" });
+    repo.insertConditionalOrder({ orderId: "stx_sl_other", docId: "doc2", type: "STOP_LOSS", base: "STX", quote: "USDCX", triggerPrice: 1, qty: 1 });
+
+    await engine.pollTick();
+
+    expect(doc.openOrders).toHaveLength(5);
+    expect(doc.openOrders.map((r) => r.orderId)).toEqual(["stx_sl_c", "stx_sl_d", "stx_sl_e", "stx_sl_f", "stx_sl_g"]);
+
+    vi.advanceTimersByTime(1000);
+    repo.cancelConditionalOrder("stx_sl_g");
+    await engine.pollTick();
+    expect(doc.openOrders.map((r) => r.orderId)).toEqual(["stx_sl_c", "stx_sl_d", "stx_sl_e", "stx_sl_f", "stx_sl_g"]);
+    expect(doc.openOrders[4]!.status).toBe("CANCELLED");
+
+    doc.openOrders[0]!.orderId = "stx_sl_other";
+    doc.openOrders[0]!.status = "CANCEL";
+    await engine.pollTick();
+    expect(repo.getConditionalOrder("stx_sl_other")?.status).toBe("ACTIVE");
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, it, onTestFinished, vi } from "vitest";
+import Database from "better-sqlite3";
+import { parseCommand } from "../src/core/commands.js";
+import { fingerprintAmount, matchPayments, paymentUri } from "../src/core/payments.js";
+import { Repo } from "../src/db/repo.js";
+import type { StacksClient } from "../src/integrations/stacks.js";
+import { fakeDoc } from "./fake-docwallet.js";
+import { makeEngine, makeRepo, tempDbFile } from "./helpers.js";
+
+vi.mock("../src/google/docwallet.js", () => import("./fake-docwallet.js"));
+
+const ADDR = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const CREATED = 1_700_000_000_000;
+const AFTER = CREATED / 1000 + 600;
+
+describe("payment watcher", () => {
+  it("parses PAYMENT_CHECK and PAYMENTS filters", () => {
+    expect(parseCommand("DW PAYMENT_CHECK pay_1_abc")).toEqual({ ok: true, value: { type: "PAYMENT_CHECK", requestId: "pay_1_abc" } });
+    expect(parseCommand("DW PAYMENTS open")).toEqual({ ok: true, value: { type: "PAYMENTS", status: "pending" } });
+    expect(parseCommand("DW PAYMENTS")).toEqual({ ok: true, value: { type: "PAYMENTS" } });
+    expect(parseCommand("DW PAYMENTS refunded").ok).toBe(false);
+  });
+
+  it("parses PAYMENT_REQUEST for native, bridged and SIP-010 tokens", () => {
+    expect(parseCommand("DW PAYMENT_REQUEST 25 stx Logo design 7d")).toEqual({
+      ok: true, value: { type: "PAYMENT_REQUEST", amount: "25", token: "STX", description: "Logo design", expiresInMs: 7 * 86_400_000 }
+    });
+    expect(parseCommand("DW PAYMENT_REQUEST 0.0005 sBTC Hosting")).toEqual({
+      ok: true, value: { type: "PAYMENT_REQUEST", amount: "0.0005", token: "SBTC", description: "Hosting" }
+    });
+    expect(parseCommand(`DW PAYMENT_REQUEST 100 ${ADDR}.token-alex Swap fee`)).toMatchObject({
+      ok: true, value: { token: `${ADDR}.token-alex`, description: "Swap fee" }
+    });
+    expect(parseCommand("DW PAYMENT_REQUEST 0 STX Nothing").ok).toBe(false);
+    expect(parseCommand("DW PAYMENT_REQUEST 5 DOGE Tip").ok).toBe(false);
+    expect(parseCommand("DW PAYMENT_REQUEST 5 STX Tip 90d").ok).toBe(false);
+  });
+
+  it("fingerprints every amount and builds wallet URIs", () => {
+    expect(fingerprintAmount(5_000_000n, [])).toBe(5_000_001n);
+    expect(fingerprintAmount(5_000_000n, [5_000_001n, 5_000_002n, 7n])).toBe(5_000_003n);
+    expect(paymentUri({ address: ADDR, amount: "25", memo: "pay_1" })).toBe(`stacks:${ADDR}?amount=25&memo=pay_1`);
+    expect(paymentUri({ address: ADDR, amount: "1.5", token: `${ADDR}.usdcx`, memo: "Invoice 7" }))
+      .toBe(`stacks:${ADDR}?token=${ADDR}.usdcx&amount=1.5&memo=Invoice%207`);
+  });
+
+  it("matches memo-less transfers only by a unique fingerprinted amount", () => {
+    const requests = [
+      { request_id: "pay_a", amount_raw: "5000000", fingerprinted: 1, description: "Invoice 7", created_at: CREATED },
+      { request_id: "pay_b", amount_raw: "5000001", fingerprinted: 1, description: "Invoice 8", created_at: CREATED }
+    ];
+    const transfers = [
+      { txid: "0x01", amount: 5_000_001n, memo: "pay_a", timestamp: AFTER },
+      { txid: "0x02", amount: 5_000_000n, timestamp: AFTER },
+      { txid: "0x03", amount: 5_000_001n, memo: "thanks!", timestamp: AFTER }
+    ];
+    expect(matchPayments(requests, transfers)).toEqual([
+      { requestId: "pay_a", txid: "0x02" },
+      { requestId: "pay_b", txid: "0x03" }
+    ]);
+  });
+
+  it("needs the memo for requests without a fingerprint", () => {
+    const requests = [{ request_id: "pay_a", amount_raw: "25000000", fingerprinted: 0, description: "Logo", created_at: CREATED }];
+    expect(matchPayments(requests, [{ txid: "0x01", amount: 25_000_000n, timestamp: AFTER }])).toEqual([]);
+    expect(matchPayments(requests, [{ txid: "0x02", amount: 25_000_000n, memo: "pay_a", timestamp: AFTER }]))
+      .toEqual([{ requestId: "pay_a", txid: "0x02" }]);
+  });
+
+  it("matches by exact amount and memo, one transfer per request", () => {
+    const requests = [
+      { request_id: "pay_b", amount_raw: "5000000", fingerprinted: 1, description: "Invoice 7", created_at: CREATED + 1 },
+      { request_id: "pay_a", amount_raw: "5000000", fingerprinted: 1, description: "Invoice 7", created_at: CREATED }
+    ];
+    const transfers = [
+      { txid: "0x01", amount: 5_000_000n, memo: "Invoice 7", timestamp: AFTER },
+      { txid: "0x02", amount: 4_999_999n, memo: "pay_b", timestamp: AFTER },
+      { txid: "0x03", amount: 5_000_000n, memo: "pay_b", timestamp: AFTER },
+      { txid: "0x04", amount: 5_000_000n, timestamp: AFTER }
+    ];
+    expect(matchPayments(requests, transfers)).toEqual([
+      { requestId: "pay_a", txid: "0x01" },
+      { requestId: "pay_b", txid: "0x03" }
+    ]);
+    expect(matchPayments(requests, transfers, (txid) => txid === "0x01")).toEqual([{ requestId: "pay_b", txid: "0x03" }]);
+  });
+
+  it("ignores transfers from well before the request", () => {
+    const requests = [{ request_id: "pay_a", amount_raw: "1", fingerprinted: 1, description: "Tip", created_at: CREATED }];
+    expect(matchPayments(requests, [{ txid: "0x01", amount: 1n, memo: "Tip", timestamp: CREATED / 1000 - 7200 }])).toEqual([]);
+  });
+
+  it("settles a pending request only once", () => {
+    const repo = makeRepo();
+    repo.insertStacksPaymentRequest({
+      requestId: "pay_a", docId: "doc", address: ADDR, amountRaw: 1_000_000n, token: "USDCx",
+      description: "Tip", expiresAt: CREATED, cmdId: "cmd_1"
+    });
+    expect(repo.listPendingStacksPaymentRequests().map((r) => r.request_id)).toEqual(["pay_a"]);
+    expect(repo.updateStacksPaymentRequestPaid("pay_a", "0xabc")).toBe(true);
+    expect(repo.expireStacksPaymentRequest("pay_a")).toBe(false);
+    expect(repo.isStacksPaymentTxidClaimed("0xabc")).toBe(true);
+    expect(repo.getStacksPaymentRequestsByDoc("doc", "paid")).toMatchObject([{ paid_txid: "0xabc", cmd_id: "cmd_1" }]);
+    expect(repo.getStacksPaymentRequestsByDoc("doc", "pending")).toEqual([]);
+  });
+
+  it("reads back through the history to a payment that later transfers pushed off the first page", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    onTestFinished(() => { vi.useRealTimers(); });
+    vi.setSystemTime(CREATED);
+    const transfer = (txid: string, amount: bigint, timestamp: number, memo?: string) =>
+      ({ txid, asset: "STX", amount, sender: "SP2SENDER", memo, timestamp });
+    const pages = [
+      { transfers: Array.from({ length: 50 }, (_, i) => transfer(`0xnew${i}`, 5n, AFTER + 600 - i)), nextOffset: 50 },
+      { transfers: [transfer("0xpaid", 1_000_001n, AFTER, "pay_a"), transfer("0xold", 1_000_001n, CREATED / 1000 - 7200)], nextOffset: 100 },
+      { transfers: [transfer("0xolder", 1_000_001n, CREATED / 1000 - 9000)] }
+    ];
+    const offsets: number[] = [];
+    const stacks = {
+      getIncomingTransfers: async (_address: string, limit: number, offset: number) => {
+        offsets.push(offset);
+        return pages[offset / limit]!;
+      }
+    } as unknown as StacksClient;
+    const { engine, repo } = makeEngine({ stacks });
+    repo.upsertDoc({ docId: "doc", name: "Treasury" });
+    const doc = fakeDoc("doc");
+    repo.insertStacksPaymentRequest({
+      requestId: "pay_a", docId: "doc", address: ADDR, amountRaw: 1_000_001n, fingerprinted: true, token: "STX",
+      description: "Tip", expiresAt: CREATED + 86_400_000
+    });
+
+    vi.setSystemTime(AFTER * 1000 + 600_000);
+    await engine.paymentWatcherTick();
+
+    expect(offsets).toEqual([0, 50]);
+    expect(repo.getStacksPaymentRequest("pay_a")).toMatchObject({ status: "paid", paid_txid: "0xpaid" });
+    expect(doc.audit).toEqual(["PAYMENT pay_a PAID 0xpaid"]);
+  });
+
+  it("keeps 18-decimal token amounts exact, including rows stored as INTEGER", () => {
+    const repo = makeRepo();
+    const amount = 1_000_000_000_000_000_000_001n;
+    repo.insertStacksPaymentRequest({ requestId: "pay_a", docId: "doc", address: ADDR, amountRaw: amount, token: "WEL", decimals: 18, description: "Big", expiresAt: CREATED });
+    expect(repo.getStacksPaymentRequest("pay_a")?.amount_raw).toBe(amount.toString());
+
+    const file = tempDbFile();
+    const old = new Database(file);
+    old.exec(`CREATE TABLE stacks_payment_requests (
+      request_id TEXT PRIMARY KEY, doc_id TEXT NOT NULL, address TEXT NOT NULL, amount_raw INTEGER NOT NULL,
+      token TEXT NOT NULL DEFAULT 'STX', description TEXT NOT NULL DEFAULT '', status TEXT NOT NULL DEFAULT 'pending',
+      expires_at INTEGER NOT NULL, paid_txid TEXT, created_at INTEGER NOT NULL
+    )`);
+    old.prepare(`INSERT INTO stacks_payment_requests(request_id, doc_id, address, amount_raw, expires_at, created_at) VALUES('pay_old','doc',?,5000000,1,1)`).run(ADDR);
+    old.close();
+    const migrated = new Repo(file);
+    expect(migrated.getStacksPaymentRequest("pay_old")).toMatchObject({ amount_raw: "5000000", fingerprinted: 0, decimals: 6, token: "STX" });
+    migrated.insertStacksPaymentRequest({ requestId: "pay_b", docId: "doc", address: ADDR, amountRaw: amount, token: "WEL", decimals: 18, description: "Big", expiresAt: CREATED });
+    expect(migrated.getStacksPaymentRequest("pay_b")?.amount_raw).toBe(amount.toString());
+    migrated.close();
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { evaluatePolicy } from "../src/core/policy.js";
+import { evaluatePolicy, loadPolicyFromConfig } from "../src/core/policy.js";
 import type { ParsedCommand } from "../src/core/commands.js";
 
 describe("evaluatePolicy (BCH)", () => {
@@ -43,3 +43,62 @@ describe("evaluatePolicy (BCH)", () => {
     expect(res).toEqual({ ok: true, autoApprove: true });
   });
 });
+
+describe("loadPolicyFromConfig", () => {
+  const cfg = (entries: Record<string, string>) =>
+    Object.fromEntries(Object.entries(entries).map(([k, v]) => [k, { value: v }]));
+
+  it("returns an empty policy when the doc declares none", () => {
+    expect(loadPolicyFromConfig(cfg({ STATUS: "READY" }))).toEqual({ ok: true, policy: {}, source: null });
+  });
+
+  it("parses POLICY_JSON", () => {
+    const res = loadPolicyFromConfig(cfg({ POLICY_JSON: '{"maxSingleTxMicroStx":5000000,"denyCommands":["CONTRACT_CALL"]}' }));
+    expect(res).toEqual({
+      ok: true,
+      policy: { maxSingleTxMicroStx: 5_000_000, denyCommands: ["CONTRACT_CALL"] },
+      source: "POLICY_JSON"
+    });
+  });
+
+  it("builds a policy from individual keys", () => {
+    const res = loadPolicyFromConfig(cfg({
+      POLICY_MAX_SINGLE_TX_MICROSTX: "1_000_000",
+      POLICY_DENY_COMMANDS: "usdcx_approve, x402_call",
+      POLICY_REQUIRE_APPROVAL: "true"
+    }));
+    expect(res.ok).toBe(true);
+    if (res.ok) {
+      expect(res.policy).toEqual({ maxSingleTxMicroStx: 1_000_000, denyCommands: ["USDCX_APPROVE", "X402_CALL"], requireApproval: true });
+      expect(res.source).toContain("POLICY_MAX_SINGLE_TX_MICROSTX");
+    }
+  });
+
+  it("rejects malformed policies", () => {
+    expect(loadPolicyFromConfig(cfg({ POLICY_JSON: "{nope" })).ok).toBe(false);
+    expect(loadPolicyFromConfig(cfg({ POLICY_JSON: '{"unknownKey":1}' })).ok).toBe(false);
+    expect(loadPolicyFromConfig(cfg({ POLICY_MAX_SINGLE_TX_MICROSTX: "lots" })).ok).toBe(false);
+  });
+});
+
+describe("evaluatePolicy (STX)", () => {
+  const send: ParsedCommand = { type: "STX_SEND", to: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM", amountMicroStx: 2_000_000n };
+
+  it("enforces maxSingleTxMicroStx and dailyLimitMicroStx", () => {
+    expect(evaluatePolicy({ maxSingleTxMicroStx: 1_000_000 }, send).ok).toBe(false);
+    expect(evaluatePolicy({ dailyLimitMicroStx: 3_000_000 }, send, { dailySpendMicroStx: 1_500_000 }).ok).toBe(false);
+    expect(evaluatePolicy({ dailyLimitMicroStx: 3_000_000 }, send, { dailySpendMicroStx: 500_000 }).ok).toBe(true);
+  });
+
+  it("applies the STX caps to swaps that spend STX", () => {
+    const swap = (fromAsset: "STX" | "USDCX", toAsset: "STX" | "USDCX"): ParsedCommand => ({ type: "SWAP", amountIn: 2_000_000n, fromAsset, toAsset, maxSlippageBps: 100 });
+    expect(evaluatePolicy({ maxSingleTxMicroStx: 1_000_000 }, swap("STX", "USDCX")).ok).toBe(false);
+    expect(evaluatePolicy({ dailyLimitMicroStx: 3_000_000 }, swap("STX", "USDCX"), { dailySpendMicroStx: 1_500_000 }).ok).toBe(false);
+    expect(evaluatePolicy({ maxSingleTxMicroStx: 1_000_000 }, swap("USDCX", "STX")).ok).toBe(true);
+  });
+
+  it("enforces allowedStxNetworks", () => {
+    expect(evaluatePolicy({ allowedStxNetworks: ["testnet"] }, send, { stxNetwork: "mainnet" }).ok).toBe(false);
+    expect(evaluatePolicy({ allowedStxNetworks: ["testnet"] }, send, { stxNetwork: "testnet" }).ok).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { formatPostCondition, parsePostConditions, toPostCondition } from "../src/core/postconditions.js";
+import { parseCommand } from "../src/core/commands.js";
+
+const WALLET = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const TOKEN = "ST1R1061ZT6KPJXQ7PAXPFB6ZAZ6ZWW28G8HXK9G5.sbtc-token::sbtc-token";
+
+describe("post-condition clauses", () => {
+  it("parses STX and fungible clauses", () => {
+    const r = parsePostConditions(`stx <= 1.5STX; ${TOKEN} = 2500; ${WALLET}.vault STX >= 1`);
+    expect(r).toEqual({
+      ok: true,
+      value: [
+        { principal: null, asset: "STX", condition: "lte", amount: "1500000" },
+        { principal: null, asset: TOKEN, condition: "eq", amount: "2500" },
+        { principal: `${WALLET}.vault`, asset: "STX", condition: "gte", amount: "1" }
+      ]
+    });
+    if (r.ok) expect(r.value.map(formatPostCondition)).toEqual(["STX <= 1500000", `${TOKEN} = 2500`, `${WALLET}.vault STX >= 1`]);
+  });
+
+  it("rejects malformed clauses", () => {
+    expect(parsePostConditions("stx ~ 5").ok).toBe(false);
+    expect(parsePostConditions("SPNOTREAL.token::x <= 5").ok).toBe(false);
+    expect(parsePostConditions(`${TOKEN} <= 1.5`).ok).toBe(false);
+    expect(parsePostConditions("stx <=").ok).toBe(false);
+  });
+
+  it("resolves the doc wallet as the default principal", () => {
+    const r = parsePostConditions(`${TOKEN} <= 10`);
+    expect(r.ok && toPostCondition(r.value[0]!, WALLET)).toEqual({
+      type: "ft-postcondition",
+      address: WALLET,
+      condition: "lte",
+      asset: TOKEN,
+      amount: "10"
+    });
+  });
+
+  it("splits POST clauses off CONTRACT_CALL arguments", () => {
+    const r = parseCommand(`DW CONTRACT_CALL ${WALLET}.vault deposit u100 "POST office" POST ${TOKEN} <= 100 FEE=low`);
+    expect(r).toEqual({
+      ok: true,
+      value: {
+        type: "CONTRACT_CALL",
+        contractAddress: WALLET,
+        contractName: "vault",
+        functionName: "deposit",
+        args: [{ type: "uint", value: "100" }, { type: "string-ascii", value: "POST office" }],
+        postConditions: [{ principal: null, asset: TOKEN, condition: "lte", amount: "100" }],
+        feeTier: "low"
+      }
+    });
+    expect(parseCommand(`DW CONTRACT_READ ${WALLET}.vault get u1 POST stx <= 1`).ok).toBe(false);
+  });
+
+  it("leaves POST and separators inside string literals to the arguments", () => {
+    const r = parseCommand(`DW CONTRACT_CALL ${WALLET}.vault note "pay; then POST stx <= 1" u"\\" POST x" POST stx <= 1`);
+    expect(r.ok && r.value.type === "CONTRACT_CALL" && r.value).toMatchObject({
+      args: [{ type: "string-ascii", value: "pay; then POST stx <= 1" }, { type: "string-utf8", value: '" POST x' }],
+      postConditions: [{ principal: null, asset: "STX", condition: "lte", amount: "1" }]
+    });
+     expect(parseCommand(`DW CONTRACT_CALL ${WALLET}.vault note "send POST stx <= 1"`)).toMatchObject({
+      ok: true,
+      value: { args: [{ type: "string-ascii", value: "send POST stx <= 1" }] }
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it, onTestFinished, vi } from "vitest";
+import { parseCommand } from "../src/core/commands.js";
+import { aggregatePrices, formatPriceRange, summarizePriceHistory } from "../src/core/prices.js";
+import { PriceOracle } from "../src/integrations/prices.js";
+import type { PriceSource } from "../src/integrations/prices.js";
+import type { StacksClient } from "../src/integrations/stacks.js";
+import { createAndStoreDocSecrets } from "../src/wallet/store.js";
+import { fakeDoc } from "./fake-docwallet.js";
+import { TEST_MASTER_KEY, makeEngine, makeRepo } from "./helpers.js";
+
+vi.mock("../src/google/docwallet.js", () => import("./fake-docwallet.js"));
+
+const NOW = 1_700_000_000_000;
+const POLICY = { maxAgeMs: 300_000, maxDeviationPct: 5, minSources: 1 };
+
+describe("price oracle", () => {
+  it("takes the median of fresh, agreeing sources", () => {
+    const result = aggregatePrices([
+      { source: "a", price: 1.0, at: NOW },
+      { source: "b", price: 1.02, at: NOW - 60_000 },
+      { source: "c", price: 1.5, at: NOW },
+      { source: "d", price: 0.5, at: NOW - 600_000 }
+    ], POLICY, NOW);
+    expect(result).toMatchObject({ ok: true, price: 1.01 });
+    expect(result.rejected.map((r) => r.quote.source)).toEqual(["d", "c"]);
+  });
+
+  it("withholds a price when too few sources agree", () => {
+    expect(aggregatePrices([{ source: "a", price: 1, at: NOW - 301_000 }], POLICY, NOW))
+      .toMatchObject({ ok: false, error: "No fresh price source" });
+    expect(aggregatePrices([
+      { source: "a", price: 1, at: NOW },
+      { source: "b", price: 2, at: NOW }
+    ], POLICY, NOW).ok).toBe(false);
+    expect(aggregatePrices([{ source: "a", price: 1, at: NOW }], { ...POLICY, minSources: 2 }, NOW).ok).toBe(false);
+  });
+
+  it("parses DW PRICE and summarizes history", () => {
+    expect(parseCommand("DW PRICE sbtc 7d")).toEqual({ ok: true, value: { type: "PRICE", pair: "BTC/USD", rangeMs: 7 * 86_400_000 } });
+    expect(parseCommand("DW PRICE STX")).toEqual({ ok: true, value: { type: "PRICE", pair: "STX/USD", rangeMs: 86_400_000 } });
+    expect(parseCommand("DW PRICE STX 3w").ok).toBe(false);
+    expect(formatPriceRange(90 * 60_000)).toBe("90m");
+    expect(summarizePriceHistory([{ price: 2 }, { price: 1.5 }, { price: 2.5 }])).toEqual({
+      first: 2, last: 2.5, low: 1.5, high: 2.5, changePct: 25, samples: 3
+    });
+  });
+
+  it("records accepted prices and applies a manual override to its own doc only", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    onTestFinished(() => { vi.useRealTimers(); });
+    vi.setSystemTime(NOW);
+    const repo = makeRepo();
+    const fixed: PriceSource = { name: "fixed", getQuote: async () => ({ source: "fixed", price: 2, at: Date.now() }) };
+    const oracle = new PriceOracle(repo, [fixed], POLICY);
+
+    repo.setDocConfig("doc", "PRICE_STX_USD", "2.04");
+    await expect(oracle.refresh("STX/USD")).resolves.toMatchObject({ ok: true, price: 2 });
+    expect(repo.getPrice("STX/USD")).toMatchObject({ mid_price: 2, source: "fixed" });
+    expect(repo.listPriceHistory("STX/USD", 0)).toMatchObject([{ price: 2, sources: "fixed" }]);
+    await expect(oracle.forDoc("doc", "STX/USD")).resolves.toMatchObject({ ok: true, price: 2.02 });
+    await expect(oracle.forDoc("other", "STX/USD")).resolves.toMatchObject({ ok: true, price: 2 });
+
+    vi.setSystemTime(NOW + 301_000);
+    await oracle.refresh("STX/USD");
+    const stale = await oracle.forDoc("doc", "STX/USD");
+    expect(stale).toMatchObject({ ok: true, price: 2 });
+    expect(stale.rejected.map((r) => `${r.quote.source} ${r.reason}`)).toEqual(["manual stale (301s old)"]);
+  });
+});
+
+describe("price-triggered orders", () => {
+  /** A doc with a STOP_LOSS at $1 and a market source quoting `market` (null while it is down). */
+  const setup = (market: number | null) => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    onTestFinished(() => { vi.useRealTimers(); });
+    vi.setSystemTime(NOW);
+    const repo = makeRepo();
+    const source: PriceSource = { name: "coingecko", getQuote: async () => market === null ? null : { source: "coingecko", price: market, at: Date.now() } };
+    const prices = new PriceOracle(repo, [source], POLICY);
+    const { engine } = makeEngine({ repo, prices, stacks: {} as unknown as StacksClient });
+    repo.upsertDoc({ docId: "doc1", name: "Treasury" });
+    createAndStoreDocSecrets({ repo, masterKey: TEST_MASTER_KEY, docId: "doc1", stxNetwork: "testnet" });
+    repo.insertConditionalOrder({ orderId: "stx_sl_1", docId: "doc1", type: "STOP_LOSS", base: "STX", quote: "USDCX", triggerPrice: 1, qty: 100 });
+    return { engine, repo, doc: fakeDoc("doc1") };
+  };
+
+  it("never triggers on a doc's manual override alone", async () => {
+    const { engine, repo, doc } = setup(null);
+    repo.setDocConfig("doc1", "PRICE_STX_USD", "0.5");
+
+    await engine.priceTick();
+
+    expect(repo.getConditionalOrder("stx_sl_1")?.status).toBe("ACTIVE");
+    expect(doc.commands).toEqual([]);
+  });
+
+  it("holds a swap triggered at a price the override joined for approval", async () => {
+    const { engine, repo, doc } = setup(0.99);
+    repo.setDocConfig("doc1", "PRICE_STX_USD", "0.98");
+
+    await engine.priceTick();
+
+    const cmdId = repo.getConditionalOrder("stx_sl_1")?.triggered_cmd_id;
+    expect(repo.getCommand(cmdId!)?.status).toBe("PENDING_APPROVAL");
+    expect(doc.commands).toMatchObject([{ id: cmdId, status: "PENDING_APPROVAL", approvalUrl: expect.stringContaining(cmdId!) }]);
+    expect(doc.audit).toEqual([`stx_sl_1 TRIGGERED at a price including the doc's PRICE_STX_USD override -> ${cmdId} PENDING_APPROVAL`]);
+  });
+
+  it("approves a swap triggered by market sources only", async () => {
+    const { engine, repo, doc } = setup(0.99);
+
+    await engine.priceTick();
+
+    const cmdId = repo.getConditionalOrder("stx_sl_1")?.triggered_cmd_id;
+    expect(repo.getCommand(cmdId!)?.status).toBe("APPROVED");
+    expect(doc.commands).toMatchObject([{ id: cmdId, status: "APPROVED", approvalUrl: "" }]);
+  });
+});
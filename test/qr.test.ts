@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { encodeQr, numDataCodewords, qrFormatBits, qrSvg, qrVersionBits } from "../src/core/qr.js";
+
+// Module matrix for PAY_URI at version 6, mask 7, level M, produced by the independent `qrcode`
+// npm encoder (1.5.4) with the version and mask pinned; "1" is a dark module.
+const PAY_URI = "stacks:ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM?amount=25.000001&memo=pay_1700000000000_abcdef12";
+const PAY_URI_MODULES = [
+  "11111110010010101101101100110101101111111",
+  "10000010000100100010111100110010001000001",
+  "10111010001010000011100110100100001011101",
+  "10111010011101000111010110101011101011101",
+  "10111010000101000010011001101010101011101",
+  "10000010101010011001000011110011001000001",
+  "11111110101010101010101010101010101111111",
+  "00000000010101001110011010101100100000000",
+  "10010110101001110100100110110010110100000",
+  "11000000000001100000001111011111111101001",
+  "11100110000101100001010010100111000110000",
+  "01100001101010001011110101010010110100110",
+  "10111111111001000101000010011000001011001",
+  "10101100000011110100011110100110100000100",
+  "00011010110011100110101010101110000000011",
+  "00001001011110011101011011111101001100011",
+  "11010111001001110111011100000111010001111",
+  "10111000111101110010101111101010101100101",
+  "01011010101010001010010001001010110100101",
+  "10111100101001011110001110000110010100011",
+  "10001011110100100110000011001000011001100",
+  "11001101110001111110100110111101100101001",
+  "01011111011011110001000010100011111011110",
+  "00001001100111100000010001000010011001100",
+  "01110111110111010001000000011000001101001",
+  "01010101011100110000110110110110100101000",
+  "01100010010001110000010111000000001100001",
+  "10011001111100101110111101010100010100010",
+  "00100111011101010101101011000000000111000",
+  "01000101111000010011000000001000101100011",
+  "10110110110011001011101010000010101001111",
+  "00010000000010111101110000101100000011001",
+  "10110010111111110011100101101010111110011",
+  "00000000100000011010011001000110100010100",
+  "11111110000110010101000001101110101010110",
+  "10000010111110011100011111010001100011101",
+  "10111010010110010001001101100100111111011",
+  "10111010101001001101000110110100011110010",
+  "10111010010000100000111111100110010010011",
+  "10000010000000110101110111001100011001010",
+  "11111110111010101010101000101000110010010"
+];
+
+const URI = "stacks:ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM?token=ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.usdcx&amount=12.5&memo=pay_1700000000000_abcdef12";
+
+describe("qr encoder", () => {
+  it("matches the spec's capacity, format and version tables", () => {
+    expect(numDataCodewords(1, "M")).toBe(16);
+    expect(numDataCodewords(10, "M")).toBe(216);
+    expect(numDataCodewords(40, "L")).toBe(2956);
+    expect(numDataCodewords(40, "H")).toBe(1276);
+    expect(qrFormatBits("M", 0).toString(2).padStart(15, "0")).toBe("101010000010010");
+    expect(qrFormatBits("L", 0).toString(2).padStart(15, "0")).toBe("111011111000100");
+    expect(qrVersionBits(7).toString(2).padStart(18, "0")).toBe("000111110010010100");
+  });
+
+  it("picks the smallest version that fits and draws the fixed patterns", () => {
+    expect(encodeQr("hello").version).toBe(1);
+    const qr = encodeQr(URI);
+    expect(qr.version).toBe(8);
+    const size = qr.modules.length;
+    expect(size).toBe(8 * 4 + 17);
+    const finderRow = [true, true, true, true, true, true, true, false];
+    expect(qr.modules[0]!.slice(0, 8)).toEqual(finderRow);
+    expect(qr.modules[0]!.slice(size - 8).reverse()).toEqual(finderRow);
+    expect(qr.modules[size - 8]![8]).toBe(true);
+
+    // Format information around the top-left finder decodes back to the chosen mask.
+    const cells: Array<[number, number]> = [[8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8], [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8]];
+    const format = cells.reduce((acc, [x, y], i) => acc | (qr.modules[y]![x] ? 1 << i : 0), 0);
+    expect(format).toBe(qrFormatBits("M", qr.mask));
+  });
+
+  it("matches a reference encoder module for module", () => {
+    const qr = encodeQr(PAY_URI);
+    expect([qr.version, qr.mask]).toEqual([6, 7]);
+    expect(qr.modules.map((row) => row.map((dark) => (dark ? "1" : "0")).join(""))).toEqual(PAY_URI_MODULES);
+  });
+
+  it("rejects payloads beyond version 40", () => {
+    expect(() => encodeQr("x".repeat(3000))).toThrow(/too long/);
+  });
+
+  it("renders an SVG with a quiet zone", () => {
+    const svg = qrSvg("hello", { sizePx: 200 });
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" viewBox="0 0 29 29" width="200" height="200"/);
+    expect(svg).toContain('<path d="M4,4h1v1h-1z');
+  });
+});
@@ -0,0 +1,135 @@
+import { once } from "node:events";
+import type { AddressInfo } from "node:net";
+import { describe, expect, it, onTestFinished, vi } from "vitest";
+import { privateKeyToAddress, randomPrivateKey, signStructuredData } from "@stacks/transactions";
+import { evaluateQuorum } from "../src/core/quorum.js";
+import { parseCommand } from "../src/core/commands.js";
+import { buildApprovalUrl, deriveApprovalSecret } from "../src/core/approval.js";
+import { approvalCommandHash, approvalDomain, approvalMessage } from "../src/core/sip018.js";
+import { startServer } from "../src/server.js";
+import { fakeDoc } from "./fake-docwallet.js";
+import { makeRepo } from "./helpers.js";
+
+vi.mock("../src/google/docwallet.js", () => import("./fake-docwallet.js"));
+
+const signers = [
+  { address: "alice", weight: 2 },
+  { address: "bob", weight: 1 },
+  { address: "carol", weight: 1 }
+];
+
+const signed = (signer_address: string, decision: string) => ({ signer_address, decision, auth: "SIP-018" });
+
+describe("evaluateQuorum", () => {
+  it("stays pending until approving weight reaches quorum", () => {
+    const r = evaluateQuorum({ signers, quorum: 3, approvals: [signed("alice", "APPROVE")] });
+    expect(r.status).toBe("PENDING");
+    expect(r.approvedWeight).toBe(2);
+    expect(r.totalWeight).toBe(4);
+  });
+
+  it("approves once weighted approvals meet quorum", () => {
+    const r = evaluateQuorum({
+      signers,
+      quorum: 3,
+      approvals: [signed("alice", "APPROVE"), signed("carol", "APPROVE")]
+    });
+    expect(r.status).toBe("APPROVED");
+    expect(r.approvedWeight).toBe(3);
+  });
+
+  it("rejects when the remaining weight can no longer reach quorum", () => {
+    const r = evaluateQuorum({ signers, quorum: 3, approvals: [signed("alice", "REJECT")] });
+    expect(r.status).toBe("REJECTED");
+    expect(r.rejectedWeight).toBe(2);
+  });
+
+  it("ignores decisions from unknown signers", () => {
+    const r = evaluateQuorum({ signers, quorum: 1, approvals: [signed("mallory", "APPROVE")] });
+    expect(r.status).toBe("PENDING");
+    expect(r.approvedWeight).toBe(0);
+  });
+
+  it("counts only decisions carrying the signer's SIP-018 signature", () => {
+    for (const auth of [null, undefined, "signer link"]) {
+      const r = evaluateQuorum({ signers, quorum: 1, approvals: [{ signer_address: "alice", decision: "APPROVE", auth }] });
+      expect(r.status).toBe("PENDING");
+      expect(r.approvedWeight).toBe(0);
+    }
+  });
+});
+
+describe("signer commands", () => {
+  it("parses SIGNER_ADD with default weight and requires a Stacks address", () => {
+    const address = privateKeyToAddress(randomPrivateKey(), "testnet");
+    const r = parseCommand(`DW SIGNER_ADD ${address}`);
+    expect(r.ok && r.value).toEqual({ type: "SIGNER_ADD", signerId: address, weight: 1 });
+    expect(parseCommand("DW SIGNER_ADD alice@example.com").ok).toBe(false);
+  });
+
+  it("parses QUORUM and rejects non-positive values", () => {
+    const r = parseCommand("DW QUORUM 2");
+    expect(r.ok && r.value).toEqual({ type: "QUORUM", quorum: 2 });
+    expect(parseCommand("DW QUORUM 0").ok).toBe(false);
+  });
+
+  it("parses SIGNER_REMOVE and SIGNERS", () => {
+    const r = parseCommand("DW SIGNER_REMOVE bob");
+    expect(r.ok && r.value).toEqual({ type: "SIGNER_REMOVE", signerId: "bob" });
+    expect(parseCommand("DW SIGNERS").ok).toBe(true);
+  });
+});
+
+describe("approval page", () => {
+  it("does not let one doc reader reach quorum with the shared approval link", async () => {
+    const repo = makeRepo();
+    const secret = deriveApprovalSecret("a".repeat(64));
+    const [aliceKey, bobKey] = [randomPrivateKey(), randomPrivateKey()];
+    const [alice, bob] = [aliceKey, bobKey].map((key) => privateKeyToAddress(key, "testnet")) as [string, string];
+    repo.upsertDoc({ docId: "doc1", name: "Treasury" });
+    repo.upsertSigner({ docId: "doc1", address: alice, weight: 1 });
+    repo.upsertSigner({ docId: "doc1", address: bob, weight: 1 });
+    repo.setDocQuorum("doc1", 2);
+    const parsedJson = JSON.stringify({ type: "STX_SEND", to: bob, amountMicroStx: "1000000" });
+    repo.upsertCommand({
+      cmd_id: "cmd_1", doc_id: "doc1", raw_command: `DW STX_SEND ${bob} 1STX`, parsed_json: parsedJson, status: "PENDING_APPROVAL",
+      yellow_intent_id: null, sui_tx_digest: null, arc_tx_hash: null, result_text: null, error_text: null
+    }, { source: "cell-edit", actor: "doc-editor" });
+    fakeDoc("doc1");
+
+    const server = startServer({ docs: {} as never, repo, masterKey: "a".repeat(64), port: 0, publicBaseUrl: "http://localhost", approvalSecret: secret, stxNetwork: "testnet" });
+    onTestFinished(() => { server.close(); });
+    await once(server, "listening");
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    // Everything a doc reader has: the APPROVAL_URL link and the page it opens.
+    const link = new URL(buildApprovalUrl({ publicBaseUrl: base, secret, docId: "doc1", cmdId: "cmd_1" }));
+    const page = await fetch(link);
+    const html = await page.text();
+    const csrf = html.match(/'x-csrf-token': "([^"]+)"/)![1]!;
+    const sipExpiresAt = Number(html.match(/sipExpiresAt: (\d+)/)![1]);
+    const cookie = page.headers.get("set-cookie")!.split(";")[0]!;
+    const sign = (key: string) => signStructuredData({
+      message: approvalMessage({ docId: "doc1", cmdId: "cmd_1", commandHash: approvalCommandHash(parsedJson, ""), decision: "APPROVE", expiresAt: sipExpiresAt }),
+      domain: approvalDomain("testnet"),
+      privateKey: key
+    });
+    const decide = async (signer: string, signature?: string) => {
+      const res = await fetch(`${base}/api/command-decision`, {
+        method: "POST",
+        headers: { "content-type": "application/json", "x-csrf-token": csrf, cookie },
+        body: JSON.stringify({ docId: "doc1", cmdId: "cmd_1", decision: "APPROVED", token: link.searchParams.get("token"), signer, signature, sipExpiresAt })
+      });
+      return { status: res.status, body: await res.json() };
+    };
+
+    expect(await decide(alice)).toMatchObject({ status: 403 });
+    expect(await decide(bob, sign(aliceKey))).toMatchObject({ status: 403, body: { error: "Signature does not match signer address" } });
+    expect(await decide(alice, sign(aliceKey))).toMatchObject({ status: 200, body: { status: "PENDING", approvedWeight: 1, quorum: 2 } });
+    expect(await decide(bob)).toMatchObject({ status: 403 });
+    expect(repo.getCommand("cmd_1")?.status).toBe("PENDING_APPROVAL");
+
+    expect(await decide(bob, sign(bobKey))).toMatchObject({ status: 200, body: { status: "APPROVED", approvedWeight: 2 } });
+    expect(repo.getCommand("cmd_1")?.status).toBe("APPROVED");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { describeRebalance, parseDriftBand, parseRebalanceTargets, planRebalance } from "../src/core/rebalance.js";
+
+const PRICES = { STX: 2, SBTC: 100_000, USDCX: 1 };
+
+describe("auto-rebalance", () => {
+  it("parses target weights and the drift band", () => {
+    expect(parseRebalanceTargets("STX 40% / sBTC 40% / USDCx 20%")).toEqual({ ok: true, value: { STX: 40, SBTC: 40, USDCX: 20 } });
+    expect(parseRebalanceTargets("stx=50, usdc=50")).toEqual({ ok: true, value: { STX: 50, SBTC: 0, USDCX: 50 } });
+    expect(parseRebalanceTargets("STX 40% / sBTC 40%")).toMatchObject({ ok: false, error: expect.stringContaining("sum to 100%") });
+    expect(parseRebalanceTargets("DOGE 100%").ok).toBe(false);
+    expect(parseDriftBand("5%")).toBe(5);
+    expect(parseDriftBand("0")).toBeNull();
+  });
+
+  it("sells overweight assets into underweight ones", () => {
+    // $1000 STX, $600 sBTC, $400 USDCx against 40/40/20
+    const plan = planRebalance({
+      balances: { STX: 500_000_000n, SBTC: 600_000n, USDCX: 400_000_000n },
+      prices: PRICES,
+      targets: { STX: 40, SBTC: 40, USDCX: 20 }
+    })!;
+    expect(plan.totalUsd).toBe(2000);
+    expect(plan.maxDriftPct).toBeCloseTo(10);
+    expect(plan.swaps).toEqual([{ fromAsset: "STX", toAsset: "SBTC", amountIn: 100_000_000n, usd: 200 }]);
+    expect(describeRebalance(plan, 5)).toBe(
+      "STX 50.0% (target 40%), sBTC 30.0% (target 40%), USDCx 20.0% (target 20%) of $2000.00; drift 10.0pp exceeds the 5pp band"
+    );
+  });
+
+  it("splits one surplus across several deficits and drops dust", () => {
+    const plan = planRebalance({
+      balances: { STX: 0n, SBTC: 0n, USDCX: 1_000_000_000n },
+      prices: PRICES,
+      targets: { STX: 50, SBTC: 49.95, USDCX: 0.05 }
+    })!;
+    expect(plan.swaps.map((s) => [s.fromAsset, s.toAsset, s.amountIn])).toEqual([
+      ["USDCX", "STX", 500_000_000n],
+      ["USDCX", "SBTC", 499_500_000n]
+    ]);
+    // $500.40 STX vs $499.60 sBTC: a $0.40 leg is dust
+    expect(planRebalance({
+      balances: { STX: 250_200_000n, SBTC: 499_600n, USDCX: 0n },
+      prices: PRICES,
+      targets: { STX: 50, SBTC: 50, USDCX: 0 }
+    })?.swaps).toEqual([]);
+    expect(planRebalance({ balances: { STX: 0n, SBTC: 0n, USDCX: 0n }, prices: PRICES, targets: { STX: 100, SBTC: 0, USDCX: 0 } })).toBeNull();
+  });
+});
@@ -30,4 +30,27 @@ describe("Repo counters and approvals", () => {
     expect(decision?.decision).toBe("APPROVE");
     repo.close();
   });
+
+  it("refuses to consume an approval nonce twice", () => {
+    const { repo } = makeRepo();
+    expect(repo.consumeApprovalNonce({ nonce: "n1", docId: "doc1", cmdId: "cmd1" })).toBe(true);
+    expect(repo.consumeApprovalNonce({ nonce: "n1", docId: "doc1", cmdId: "cmd1" })).toBe(false);
+    expect(repo.consumeApprovalNonce({ nonce: "n1", docId: "doc1", cmdId: "cmd1", signerAddress: "alice" })).toBe(true);
+    repo.close();
+  });
+
+  it("lists active conditional orders ahead of settled ones", () => {
+    const { repo } = makeRepo();
+    const order = { docId: "doc1", type: "STOP_LOSS", base: "STX", quote: "USDCX", triggerPrice: 0.5, qty: 10 };
+    for (const orderId of ["o1", "o2", "o3"]) repo.insertConditionalOrder({ ...order, orderId });
+    repo.insertConditionalOrder({ ...order, orderId: "other", docId: "doc2" });
+    repo.cancelConditionalOrder("o1");
+    expect(repo.listConditionalOrders("doc1").map((o) => [o.order_id, o.status])).toEqual([
+      ["o2", "ACTIVE"],
+      ["o3", "ACTIVE"],
+      ["o1", "CANCELLED"]
+    ]);
+    expect(repo.getConditionalOrder("other")?.doc_id).toBe("doc2");
+    repo.close();
+  });
 });
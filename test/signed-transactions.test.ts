@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from "vitest";
+import { BroadcastRejectedError } from "../src/integrations/stacks.js";
+import type { StacksClient } from "../src/integrations/stacks.js";
+import { createAndStoreDocSecrets } from "../src/wallet/store.js";
+import { fakeDoc } from "./fake-docwallet.js";
+import { TEST_MASTER_KEY, makeEngine, makeRepo, seedCommand } from "./helpers.js";
+
+vi.mock("../src/google/docwallet.js", () => import("./fake-docwallet.js"));
+
+const ADDR = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const TXID = "AB".repeat(32);
+
+describe("signed transaction journal", () => {
+  it("stores the raw transaction before broadcast and looks it up by either txid form", () => {
+    const repo = makeRepo();
+    repo.insertSignedTransaction({ txid: TXID, cmdId: "cmd_1", docId: "doc", sender: ADDR, nonce: 7n, fee: 2000n, rawHex: "0080" });
+    const row = repo.getSignedTransaction(`0x${TXID.toLowerCase()}`);
+    expect(row).toMatchObject({ txid: TXID.toLowerCase(), cmd_id: "cmd_1", nonce: 7, fee_micro_stx: "2000", raw_hex: "0080", status: "SIGNED" });
+
+    repo.setSignedTransactionStatus(`0x${TXID}`, "BROADCAST");
+    expect(repo.getSignedTransaction(TXID)?.status).toBe("BROADCAST");
+  });
+
+  it("keeps the first journal entry when the same transaction is signed again", () => {
+    const repo = makeRepo();
+    repo.insertSignedTransaction({ txid: TXID, cmdId: "cmd_1", docId: "doc", sender: ADDR, nonce: 7n, fee: 2000n, rawHex: "0080" });
+    repo.setSignedTransactionStatus(TXID, "BROADCAST");
+    repo.insertSignedTransaction({ txid: TXID, cmdId: "cmd_2", docId: "doc", sender: ADDR, nonce: 7n, fee: 2000n, rawHex: "0080" });
+    expect(repo.getSignedTransaction(TXID)).toMatchObject({ cmd_id: "cmd_1", status: "BROADCAST" });
+  });
+});
+
+describe("settling signed commands", () => {
+  /** An EXECUTING STX_SEND whose transaction TXID was journaled, with the node reporting `status` for it. */
+  const setup = (status: string) => {
+    const stacks = {
+      getTransactionStatus: vi.fn(async () => ({ status })),
+      broadcastRawTransaction: vi.fn(async () => TXID)
+    };
+    const { engine, repo } = makeEngine({ stacks: stacks as unknown as StacksClient });
+    repo.upsertDoc({ docId: "doc1", name: "Treasury" });
+    const doc = fakeDoc("doc1");
+    seedCommand(repo, { cmdId: "cmd_1", docId: "doc1", command: `DW STX_SEND ${ADDR} 1STX`, status: "APPROVED" });
+    repo.setCommandStatus("cmd_1", "EXECUTING", { source: "executor" });
+    repo.setCommandExecutionIds("cmd_1", { txId: TXID });
+    repo.insertSignedTransaction({ txid: TXID, cmdId: "cmd_1", docId: "doc1", sender: ADDR, nonce: 7n, fee: 2000n, rawHex: "0080" });
+    return { engine, repo, stacks, doc };
+  };
+
+  it("rebroadcasts the stored raw transaction when the node has never seen it", async () => {
+    const { engine, repo, stacks } = setup("not_found");
+    await engine.reconcileExecutingCommands();
+    expect(stacks.broadcastRawTransaction).toHaveBeenCalledWith("0080");
+    expect(repo.getCommand("cmd_1")).toMatchObject({ status: "EXECUTED", result_text: `Recovered by txid: ${TXID} (rebroadcast)` });
+    expect(repo.getSignedTransaction(TXID)?.status).toBe("BROADCAST");
+  });
+
+  it("fails the command when the node rejects the rebroadcast", async () => {
+    const { engine, repo, stacks } = setup("not_found");
+    stacks.broadcastRawTransaction.mockRejectedValueOnce(new BroadcastRejectedError("Rebroadcast failed: BadNonce", TXID, "BadNonce"));
+    await engine.reconcileExecutingCommands();
+    expect(repo.getCommand("cmd_1")).toMatchObject({ status: "FAILED", error_text: `Transaction ${TXID} rejected on rebroadcast (BadNonce)` });
+    expect(repo.getSignedTransaction(TXID)?.status).toBe("REJECTED");
+  });
+
+  it("settles by the chain's verdict without rebroadcasting a known transaction", async () => {
+    const ok = setup("success");
+    await ok.engine.reconcileExecutingCommands();
+    expect(ok.repo.getCommand("cmd_1")?.status).toBe("EXECUTED");
+    expect(ok.stacks.broadcastRawTransaction).not.toHaveBeenCalled();
+
+    const aborted = setup("abort_by_response");
+    await aborted.engine.reconcileExecutingCommands();
+    expect(aborted.repo.getCommand("cmd_1")).toMatchObject({ status: "FAILED", error_text: `Transaction ${TXID} abort_by_response` });
+  });
+
+  it("leaves the command EXECUTING when the status lookup fails", async () => {
+    const { engine, repo, stacks } = setup("pending");
+    stacks.getTransactionStatus.mockRejectedValueOnce(new Error("Hiro API error 503"));
+    await engine.reconcileExecutingCommands();
+    expect(repo.getCommand("cmd_1")?.status).toBe("EXECUTING");
+  });
+
+  it("settles by txid when the broadcast outcome is unknown, keeping the nonce consumed", async () => {
+    const stacks = {
+      getTransactionStatus: vi.fn(async () => ({ status: "pending" })),
+      sendStx: vi.fn(async (p: Parameters<StacksClient["sendStx"]>[0]) => {
+        p.onSigned?.({ txid: TXID, rawHex: "0080", sender: wallet, nonce: 7n, fee: 2000n });
+        throw new Error("socket hang up");
+      })
+    };
+    const { engine, repo } = makeEngine({ stacks: stacks as unknown as StacksClient });
+    const wallet = createAndStoreDocSecrets({ repo, masterKey: TEST_MASTER_KEY, docId: "doc1", stxNetwork: "testnet" }).stx!.stxAddress;
+    repo.upsertDoc({ docId: "doc1", name: "Treasury" });
+    const doc = fakeDoc("doc1");
+    repo.insertNonceReservation(wallet, 7);
+    seedCommand(repo, { cmdId: "cmd_1", docId: "doc1", command: `DW STX_SEND ${ADDR} 1STX`, status: "APPROVED" });
+
+    await engine.executorTick();
+
+    expect(doc.audit[0]).toBe(`cmd_1 broadcast outcome unknown (socket hang up); settling by txid ${TXID}`);
+    expect(repo.getCommand("cmd_1")).toMatchObject({ status: "EXECUTED", result_text: `Recovered by txid: ${TXID} (pending)` });
+    expect(repo.listNonceReservations(wallet)).toMatchObject([{ nonce: 7, status: "BROADCAST", txid: TXID }]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from "vitest";
+import { PostConditionMode } from "@stacks/transactions";
+import { parseCommand } from "../src/core/commands.js";
+import type { BroadcastResult, StacksClient } from "../src/integrations/stacks.js";
+import { MockSwapAdapter } from "../src/integrations/swap.js";
+import type { UsdcxClient } from "../src/integrations/usdcx.js";
+import { createAndStoreDocSecrets } from "../src/wallet/store.js";
+import { fakeDoc } from "./fake-docwallet.js";
+import { TEST_MASTER_KEY, makeEngine, seedCommand } from "./helpers.js";
+
+vi.mock("../src/google/docwallet.js", () => import("./fake-docwallet.js"));
+
+const ADDR = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+describe("dry runs", () => {
+  it("wraps a DRYRUN suffix and DW SIMULATE into the same command", () => {
+    const expected = {
+      ok: true,
+      value: { type: "SIMULATE", command: { type: "STX_SEND", to: ADDR, amountMicroStx: 1_500_000n } }
+    };
+    expect(parseCommand(`DW STX_SEND ${ADDR} 1.5STX DRYRUN`)).toEqual(expected);
+    expect(parseCommand(`DW SIMULATE STX_SEND ${ADDR} 1.5STX`)).toEqual(expected);
+    expect(parseCommand(`DW SIMULATE DW STX_SEND ${ADDR} 1.5STX`)).toEqual(expected);
+  });
+
+  it("keeps FEE= on the simulated command in either order", () => {
+    const expected = {
+      ok: true,
+      value: { type: "SIMULATE", command: { type: "SBTC_SEND", to: ADDR, amountSats: 1000n, feeTier: "low" } }
+    };
+    expect(parseCommand(`DW SBTC_SEND ${ADDR} 1000sats DRYRUN FEE=low`)).toEqual(expected);
+    expect(parseCommand(`DW SBTC_SEND ${ADDR} 1000sats FEE=low DRYRUN`)).toEqual(expected);
+  });
+
+  it("simulates swaps", () => {
+    expect(parseCommand("DW SWAP 10 STX USDC DRYRUN")).toEqual({
+      ok: true,
+      value: { type: "SIMULATE", command: { type: "SWAP", amountIn: 10_000_000n, fromAsset: "STX", toAsset: "USDCX", maxSlippageBps: 100 } }
+    });
+  });
+
+  it("only simulates money-moving commands", () => {
+    expect(parseCommand("DW SIMULATE STX_BALANCE")).toEqual({ ok: false, error: "STX_BALANCE cannot be simulated" });
+    expect(parseCommand(`DW SIMULATE SIMULATE STX_SEND ${ADDR} 1STX`).ok).toBe(false);
+    expect(parseCommand("DW SIMULATE").ok).toBe(false);
+  });
+});
+
+describe("dry-run output", () => {
+  const signed: BroadcastResult = {
+    txid: "EF".repeat(32),
+    nonce: 3n,
+    fee: 1000n,
+    dryRun: { rawHex: "00", postConditionMode: PostConditionMode.Deny, postConditions: [] }
+  };
+
+  const simulate = async (command: string) => {
+    const stacks = {
+      sendStx: vi.fn(async () => signed),
+      contractCall: vi.fn(async () => signed),
+      getBalance: vi.fn(async () => ({ stx: 5_000_000n, stxFormatted: "5", locked: 1_000_000n }))
+    };
+    const usdcx = { getBalance: vi.fn(async () => ({ balanceRaw: 3_000_000n })) };
+    const swap = new MockSwapAdapter((asset) => ({ STX: 2, SBTC: 100_000, USDCX: 1 })[asset]);
+    const { engine, repo } = makeEngine({ stacks: stacks as unknown as StacksClient, usdcx: usdcx as unknown as UsdcxClient, swap });
+    createAndStoreDocSecrets({ repo, masterKey: TEST_MASTER_KEY, docId: "doc1", stxNetwork: "testnet" });
+    repo.upsertDoc({ docId: "doc1", name: "Treasury" });
+    fakeDoc("doc1");
+    seedCommand(repo, { cmdId: "cmd_1", docId: "doc1", command, status: "APPROVED" });
+    await engine.executorTick();
+    const cmd = repo.getCommand("cmd_1");
+    expect(cmd?.status).toBe("EXECUTED");
+    return { text: cmd!.result_text!, stacks };
+  };
+
+  it("reports the signed transaction, spendable balance and policy for a send", async () => {
+    const { text, stacks } = await simulate(`DW STX_SEND ${ADDR} 1.5STX DRYRUN`);
+    expect(stacks.sendStx.mock.calls[0]).toMatchObject([{ to: ADDR, amountMicroStx: 1_500_000n, dryRun: true }]);
+    expect(text.split("\n")).toEqual([
+      `SIMULATE STX_SEND: send 1.5 STX (1500000 uSTX) → ${ADDR} — nothing broadcast`,
+      `Tx: txid=${signed.txid} nonce=3 fee=1000 uSTX`,
+      "Balances: STX 4 → 2.499",
+      "Post-conditions: none (plain STX transfer)",
+      "Policy: allowed, needs approval"
+    ]);
+  });
+
+  it("says a contract call's code was not run, so it cannot promise the call succeeds", async () => {
+    const { text } = await simulate(`DW SIMULATE CONTRACT_CALL ${ADDR}.vault withdraw u100`);
+    expect(text).toContain(`SIMULATE CONTRACT_CALL: call ${ADDR}.vault::withdraw — nothing broadcast`);
+    expect(text).toContain("Post-conditions: deny mode; no asset transfers allowed");
+    expect(text).toContain("Execution: NOT SIMULATED — the contract code was not run and can still abort on-chain");
+  });
+
+  it("reports a swap's quote, minimum output and both balance changes", async () => {
+    const { text } = await simulate("DW SWAP 1.5 STX USDC 1% DRYRUN");
+    expect(text.split("\n")).toEqual([
+      "SIMULATE SWAP: swap 1.5 STX (1500000 uSTX) → ~2.991 USDCx (2991000 base units) (min 2.96109 USDCx, slippage ≤ 1%) via mock — nothing broadcast",
+      "Tx: none signed",
+      "Balances: STX 4 → 2.5 | USDCx 3 → 5.991",
+      "Post-conditions: none (nothing signed)",
+      "Policy: allowed, needs approval"
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { privateKeyToAddress, randomPrivateKey, signStructuredData } from "@stacks/transactions";
+import { approvalDomain, approvalMessage, isStacksSigner, verifyApprovalSignature } from "../src/core/sip018.js";
+import type { ApprovalMessage } from "../src/core/sip018.js";
+
+const privateKey = randomPrivateKey();
+const address = privateKeyToAddress(privateKey, "testnet");
+const message: ApprovalMessage = {
+  docId: "doc1",
+  cmdId: "cmd_1",
+  commandHash: "ab".repeat(32),
+  decision: "APPROVE",
+  expiresAt: 2_000_000_000
+};
+
+function sign(msg: ApprovalMessage, key = privateKey) {
+  return signStructuredData({ message: approvalMessage(msg), domain: approvalDomain("testnet"), privateKey: key });
+}
+
+describe("SIP-018 approval signatures", () => {
+  it("detects Stacks-address signers", () => {
+    expect(isStacksSigner(address)).toBe(true);
+    expect(isStacksSigner("alice@example.com")).toBe(false);
+  });
+
+  it("accepts a signature from the registered address", () => {
+    const r = verifyApprovalSignature({ network: "testnet", message, signature: sign(message), signerAddress: address, nowSeconds: 1_000 });
+    expect(r).toEqual({ ok: true });
+  });
+
+  it("rejects a signature from another key", () => {
+    const signature = sign(message, randomPrivateKey());
+    const r = verifyApprovalSignature({ network: "testnet", message, signature, signerAddress: address, nowSeconds: 1_000 });
+    expect(r.ok).toBe(false);
+  });
+
+  it("rejects a signature over a different decision or command hash", () => {
+    const signature = sign({ ...message, decision: "REJECT" });
+    expect(verifyApprovalSignature({ network: "testnet", message, signature, signerAddress: address, nowSeconds: 1_000 }).ok).toBe(false);
+    const other = sign({ ...message, commandHash: "cd".repeat(32) });
+    expect(verifyApprovalSignature({ network: "testnet", message, signature: other, signerAddress: address, nowSeconds: 1_000 }).ok).toBe(false);
+  });
+
+  it("rejects expired or wrong-chain signatures", () => {
+    const signature = sign(message);
+    expect(verifyApprovalSignature({ network: "testnet", message, signature, signerAddress: address, nowSeconds: 2_000_000_001 }))
+      .toEqual({ ok: false, error: "Signed approval expired" });
+    expect(verifyApprovalSignature({ network: "mainnet", message, signature, signerAddress: address, nowSeconds: 1_000 }).ok).toBe(false);
+  });
+});
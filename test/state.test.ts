@@ -6,11 +6,15 @@ describe("canTransition", () => {
     expect(canTransition("PENDING_APPROVAL", "APPROVED")).toBe(true);
     expect(canTransition("APPROVED", "EXECUTING")).toBe(true);
     expect(canTransition("EXECUTING", "EXECUTED")).toBe(true);
+    expect(canTransition("EXECUTED", "CONFIRMED")).toBe(true);
+    expect(canTransition("EXECUTED", "ABORTED")).toBe(true);
   });
 
   it("blocks invalid transitions", () => {
     expect(canTransition("EXECUTED", "APPROVED")).toBe(false);
     expect(canTransition("REJECTED", "APPROVED")).toBe(false);
     expect(canTransition("FAILED", "EXECUTING")).toBe(false);
+    expect(canTransition("ABORTED", "CONFIRMED")).toBe(false);
+    expect(canTransition("EXECUTING", "CONFIRMED")).toBe(false);
   });
 });
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+import { Cl, PostConditionMode, randomPrivateKey } from "@stacks/transactions";
+import type { ClarityAbi, ClarityAbiFunction } from "@stacks/transactions";
+import { parseCommand } from "../src/core/commands.js";
+import type { StacksClient } from "../src/integrations/stacks.js";
+import { MockSwapAdapter, RouterSwapAdapter, minAmountOut, routerInterfaceProblems } from "../src/integrations/swap.js";
+import { makeRepo } from "./helpers.js";
+
+const PRICES = { STX: 2, SBTC: 100_000, USDCX: 1 } as const;
+
+describe("swaps", () => {
+  it("parses SWAP with whole-unit qty and optional slippage", () => {
+    expect(parseCommand("DW SWAP 100 STX USDC")).toEqual({
+      ok: true,
+      value: { type: "SWAP", amountIn: 100_000_000n, fromAsset: "STX", toAsset: "USDCX", maxSlippageBps: 100 }
+    });
+    expect(parseCommand("DW SWAP 0.001 btc stx 0.5% FEE=high")).toEqual({
+      ok: true,
+      value: { type: "SWAP", amountIn: 100_000n, fromAsset: "SBTC", toAsset: "STX", maxSlippageBps: 50, feeTier: "high" }
+    });
+    expect(parseCommand("DW SWAP 100 STX STX").ok).toBe(false);
+    expect(parseCommand("DW SWAP 100 STX DOGE").ok).toBe(false);
+    expect(parseCommand("DW SWAP 100 STX USDCX 75%").ok).toBe(false);
+  });
+
+  it("counts STX-in swaps toward the daily STX spend", () => {
+    const repo = makeRepo();
+    const queue = (cmdId: string, raw: string) => {
+      const parsed = parseCommand(raw);
+      if (!parsed.ok) throw new Error(parsed.error);
+      repo.upsertCommand({
+        cmd_id: cmdId,
+        doc_id: "doc1",
+        raw_command: raw,
+        parsed_json: JSON.stringify(parsed.value, (_k, v) => typeof v === "bigint" ? v.toString() : v),
+        status: "APPROVED",
+        yellow_intent_id: null,
+        sui_tx_digest: null,
+        arc_tx_hash: null,
+        result_text: null,
+        error_text: null
+      }, { source: "price-trigger" });
+    };
+    queue("cmd1", "DW SWAP 3 STX USDCX");
+    queue("cmd2", "DW SWAP 50 USDCX STX");
+    queue("cmd3", "DW STX_SEND ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM 1000000");
+    expect(repo.getDailySpendMicroStx("doc1")).toBe(4_000_000);
+    expect(repo.getDailySpendMicroStx("doc1", "cmd1")).toBe(1_000_000);
+  });
+
+  it("derives the minimum output from the slippage bound", () => {
+    expect(minAmountOut(1_000_000n, 100)).toBe(990_000n);
+    expect(minAmountOut(1_000_000n, 50)).toBe(995_000n);
+  });
+
+  it("prices mock swaps from USD prices and enforces the minimum", async () => {
+    const router = new MockSwapAdapter((asset) => PRICES[asset]);
+    const out = await router.quote("STX", "USDCX", 100_000_000n);
+    expect(out).toBe(199_400_000n);
+    await expect(router.swap({ privateKeyHex: "", fromAsset: "STX", toAsset: "USDCX", amountIn: 100_000_000n, minOut: out }))
+      .resolves.toEqual({ fee: 0n });
+    await expect(router.swap({ privateKeyHex: "", fromAsset: "STX", toAsset: "USDCX", amountIn: 100_000_000n, minOut: out + 1n }))
+      .rejects.toThrow(/Slippage exceeded/);
+  });
+});
+
+describe("swap router interface", () => {
+  const ROUTER = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.router";
+  const fn = (name: string, access: ClarityAbiFunction["access"], args: ClarityAbiFunction["args"][number]["type"][], output: ClarityAbiFunction["outputs"]["type"]): ClarityAbiFunction =>
+    ({ name, access, args: args.map((type, i) => ({ name: `a${i}`, type })), outputs: { type: output } });
+  const routerAbi = (functions: ClarityAbiFunction[]): ClarityAbi =>
+    ({ functions, variables: [], maps: [], fungible_tokens: [], non_fungible_tokens: [] });
+  const compliant = routerAbi([
+    fn("get-amount-out", "read_only", ["trait_reference", "trait_reference", "uint128"], { response: { ok: "uint128", error: "uint128" } }),
+    fn("swap-exact-in", "public", ["principal", "principal", "uint128", "uint128"], { response: { ok: "uint128", error: "uint128" } })
+  ]);
+
+  it("accepts a router with the documented functions, tokens as principals or traits", () => {
+    expect(routerInterfaceProblems(compliant)).toEqual([]);
+  });
+
+  it("names each missing or mismatched function", () => {
+    const problems = routerInterfaceProblems(routerAbi([
+      fn("get-amount-out", "public", ["principal", "principal", "int128"], "uint128")
+    ]));
+    expect(problems).toEqual([
+      "get-amount-out is public (get-amount-out principal principal int) -> uint, expected read-only (get-amount-out principal principal uint) -> uint or (response uint _)",
+      "missing public function (swap-exact-in principal principal uint uint)"
+    ]);
+  });
+
+  const adapter = (abi: ClarityAbi) => {
+    const signed = { txid: "AA".repeat(32), nonce: 1n, fee: 500n, dryRun: { rawHex: "00", postConditionMode: PostConditionMode.Deny, postConditions: [] } };
+    const stacks = {
+      getContractAbi: vi.fn(async () => abi),
+      contractRead: vi.fn(async () => Cl.ok(Cl.uint(42))),
+      contractCall: vi.fn(async () => signed),
+      getFungibleTokenName: vi.fn(async () => "token")
+    };
+    const router = new RouterSwapAdapter({
+      network: "testnet",
+      router: ROUTER,
+      tokens: { STX: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.wstx", USDCX: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.usdcx" }
+    });
+    router.setStacksClient(stacks as unknown as StacksClient);
+    return { router, stacks, signed };
+  };
+
+  it("quotes and dry-runs through a compliant router, checking its interface once", async () => {
+    const { router, stacks, signed } = adapter(compliant);
+    expect(await router.quote("STX", "USDCX", 1_000_000n)).toBe(42n);
+    const out = await router.swap({ privateKeyHex: randomPrivateKey(), fromAsset: "STX", toAsset: "USDCX", amountIn: 1_000_000n, minOut: 40n, dryRun: true });
+    expect(out).toEqual(signed);
+    expect(stacks.contractCall.mock.calls[0]).toMatchObject([{ functionName: "swap-exact-in", dryRun: true }]);
+    expect(stacks.getContractAbi).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses to quote or swap through a router that does not implement the interface", async () => {
+    const { router, stacks } = adapter(routerAbi([]));
+    await expect(router.quote("STX", "USDCX", 1_000_000n)).rejects.toThrow(`Swap router ${ROUTER} does not implement the router interface: missing read-only function`);
+    expect(stacks.contractRead).not.toHaveBeenCalled();
+  });
+});
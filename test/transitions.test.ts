@@ -0,0 +1,101 @@
+import { describe, expect, it, onTestFinished, vi } from "vitest";
+import { Repo } from "../src/db/repo.js";
+import { makeRepo } from "./helpers.js";
+
+function insert(repo: Repo, status: string, rawCommand = "DW STATUS") {
+  repo.upsertCommand({
+    cmd_id: "cmd1",
+    doc_id: "doc1",
+    raw_command: rawCommand,
+    parsed_json: JSON.stringify({ type: "STATUS" }),
+    status,
+    yellow_intent_id: null,
+    sui_tx_digest: null,
+    arc_tx_hash: null,
+    result_text: null,
+    error_text: null
+  }, { source: "cell-edit", actor: "doc-editor" });
+}
+
+describe("guarded command transitions", () => {
+  it("records each status change with source and actor", () => {
+    const repo = makeRepo();
+    insert(repo, "PENDING_APPROVAL");
+    expect(repo.setCommandStatus("cmd1", "APPROVED", { source: "web", actor: "alice" })).toBe(true);
+    expect(repo.setCommandStatus("cmd1", "EXECUTING", { source: "executor" })).toBe(true);
+
+    const history = repo.listCommandTransitions("cmd1");
+    expect(history.map((h) => [h.from_status, h.to_status, h.source])).toEqual([
+      [null, "PENDING_APPROVAL", "cell-edit"],
+      ["PENDING_APPROVAL", "APPROVED", "web"],
+      ["APPROVED", "EXECUTING", "executor"]
+    ]);
+    expect(history[1]!.actor).toBe("alice");
+  });
+
+  it("refuses illegal moves without writing", () => {
+    const repo = makeRepo();
+    insert(repo, "PENDING_APPROVAL");
+    repo.setCommandStatus("cmd1", "REJECTED", { source: "web" });
+    expect(repo.setCommandStatus("cmd1", "APPROVED", { source: "cell-edit" })).toBe(false);
+    expect(repo.getCommand("cmd1")?.status).toBe("REJECTED");
+    expect(repo.listCommandTransitions("cmd1")).toHaveLength(2);
+  });
+
+  it("rejects upserts that would reopen a finished command", () => {
+    const repo = makeRepo();
+    insert(repo, "APPROVED");
+    repo.setCommandStatus("cmd1", "EXECUTING", { source: "executor" });
+    repo.setCommandStatus("cmd1", "EXECUTED", { source: "executor" });
+    expect(() => insert(repo, "PENDING_APPROVAL")).toThrow(/Illegal status transition/);
+    expect(repo.getCommand("cmd1")?.status).toBe("EXECUTED");
+  });
+
+  it("expires pending approvals and keeps them closed", () => {
+    const repo = makeRepo();
+    insert(repo, "PENDING_APPROVAL");
+    expect(repo.listExpiredApprovals("doc1", -1).map((c) => c.cmd_id)).toEqual(["cmd1"]);
+    expect(repo.listExpiredApprovals("doc2", -1)).toEqual([]);
+    expect(repo.setCommandStatus("cmd1", "EXPIRED", { source: "system", actor: "approval-ttl" })).toBe(true);
+    expect(repo.setCommandStatus("cmd1", "APPROVED", { source: "web" })).toBe(false);
+    expect(repo.listExpiredApprovals("doc1", -1)).toEqual([]);
+  });
+
+  it("restarts the approval window when an edited command returns to PENDING_APPROVAL", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    onTestFinished(() => { vi.useRealTimers(); });
+    const repo = makeRepo();
+    vi.setSystemTime(1_700_000_000_000);
+    insert(repo, "PENDING_APPROVAL");
+    vi.setSystemTime(1_700_000_000_000 + 7_200_000);
+    expect(repo.listExpiredApprovals("doc1", 3_600_000).map((c) => c.cmd_id)).toEqual(["cmd1"]);
+
+    insert(repo, "INVALID");
+    insert(repo, "PENDING_APPROVAL");
+    expect(repo.listExpiredApprovals("doc1", 3_600_000)).toEqual([]);
+
+    vi.setSystemTime(1_700_000_000_000 + 7_200_000 + 1_800_000);
+    insert(repo, "PENDING_APPROVAL", "DW STATUS now");
+    vi.setSystemTime(1_700_000_000_000 + 7_200_000 + 3_600_001);
+    expect(repo.listExpiredApprovals("doc1", 3_600_000)).toEqual([]);
+    vi.setSystemTime(1_700_000_000_000 + 7_200_000 + 1_800_000 + 3_600_001);
+    expect(repo.listExpiredApprovals("doc1", 3_600_000).map((c) => c.cmd_id)).toEqual(["cmd1"]);
+  });
+
+  it("tracks broadcast transactions until they settle", () => {
+    const repo = makeRepo();
+    insert(repo, "APPROVED");
+    repo.setCommandStatus("cmd1", "EXECUTING", { source: "executor" });
+    repo.setCommandExecutionIds("cmd1", { txId: "0xabc" });
+    repo.setCommandStatus("cmd1", "EXECUTED", { source: "executor" });
+    expect(repo.listUnconfirmedCommands().map((c) => c.cmd_id)).toEqual(["cmd1"]);
+
+    repo.upsertTxConfirmation({ cmdId: "cmd1", docId: "doc1", txId: "0xabc", txStatus: "pending", feeMicroStx: "180" });
+    repo.upsertTxConfirmation({ cmdId: "cmd1", docId: "doc1", txId: "0xabc", txStatus: "success", blockHeight: 1234, txResult: "(ok true)", finalized: true });
+    expect(repo.getTxConfirmation("cmd1")).toMatchObject({ tx_status: "success", block_height: 1234, fee_micro_stx: "180", tx_result: "(ok true)" });
+
+    expect(repo.setCommandStatus("cmd1", "CONFIRMED", { source: "system", actor: "tx-tracker" })).toBe(true);
+    expect(repo.listUnconfirmedCommands()).toEqual([]);
+    expect(repo.setCommandStatus("cmd1", "ABORTED", { source: "system" })).toBe(false);
+  });
+});